@@ -19,7 +19,43 @@ export const config = {
   jwtExpiresIn: process.env.JWT_EXPIRES_IN || '24h',
   
   // CORS
-  allowedOrigins: (process.env.ALLOWED_ORIGINS)
+  allowedOrigins: (process.env.ALLOWED_ORIGINS),
+
+  // Part B works claimed by more than one faculty: "full" | "split" | "exclusive"
+  // (see utils/duplicateClaims)
+  coAuthorSharingPolicy: process.env.CO_AUTHOR_SHARING_POLICY || 'full',
+
+  // Public base URL of this API, used in links it hands out (local signed URLs)
+  publicBaseUrl: process.env.PUBLIC_BASE_URL || `http://localhost:${process.env.PORT || 4000}`,
+
+  // File storage for evidence and generated PDFs: "local" | "s3" | "cloudinary"
+  // (see utils/storage). Cloudinary stays the default where it is configured.
+  storageDriver: process.env.STORAGE_DRIVER || (process.env.CLOUDINARY_CLOUD_NAME ? 'cloudinary' : 'local'),
+  localStorageDir: process.env.LOCAL_STORAGE_DIR || 'uploads',
+  // Signs local storage URLs; falls back to the JWT secret
+  storageUrlSecret: process.env.STORAGE_URL_SECRET || process.env.JWT_SECRET || 'your-secret-key',
+  cloudinaryFolder: process.env.CLOUDINARY_FOLDER || 'Home/Faculty_Appraisal',
+  s3: {
+    // Any S3-compatible endpoint (AWS, MinIO, R2, ...); empty means AWS for the region
+    endpoint: process.env.S3_ENDPOINT || '',
+    region: process.env.S3_REGION || 'us-east-1',
+    bucket: process.env.S3_BUCKET || '',
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false',
+  },
+  evidenceMaxBytes: Number(process.env.EVIDENCE_MAX_BYTES || 10 * 1024 * 1024),
+  reportTemplateMaxBytes: Number(process.env.REPORT_TEMPLATE_MAX_BYTES || 20 * 1024 * 1024),
+  // Background PDF / DOCX generation (see utils/jobQueue)
+  jobs: {
+    concurrency: Number(process.env.JOB_CONCURRENCY || 2),
+    maxAttempts: Number(process.env.JOB_MAX_ATTEMPTS || 3),
+    // Retry n waits retryBaseMs * 2^(n-1)
+    retryBaseMs: Number(process.env.JOB_RETRY_BASE_MS || 5_000),
+    pollIntervalMs: Number(process.env.JOB_POLL_INTERVAL_MS || 1_000),
+    // A running job whose worker has been silent this long is picked up again
+    lockTimeoutMs: Number(process.env.JOB_LOCK_TIMEOUT_MS || 5 * 60_000),
+  },
 };
 
 
@@ -9,11 +9,60 @@ export const APPRAISAL_STATUS = {
   INTERACTION_PENDING: "Interaction Pending",
   COMPLETED: "Completed",
   SENT_TO_DIRECTOR: "Sent to Director",  
+  REVISION_REQUESTED: "Revision Requested",
+  APPROVED: "Approved",
+  PUBLISHED: "Published",
 } as const;
 
 
 export type AppraisalStatus = typeof APPRAISAL_STATUS[keyof typeof APPRAISAL_STATUS];
 
+/** Events that move an appraisal between statuses (see utils/appraisalStateMachine). */
+export const APPRAISAL_EVENTS = {
+  SUBMIT: "submit",
+  RESUBMIT: "resubmit",
+  VERIFY_PART_B: "verifyPartB",
+  COMPLETE_PORTFOLIO_MARKS: "completePortfolioMarks",
+  VERIFY_MARKS: "verifyMarks",
+  COMPLETE_INTERACTION: "completeInteraction",
+  SEND_TO_DIRECTOR: "sendToDirector",
+  REQUEST_REVISION: "requestRevision",
+  APPROVE: "approve",
+  MODERATE: "moderate",
+  PUBLISH: "publish",
+} as const;
+
+export type AppraisalEvent = typeof APPRAISAL_EVENTS[keyof typeof APPRAISAL_EVENTS];
+
+/** Review stages from which an appraisal can be returned to the faculty for revision. */
+export const REVIEW_STATUSES = [
+  APPRAISAL_STATUS.VERIFICATION_PENDING,
+  APPRAISAL_STATUS.PORTFOLIO_MARKING_PENDING,
+  APPRAISAL_STATUS.MARKS_VERIFICATION_PENDING,
+  APPRAISAL_STATUS.INTERACTION_PENDING,
+  APPRAISAL_STATUS.COMPLETED,
+  APPRAISAL_STATUS.SENT_TO_DIRECTOR,
+] as const satisfies readonly AppraisalStatus[];
+
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
+
+/** Statuses reached once the HOD has verified the marks. */
+export const MARKS_VERIFIED_STATUSES = [
+  APPRAISAL_STATUS.INTERACTION_PENDING,
+  APPRAISAL_STATUS.COMPLETED,
+  APPRAISAL_STATUS.SENT_TO_DIRECTOR,
+  APPRAISAL_STATUS.APPROVED,
+  APPRAISAL_STATUS.PUBLISHED,
+] as const satisfies readonly AppraisalStatus[];
+
+/** Faculty-editable parts that a revision request can reopen. */
+export const APPRAISAL_PARTS = ["partA", "partB", "partC", "partD", "partE"] as const;
+export type AppraisalPart = typeof APPRAISAL_PARTS[number];
+
+/** Verifier decision on a single Part B entry (paper, patent, grant, ...). */
+export const PART_B_ENTRY_STATUSES = ["pending", "accepted", "rejected"] as const;
+export type PartBEntryStatus = typeof PART_B_ENTRY_STATUSES[number];
+
 export const ADMIN_DESIGNATIONS = [
     "Director", 
     "Dean", 
@@ -28,6 +77,8 @@ export const ACADEMIC_CADRES = [
     "Assistant Professor"
   ] as const;
 
+export type AcademicCadre = typeof ACADEMIC_CADRES[number];
+
 // Combined type to match frontend's DesignationValue
 export const DESIGNATION_VALUES = [...ACADEMIC_CADRES, ...ADMIN_DESIGNATIONS] as const;
 export type DesignationValue = typeof DESIGNATION_VALUES[number];
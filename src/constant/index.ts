@@ -1,4 +1,5 @@
 export * from './department';
 export * from './status';
 export * from './userInfo';
-export * from './appraisal';
\ No newline at end of file
+export * from './appraisal';
+export * from './scoring';
\ No newline at end of file
@@ -0,0 +1,344 @@
+import { type AcademicCadre } from "./appraisal";
+
+/*
+ * Built-in scoring rules, transcribed from the guidelines printed on the
+ * institute's Self Appraisal Form (pdf_template/test2.pdf): Part A from the
+ * Academic Involvement table, Part B from the Research and Development table,
+ * Part C from the Self Development table, and the cadre maxima from each
+ * part's "Obtained Marks Summary". Where the form states a rate per amount
+ * of money (e.g. "per two lakh rupees"), it is converted to the lakhs the
+ * appraisal stores. A published rubric (models/rubric) overrides
+ * any of these for its appraisal year.
+ */
+
+// ── PART A ──────────────────────────────────────────────────────────────────
+
+/** Multiplier applied to the raw Part A total for each academic cadre. */
+export const PART_A_ROLE_FACTOR: Record<AcademicCadre, number> = {
+  Professor: 0.68,
+  "Associate Professor": 0.818,
+  "Assistant Professor": 1,
+};
+
+/** Upper bound on the factored Part A total for each academic cadre. */
+export const PART_A_ROLE_MAX: Record<AcademicCadre, number> = {
+  Professor: 300,
+  "Associate Professor": 360,
+  "Assistant Professor": 440,
+};
+
+/** Maximum raw marks per Part A section (sums to 440 before the role factor). */
+export const PART_A_SECTION_MAX = {
+  resultAnalysis: 50,
+  courseOutcome: 50,
+  eLearning: 50,
+  academicEngagement: 50,
+  teachingLoad: 50,
+  projectsGuided: 40,
+  studentFeedback: 100,
+  ptgMeetings: 50,
+} as const;
+
+export type PartASection = keyof typeof PART_A_SECTION_MAX;
+
+/**
+ * Share of the result-analysis marks earned by each pass band; the form's
+ * 10 × (5 / 4 / 3 per student) over the class, as a share of 50.
+ */
+export const PART_A_RESULT_BAND_WEIGHT = {
+  above60: 1,
+  from50to59: 0.8,
+  from40to49: 0.6,
+} as const;
+
+/** Course-outcome marks: attainment % is scaled to this, timely CO submission adds the rest. */
+export const PART_A_CO_ATTAINMENT_MAX = 30;
+export const PART_A_CO_TIMELY_SUBMISSION_MARKS = 20;
+
+/**
+ * Marks per e-learning instance, PTG meeting and guided UG project / PG
+ * dissertation (each capped by PART_A_SECTION_MAX). The form gives full PTG
+ * marks for the expected 6 meetings a year.
+ */
+export const PART_A_PER_ELEARNING_INSTANCE = 10;
+export const PART_A_PER_PTG_MEETING = 50 / 6;
+export const PART_A_PER_PROJECT_GUIDED = 20;
+
+/** Minimum weekly teaching load (hours) per cadre; full teaching-load marks at or above this. */
+export const PART_A_WEEKLY_LOAD_NORM: Record<AcademicCadre, number> = {
+  Professor: 12,
+  "Associate Professor": 14,
+  "Assistant Professor": 16,
+};
+
+/**
+ * Hours/week the load norm is relaxed by for PhD supervisors with scholars
+ * enrolled at the institute's research centre. The form's relaxation for
+ * administrative posts (Deputy Director / Dean / HoD / Associate Dean, up to
+ * 4 hours in all) and its full PTG marks for those posts are not applied.
+ */
+export const PART_A_PHD_SCHOLAR_LOAD_RELAXATION = 2;
+
+/** Claimed marks may differ from the server-computed value by at most this much (rounding). */
+export const SCORE_TOLERANCE = 0.01;
+
+// ── PART B ──────────────────────────────────────────────────────────────────
+
+/** Upper bound on the Part B total for each academic cadre. */
+export const PART_B_ROLE_MAX: Record<AcademicCadre, number> = {
+  Professor: 370,
+  "Associate Professor": 300,
+  "Assistant Professor": 210,
+};
+
+/**
+ * How a Part B item's `count` turns into claimed marks:
+ * `count × perUnit`, optionally capped at `max` for that item. With
+ * `blockSize`, only complete blocks of that many units score, `perUnit`
+ * marks each.
+ */
+export interface PartBItemRule {
+  perUnit: number;
+  max?: number;
+  blockSize?: number;
+}
+
+/**
+ * Scoring rule for every Part B item, keyed by section and item joined with
+ * an underscore (e.g. "papers_sci", "placement") — the same keys verifiers
+ * send in finalizeVerification. This list is also the canonical set of Part B
+ * items; anything not listed here is not scored.
+ */
+export const PART_B_ITEM_RULES = {
+  papers_sci: { perUnit: 100 },
+  papers_esci: { perUnit: 50 },
+  papers_scopus: { perUnit: 50 },
+  papers_ugc: { perUnit: 10 },
+  papers_other: { perUnit: 5 },
+  conferences_scopus: { perUnit: 30 },
+  conferences_other: { perUnit: 5 },
+  bookChapters_scopus: { perUnit: 30 },
+  bookChapters_other: { perUnit: 5 },
+  books_intlIndexed: { perUnit: 100 },
+  books_intlNational: { perUnit: 30 },
+  books_local: { perUnit: 10 },
+  // Citations are entered individually and score per complete block of 3.
+  citations_wos: { perUnit: 3, blockSize: 3 },
+  citations_scopus: { perUnit: 3, blockSize: 3 },
+  citations_googleScholar: { perUnit: 1, blockSize: 3 },
+  copyrights_individualRegistered: { perUnit: 5 },
+  copyrights_individualGranted: { perUnit: 15 },
+  copyrights_instituteRegistered: { perUnit: 10 },
+  copyrights_instituteGranted: { perUnit: 30 },
+  patents_individualRegistered: { perUnit: 15 },
+  patents_individualPublished: { perUnit: 30 },
+  patents_individualGranted: { perUnit: 50 },
+  patents_individualCommercialized: { perUnit: 100 },
+  patents_instituteRegistered: { perUnit: 30 },
+  patents_institutePublished: { perUnit: 60 },
+  patents_instituteGranted: { perUnit: 100 },
+  patents_instituteCommercialized: { perUnit: 200 },
+  // Grants and training revenue are entered in lakhs of rupees: 10 marks per
+  // two lakh of research grant, 5 per 10k rupees of the others.
+  grants_research: { perUnit: 5 },
+  grants_nonResearch: { perUnit: 50, max: 40 },
+  revenueTraining: { perUnit: 50, max: 40 },
+  products_commercialized: { perUnit: 100 },
+  products_developed: { perUnit: 40 },
+  products_poc: { perUnit: 10 },
+  startup_revenue: { perUnit: 100 },
+  startup_funding: { perUnit: 100 },
+  startup_product: { perUnit: 40 },
+  startup_poc: { perUnit: 10 },
+  startup_registered: { perUnit: 5 },
+  awards_international: { perUnit: 30 },
+  awards_government: { perUnit: 20 },
+  awards_national: { perUnit: 5 },
+  awards_intlFellowship: { perUnit: 50 },
+  awards_nationalFellowship: { perUnit: 30 },
+  industryInteraction_activeMou: { perUnit: 10 },
+  industryInteraction_collaboration: { perUnit: 20 },
+  placement: { perUnit: 10 },
+} as const satisfies Record<string, PartBItemRule>;
+
+export type PartBItemPath = keyof typeof PART_B_ITEM_RULES;
+
+/**
+ * Rows of the form's Research and Development table whose maximum covers
+ * several items together; a row of one item caps it with the item's `max`.
+ */
+export const PART_B_GROUPS = {
+  conferences: ["conferences_scopus", "conferences_other"],
+  bookChapters: ["bookChapters_scopus", "bookChapters_other"],
+  books: ["books_intlIndexed", "books_intlNational", "books_local"],
+  citations: ["citations_wos", "citations_scopus", "citations_googleScholar"],
+  copyrightsIndividual: ["copyrights_individualRegistered", "copyrights_individualGranted"],
+  patentsIndividual: [
+    "patents_individualRegistered",
+    "patents_individualPublished",
+    "patents_individualGranted",
+    "patents_individualCommercialized",
+  ],
+  products: ["products_commercialized", "products_developed", "products_poc"],
+  awards: [
+    "awards_international",
+    "awards_government",
+    "awards_national",
+    "awards_intlFellowship",
+    "awards_nationalFellowship",
+  ],
+} as const satisfies Record<string, readonly PartBItemPath[]>;
+
+export type PartBGroup = keyof typeof PART_B_GROUPS;
+
+/** Upper bound on the combined claimed marks of each PART_B_GROUPS row. */
+export const PART_B_GROUP_MAX: Record<PartBGroup, number> = {
+  conferences: 180,
+  bookChapters: 150,
+  books: 200,
+  citations: 50,
+  copyrightsIndividual: 30,
+  patentsIndividual: 100,
+  products: 100,
+  awards: 50,
+};
+
+// ── PART C ──────────────────────────────────────────────────────────────────
+
+/** Upper bound on the Part C total for each academic cadre. */
+export const PART_C_ROLE_MAX: Record<AcademicCadre, number> = {
+  Professor: 160,
+  "Associate Professor": 170,
+  "Assistant Professor": 180,
+};
+
+/** Qualification marks: PDF completed or PhD awarded, otherwise PDF ongoing. */
+export const PART_C_QUALIFICATION_MARKS = {
+  completed: 20,
+  ongoing: 15,
+} as const;
+
+/** Marks per training programme by duration, for attended and organised programmes. */
+export const PART_C_TRAINING_ATTENDED = {
+  perProgramme: { twoWeek: 20, oneWeek: 10, twoToFiveDays: 5, oneDay: 2 },
+  max: 40,
+} as const;
+
+export const PART_C_TRAINING_ORGANIZED = {
+  perProgramme: { twoWeek: 40, oneWeek: 20, twoToFiveDays: 10, oneDay: 2 },
+  max: 80,
+} as const;
+
+/** Marks per PhD scholar guided, by stage. */
+export const PART_C_PHD_GUIDED = {
+  awarded: 50,
+  submitted: 25,
+  ongoing: 10,
+} as const;
+
+// ── PART E / SUMMARY / INTERACTION ──────────────────────────────────────────
+
+export const PART_E_MAX = 50;
+
+/**
+ * Administration weightage added to the grand total: 100 for a Dean or HoD
+ * and 50 for an Associate Dean. The form also gives 100 to a Deputy
+ * Director, a post with no role of its own here.
+ */
+export const DEAN_HOD_EXTRA_MARKS = 100;
+export const ASSOCIATE_DEAN_EXTRA_MARKS = 50;
+
+/** Cap on the grand total (claimed and verified). */
+export const GRAND_TOTAL_MAX = 1000;
+
+/** Maximum marks per interaction criterion, per evaluator. */
+export const INTERACTION_CRITERIA_MAX = {
+  knowledge: 20,
+  skills: 20,
+  attributes: 10,
+  outcomesInitiatives: 20,
+  selfBranching: 10,
+  teamPerformance: 20,
+} as const;
+
+export type InteractionCriterion = keyof typeof INTERACTION_CRITERIA_MAX;
+
+// ── RUBRIC ──────────────────────────────────────────────────────────────────
+
+/**
+ * Every weight, cap and factor that decides a score. A Rubric document stores
+ * one of these per appraisal year and version; appraisals pin the version they
+ * were created under so past years keep their own rules.
+ */
+export interface RubricRules {
+  partA: {
+    roleFactor: Record<AcademicCadre, number>;
+    roleMax: Record<AcademicCadre, number>;
+    sectionMax: Record<PartASection, number>;
+    resultBandWeight: { above60: number; from50to59: number; from40to49: number };
+    coAttainmentMax: number;
+    coTimelySubmissionMarks: number;
+    perELearningInstance: number;
+    perPtgMeeting: number;
+    perProjectGuided: number;
+    weeklyLoadNorm: Record<AcademicCadre, number>;
+    phdScholarLoadRelaxation: number;
+  };
+  partB: {
+    roleMax: Record<AcademicCadre, number>;
+    items: Record<PartBItemPath, PartBItemRule>;
+    groupMax: Record<PartBGroup, number>;
+  };
+  partC: {
+    roleMax: Record<AcademicCadre, number>;
+    qualificationMarks: { completed: number; ongoing: number };
+    trainingAttended: {
+      perProgramme: { twoWeek: number; oneWeek: number; twoToFiveDays: number; oneDay: number };
+      max: number;
+    };
+    trainingOrganized: {
+      perProgramme: { twoWeek: number; oneWeek: number; twoToFiveDays: number; oneDay: number };
+      max: number;
+    };
+    phdGuided: { awarded: number; submitted: number; ongoing: number };
+  };
+  partE: { max: number };
+  deanHodExtraMarks: number;
+  associateDeanExtraMarks: number;
+  grandTotalMax: number;
+  interactionCriteria: Record<InteractionCriterion, number>;
+}
+
+/** Built-in rules, used when no rubric has been published for an appraisal year. */
+export const DEFAULT_RUBRIC_RULES: RubricRules = {
+  partA: {
+    roleFactor: PART_A_ROLE_FACTOR,
+    roleMax: PART_A_ROLE_MAX,
+    sectionMax: PART_A_SECTION_MAX,
+    resultBandWeight: PART_A_RESULT_BAND_WEIGHT,
+    coAttainmentMax: PART_A_CO_ATTAINMENT_MAX,
+    coTimelySubmissionMarks: PART_A_CO_TIMELY_SUBMISSION_MARKS,
+    perELearningInstance: PART_A_PER_ELEARNING_INSTANCE,
+    perPtgMeeting: PART_A_PER_PTG_MEETING,
+    perProjectGuided: PART_A_PER_PROJECT_GUIDED,
+    weeklyLoadNorm: PART_A_WEEKLY_LOAD_NORM,
+    phdScholarLoadRelaxation: PART_A_PHD_SCHOLAR_LOAD_RELAXATION,
+  },
+  partB: {
+    roleMax: PART_B_ROLE_MAX,
+    items: PART_B_ITEM_RULES,
+    groupMax: PART_B_GROUP_MAX,
+  },
+  partC: {
+    roleMax: PART_C_ROLE_MAX,
+    qualificationMarks: PART_C_QUALIFICATION_MARKS,
+    trainingAttended: PART_C_TRAINING_ATTENDED,
+    trainingOrganized: PART_C_TRAINING_ORGANIZED,
+    phdGuided: PART_C_PHD_GUIDED,
+  },
+  partE: { max: PART_E_MAX },
+  deanHodExtraMarks: DEAN_HOD_EXTRA_MARKS,
+  associateDeanExtraMarks: ASSOCIATE_DEAN_EXTRA_MARKS,
+  grandTotalMax: GRAND_TOTAL_MAX,
+  interactionCriteria: INTERACTION_CRITERIA_MAX,
+};
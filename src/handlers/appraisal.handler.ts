@@ -1,10 +1,71 @@
 import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import path from 'path';
 import { FacultyAppraisal, IFacultyAppraisal } from '../models/detailedAppraisal';
 import { User } from '../models/user';
 import { sendSuccess, sendError, HttpStatus } from '../utils/response';
 import { type UserRole } from '../constant/userInfo';
-import { APPRAISAL_STATUS } from '../constant';
-import { getSignedAppraisalPdfUrl } from '../config/cloudinary';
+import { APPRAISAL_STATUS, APPRAISAL_EVENTS, type AppraisalEvent, type AppraisalPart } from '../constant';
+import { ApiError } from '../middleware/error.middleware';
+import { config } from '../config';
+import {
+  computePartA,
+  findPartADiscrepancies,
+  computePartB,
+  findPartBDiscrepancies,
+  withStoredVerification,
+  computePartC,
+  findPartCDiscrepancies,
+  toAcademicCadre,
+  resolveRubricRules,
+  rubricPinFor,
+  computeGrandTotal,
+  getPartBItem,
+  sanitizePartBEntry,
+} from '../utils/scoring';
+import { getClosedWindowReason, type ResolvedCycle } from '../utils/cycle';
+import { buildCarryForwardDraft } from '../utils/carryForward';
+import { checkCoursesAgainstCatalogue } from '../utils/courseCatalogue';
+import { initialStatusEntry } from '../utils/statusHistory';
+import { redactUnpublishedScores, isRemarkWithheld } from '../utils/publication';
+import { AppraisalCycle } from '../models/appraisalCycle';
+import {
+  findTransitionError,
+  transitionAppraisal,
+  type TransitionContext,
+} from '../utils/appraisalStateMachine';
+import { getOpenRevision, openRevision, parseRevisionRequest } from '../utils/revision';
+import { type CycleWindow } from '../models/appraisalCycle';
+import { PublicationImport, PUBLICATION_IMPORT_STATUS } from '../models/publicationImport';
+import { Evidence, EVIDENCE_PARTS, type EvidencePart } from '../models/evidence';
+import {
+  EVIDENCE_CONTENT_TYPES,
+  EVIDENCE_FILE_TYPES,
+  detectEvidenceType,
+  sha256Of,
+  isEvidenceItem,
+  evidenceStorageKey,
+  canAccessEvidence,
+} from '../utils/evidence';
+import { getStorage } from '../utils/storage';
+import { getSignedAppraisalPdfUrl } from '../utils/appraisalPdf';
+import {
+  detectPublicationFormat,
+  parsePublications,
+  buildImportCandidates,
+  isImportItem,
+  PUBLICATION_FORMATS,
+  type ImportCandidate,
+} from '../utils/publicationImport';
+import {
+  enterPortfolioMarks,
+  verifyAppraisalMarks,
+  sendAppraisalToDirector,
+  approveAppraisalFor,
+  moderateAppraisalFor,
+  type ReviewActor,
+  type ReviewActionResult,
+} from '../utils/appraisalActions';
 
 declare global {
   namespace Express {
@@ -18,47 +79,55 @@ declare global {
 const EVALUATOR_ROLES: UserRole[] = ['director', 'dean', 'hod'];
 
 /**
- * Find an appraisal by userId and return 404 if missing.
+ * Find a user's appraisal for the request's cycle and return 404 if missing.
  * All handlers use this to avoid repeating the same boilerplate.
  */
 async function findAppraisalOrFail(
   res: Response,
-  userId: string
+  userId: string,
+  cycle: ResolvedCycle
 ): Promise<IFacultyAppraisal | null> {
-  const appraisal = await FacultyAppraisal.findOne({ userId });
+  const appraisal = await FacultyAppraisal.findOne({ userId, appraisalYear: cycle.year });
   if (!appraisal) {
-    sendError(res, 'Appraisal not found', HttpStatus.NOT_FOUND);
+    sendError(res, `Appraisal not found for ${cycle.label}`, HttpStatus.NOT_FOUND);
     return null;
   }
   return appraisal;
 }
 
 /**
- * Find an existing appraisal for this userId, or create a fresh DRAFT one.
+ * Find this user's appraisal for the cycle, or create a fresh DRAFT one.
  * Used by every part-update handler so faculty never have to manually POST to create first.
  * Returns null (and sends a 500) only if the DB write itself fails.
  */
 async function findOrCreateAppraisal(
   res: Response,
   userId: string,
-  requestingUser: { userId: string; role: UserRole }
+  requestingUser: { userId: string; role: UserRole },
+  cycle: ResolvedCycle
 ): Promise<IFacultyAppraisal | null> {
-  const existing = await FacultyAppraisal.findOne({ userId });
+  const existing = await FacultyAppraisal.findOne({ userId, appraisalYear: cycle.year });
   if (existing) return existing;
 
-  // Appraisal doesn't exist yet — auto-create it
+  // Appraisal doesn't exist yet — auto-create it, but only while submissions are open
+  if (!assertWindowOpen(res, cycle, 'submission')) return null;
+
   const user = await User.findOne({ userId, status: 'active' });
   if (!user) {
     sendError(res, 'Active user record not found; cannot auto-create appraisal', HttpStatus.NOT_FOUND);
     return null;
   }
 
+  const appraisalYear = cycle.year;
   const created = await FacultyAppraisal.create({
     userId,
     role: requestingUser.role,
     designation: user.designation,
-    appraisalYear: new Date().getFullYear(),
+    appraisalYear,
     status: APPRAISAL_STATUS.PEDING,
+    statusHistory: [initialStatusEntry(APPRAISAL_STATUS.PEDING, requestingUser)],
+    // Pin the rubric in force now so later rubric versions never rescore this appraisal.
+    ...(await rubricPinFor(appraisalYear)),
   });
   return created;
 }
@@ -76,18 +145,82 @@ function assertOwner(res: Response, requestingUserId: string, targetUserId: stri
 }
 
 /**
- * Guard: the appraisal must be in DRAFT status for faculty edits.
+ * Guard: the cycle's submission/verification/interaction window must be open.
+ * Returns true if the check passes, false + sends 403 if it fails.
+ */
+function assertWindowOpen(res: Response, cycle: ResolvedCycle, window: CycleWindow): boolean {
+  const reason = getClosedWindowReason(cycle, window);
+  if (reason) {
+    sendError(res, reason, HttpStatus.FORBIDDEN);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Guard: faculty may edit a DRAFT while the submission window is open, or —
+ * when a reviewer has returned it — only the parts reopened for revision.
+ * Omit `part` for edits that are not part-specific (e.g. the declaration).
  * Returns true if the check passes.
  */
-function assertDraft(res: Response, appraisal: IFacultyAppraisal): boolean {
-  if (appraisal.status !== APPRAISAL_STATUS.PEDING) {
+function assertDraft(
+  res: Response,
+  appraisal: IFacultyAppraisal,
+  cycle: ResolvedCycle,
+  part?: AppraisalPart
+): boolean {
+  if (appraisal.status === APPRAISAL_STATUS.PEDING) {
+    return assertWindowOpen(res, cycle, 'submission');
+  }
+
+  const revision = getOpenRevision(appraisal);
+  if (revision) {
+    if (!part || revision.parts.some((p) => p.part === part)) return true;
     sendError(
       res,
-      `Appraisal is locked (status: ${appraisal.status}). Only DRAFT appraisals can be edited.`,
+      `Only ${revision.parts.map((p) => p.part).join(', ')} were reopened for revision`,
       HttpStatus.BAD_REQUEST
     );
     return false;
   }
+
+  sendError(
+    res,
+    `Appraisal is locked (status: ${appraisal.status}). Only DRAFT appraisals can be edited.`,
+    HttpStatus.BAD_REQUEST
+  );
+  return false;
+}
+
+/**
+ * What the requester may see of an appraisal: its owner gets verified and
+ * evaluator marks only once the director has published results.
+ */
+function visibleTo(
+  appraisal: IFacultyAppraisal,
+  requestingUser: { userId: string }
+): Record<string, any> {
+  const plain = appraisal.toObject();
+  return requestingUser.userId === appraisal.userId ? redactUnpublishedScores(plain) : plain;
+}
+
+/**
+ * Guard: fire a workflow event through the state machine.
+ * Returns true if the transition was applied, false + sends its 409 if illegal.
+ */
+function applyTransition(
+  res: Response,
+  appraisal: IFacultyAppraisal,
+  event: AppraisalEvent,
+  actor: { userId: string; role: UserRole },
+  context?: TransitionContext
+): boolean {
+  const error = findTransitionError(appraisal, event, actor, context);
+  if (error) {
+    sendError(res, error.message, error.statusCode, error.details);
+    return false;
+  }
+  transitionAppraisal(appraisal, event, actor, context);
   return true;
 }
 
@@ -109,13 +242,22 @@ export const getAppraisalByUserId = async (req: Request, res: Response): Promise
       return;
     }
 
-    const appraisal = await findAppraisalOrFail(res, userId);
+    const appraisal = await findAppraisalOrFail(res, userId, req.cycle!);
     if (!appraisal) return;
 
-    const appraisalResponse = appraisal.toObject();
-
-    if (appraisalResponse.pdfUrl) {
-      appraisalResponse.pdfUrl = getSignedAppraisalPdfUrl(userId, appraisalResponse.appraisalYear);
+    const appraisalResponse = visibleTo(appraisal, requestingUser);
+
+    // A stored copy from before reviewer renders were kept apart may show verified marks
+    const pdfHiddenFromOwner =
+      isOwner && !appraisal.pdfOwnerView && appraisal.status !== APPRAISAL_STATUS.PUBLISHED;
+    if (pdfHiddenFromOwner) {
+      appraisalResponse.pdfUrl = '';
+    } else if (appraisalResponse.pdfUrl) {
+      appraisalResponse.pdfUrl = getSignedAppraisalPdfUrl(
+        userId,
+        appraisalResponse.appraisalYear,
+        appraisalResponse.pdfUrl
+      );
     }
 
     sendSuccess(res, appraisalResponse, 'Appraisal retrieved successfully');
@@ -126,6 +268,56 @@ export const getAppraisalByUserId = async (req: Request, res: Response): Promise
 };
 
 
+// ─────────────────────────────────────────────────────────────────────────────
+// READ — status timeline
+// GET /appraisal/:userId/timeline
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const getAppraisalTimeline = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    const requestingUser = req.user!;
+
+    if (requestingUser.userId !== userId && !EVALUATOR_ROLES.includes(requestingUser.role)) {
+      sendError(res, 'Unauthorized to view this appraisal', HttpStatus.FORBIDDEN);
+      return;
+    }
+
+    const appraisal = await findAppraisalOrFail(res, userId, req.cycle!);
+    if (!appraisal) return;
+
+    // Resolve actor names in one query; verifiers and deleted users fall back to their id.
+    const actorIds = [...new Set(appraisal.statusHistory.map((entry) => entry.actorId))];
+    const actors = await User.find({ userId: { $in: actorIds } }, { userId: 1, name: 1, _id: 0 }).lean();
+    const actorNames = new Map(actors.map((actor) => [actor.userId, actor.name]));
+
+    const isOwner = requestingUser.userId === userId;
+    const timeline = appraisal.statusHistory.map((entry) => ({
+      from: entry.from,
+      to: entry.to,
+      actorId: entry.actorId,
+      actorName: actorNames.get(entry.actorId) ?? entry.actorId,
+      actorRole: entry.actorRole,
+      remark: isOwner && isRemarkWithheld(entry, appraisal.status) ? '' : entry.remark,
+      at: entry.at,
+    }));
+
+    sendSuccess(
+      res,
+      {
+        userId,
+        appraisalYear: appraisal.appraisalYear,
+        status: appraisal.status,
+        timeline,
+      },
+      'Appraisal timeline retrieved successfully'
+    );
+  } catch (error) {
+    console.error('getAppraisalTimeline error:', error);
+    sendError(res, 'Failed to retrieve appraisal timeline', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
 // ─────────────────────────────────────────────────────────────────────────────
 // READ — by department
 // GET /appraisal/department/:department  (dean / hod)
@@ -155,7 +347,10 @@ export const getAppraisalsByDepartment = async (req: Request, res: Response): Pr
     const usersInDept = await User.find(userQuery, { userId: 1, _id: 0 }).lean();
     const userIds = usersInDept.map((u) => u.userId);
 
-    const filter: Record<string, unknown> = { userId: { $in: userIds } };
+    const filter: Record<string, unknown> = {
+      userId: { $in: userIds },
+      appraisalYear: req.cycle!.year,
+    };
 
     const appraisals = await FacultyAppraisal.find(filter)
       .select('userId role designation appraisalYear status summary createdAt updatedAt')
@@ -168,6 +363,80 @@ export const getAppraisalsByDepartment = async (req: Request, res: Response): Pr
   }
 };
 
+// ─────────────────────────────────────────────────────────────────────────────
+// CARRY FORWARD
+// POST /appraisal/:userId/carry-forward?cycle=2026
+// Starts the cycle's draft from the faculty's most recent earlier appraisal.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const carryForwardAppraisal = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    const requestingUser = req.user!;
+    const cycle = req.cycle!;
+
+    if (!assertOwner(res, requestingUser.userId, userId)) return;
+    if (!assertWindowOpen(res, cycle, 'submission')) return;
+
+    if (await FacultyAppraisal.exists({ userId, appraisalYear: cycle.year })) {
+      sendError(
+        res,
+        `An appraisal for ${cycle.label} already exists; carry-forward only creates a new draft`,
+        HttpStatus.CONFLICT
+      );
+      return;
+    }
+
+    const previous = await FacultyAppraisal.findOne({
+      userId,
+      appraisalYear: { $lt: cycle.year },
+    })
+      .sort({ appraisalYear: -1 })
+      .lean<IFacultyAppraisal>();
+    if (!previous) {
+      sendError(res, `No appraisal before ${cycle.label} to carry forward`, HttpStatus.NOT_FOUND);
+      return;
+    }
+
+    const user = await User.findOne({ userId, status: 'active' });
+    if (!user) {
+      sendError(res, 'Active user record not found; cannot create appraisal', HttpStatus.NOT_FOUND);
+      return;
+    }
+
+    const created = await FacultyAppraisal.create({
+      userId,
+      role: requestingUser.role,
+      designation: user.designation,
+      appraisalYear: cycle.year,
+      status: APPRAISAL_STATUS.PEDING,
+      statusHistory: [
+        initialStatusEntry(
+          APPRAISAL_STATUS.PEDING,
+          requestingUser,
+          `Carried forward from ${previous.appraisalYear}`
+        ),
+      ],
+      ...(await rubricPinFor(cycle.year)),
+      ...buildCarryForwardDraft(previous),
+    });
+
+    sendSuccess(
+      res,
+      created,
+      `Draft for ${cycle.label} created from the ${previous.appraisalYear} appraisal`,
+      HttpStatus.CREATED
+    );
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      sendError(res, 'An appraisal for this cycle was created concurrently', HttpStatus.CONFLICT);
+      return;
+    }
+    console.error('carryForwardAppraisal error:', error);
+    sendError(res, 'Failed to carry forward appraisal', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
 // ─────────────────────────────────────────────────────────────────────────────
 // PART-SPECIFIC UPDATE HANDLERS
 // Each handler only touches its own part via $set so no other part is disturbed.
@@ -182,18 +451,56 @@ export const updatePartA = async (req: Request, res: Response): Promise<void> =>
 
     if (!assertOwner(res, requestingUser.userId, userId)) return;
 
-    const appraisal = await findOrCreateAppraisal(res, userId, requestingUser);
+    const appraisal = await findOrCreateAppraisal(res, userId, requestingUser, req.cycle!);
     if (!appraisal) return;
-    if (!assertDraft(res, appraisal)) return;
+    if (!assertDraft(res, appraisal, req.cycle!, 'partA')) return;
+
+    // Course rows must exist in the catalogue; unassigned ones, and ones no published catalogue can vouch for, only warn.
+    const owner = await User.findOne({ userId }, { department: 1 }).lean();
+    const catalogue = await checkCoursesAgainstCatalogue(
+      userId,
+      owner?.department,
+      appraisal.appraisalYear,
+      Array.isArray(req.body.courses) ? req.body.courses : []
+    );
+    if (catalogue.errors.length > 0) {
+      sendError(res, 'Some courses are not in the course catalogue', HttpStatus.BAD_REQUEST, catalogue.errors);
+      return;
+    }
+
+    // Marks are derived server-side; any mark the client sends must agree with them.
+    const rules = await resolveRubricRules(appraisal);
+    const score = computePartA(
+      { ...req.body, courses: catalogue.courses },
+      toAcademicCadre(appraisal.designation),
+      rules
+    );
+    const discrepancies = findPartADiscrepancies(req.body, score);
+    if (discrepancies.length > 0) {
+      sendError(
+        res,
+        'Claimed Part A marks do not match the marks computed from the course metrics',
+        HttpStatus.BAD_REQUEST,
+        discrepancies
+      );
+      return;
+    }
+
+    const { rawTotal, ...partA } = score;
 
-    console.log('updatePartA request body:', req.body);
     const updated = await FacultyAppraisal.findOneAndUpdate(
-      { userId },
-      { $set: { partA: req.body } },
+      { _id: appraisal._id },
+      { $set: { partA: { ...partA, totalVerified: appraisal.partA.totalVerified } } },
       { new: true, runValidators: true }
     );
 
-    sendSuccess(res, updated, 'Part A saved successfully');
+    sendSuccess(
+      res,
+      updated && { ...visibleTo(updated, requestingUser), courseWarnings: catalogue.warnings },
+      catalogue.warnings.length > 0
+        ? `Part A saved with ${catalogue.warnings.length} course warning(s)`
+        : 'Part A saved successfully'
+    );
   } catch (error) {
     console.error('updatePartA error:', error);
     sendError(res, 'Failed to save Part A', HttpStatus.INTERNAL_SERVER_ERROR);
@@ -207,23 +514,229 @@ export const updatePartB = async (req: Request, res: Response): Promise<void> =>
 
     if (!assertOwner(res, requestingUser.userId, userId)) return;
 
-    const appraisal = await findOrCreateAppraisal(res, userId, requestingUser);
+    const appraisal = await findOrCreateAppraisal(res, userId, requestingUser, req.cycle!);
     if (!appraisal) return;
-    if (!assertDraft(res, appraisal)) return;
+    if (!assertDraft(res, appraisal, req.cycle!, 'partB')) return;
+
+    // Counts and claimed marks are derived from the entries; verifier decisions stay as they were.
+    const input = withStoredVerification(req.body, appraisal.toObject().partB);
+    const rules = await resolveRubricRules(appraisal);
+    const score = computePartB(input, toAcademicCadre(appraisal.designation), rules);
+    const discrepancies = findPartBDiscrepancies(req.body, score);
+    if (discrepancies.length > 0) {
+      sendError(
+        res,
+        'Claimed Part B counts or marks do not match those computed from the entries',
+        HttpStatus.BAD_REQUEST,
+        discrepancies
+      );
+      return;
+    }
 
     const updated = await FacultyAppraisal.findOneAndUpdate(
-      { userId },
-      { $set: { partB: req.body } },
+      { _id: appraisal._id },
+      { $set: { partB: score.partB } },
       { new: true, runValidators: true }
     );
 
-    sendSuccess(res, updated, 'Part B saved successfully');
+    sendSuccess(res, updated && visibleTo(updated, requestingUser), 'Part B saved successfully');
   } catch (error) {
     console.error('updatePartB error:', error);
     sendError(res, 'Failed to save Part B', HttpStatus.INTERNAL_SERVER_ERROR);
   }
 };
 
+// ─────────────────────────────────────────────────────────────────────────────
+// PART B IMPORT — BibTeX / RIS / CSV exports → candidate entries → confirm
+// POST /appraisal/:userId/part-b/import                    Body: { content, fileName?, format? } or the raw file
+// GET  /appraisal/:userId/part-b/import/:importId
+// POST /appraisal/:userId/part-b/import/:importId/confirm  Body: { selections?: [{ index, item? }] }
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Load one of the user's publication imports, or send 404.
+ */
+async function findImportOrFail(res: Response, userId: string, importId: string) {
+  const found = mongoose.isValidObjectId(importId)
+    ? await PublicationImport.findOne({ _id: importId, userId })
+    : null;
+  if (!found) {
+    sendError(res, 'Publication import not found', HttpStatus.NOT_FOUND);
+    return null;
+  }
+  return found;
+}
+
+export const previewPublicationImport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    const requestingUser = req.user!;
+
+    if (!assertOwner(res, requestingUser.userId, userId)) return;
+
+    // Either the raw file as text, or JSON wrapping it
+    const raw = typeof req.body === 'string';
+    const content: unknown = raw ? req.body : req.body?.content;
+    const fileName = String((raw ? req.query.fileName : req.body?.fileName) ?? '');
+    const requestedFormat = raw ? req.query.format : req.body?.format;
+
+    if (typeof content !== 'string' || !content.trim()) {
+      sendError(res, 'Upload a BibTeX, RIS or CSV file (or send it as "content")', HttpStatus.BAD_REQUEST);
+      return;
+    }
+
+    const format = detectPublicationFormat(content, fileName, requestedFormat);
+    if (!format) {
+      sendError(
+        res,
+        `Could not tell the file format; pass "format" as one of ${PUBLICATION_FORMATS.join(', ')}`,
+        HttpStatus.BAD_REQUEST
+      );
+      return;
+    }
+
+    const { records, errors } = parsePublications(content, format);
+    if (records.length === 0) {
+      sendError(res, 'No publications could be read from the file', HttpStatus.BAD_REQUEST, errors);
+      return;
+    }
+
+    // Mark works already in the draft so they are not imported twice
+    const existing = await FacultyAppraisal.findOne({ userId, appraisalYear: req.cycle!.year })
+      .select('partB')
+      .lean<{ partB?: unknown }>();
+
+    const preview = await PublicationImport.create({
+      userId,
+      appraisalYear: req.cycle!.year,
+      format,
+      fileName,
+      candidates: buildImportCandidates(records, existing?.partB),
+      parseErrors: errors,
+    });
+
+    sendSuccess(
+      res,
+      preview,
+      `${records.length} publication(s) read; review them and confirm to add them to Part B`,
+      HttpStatus.CREATED
+    );
+  } catch (error) {
+    console.error('previewPublicationImport error:', error);
+    sendError(res, 'Failed to import publications', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+export const getPublicationImport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId, importId } = req.params;
+
+    if (!assertOwner(res, req.user!.userId, userId)) return;
+
+    const preview = await findImportOrFail(res, userId, importId);
+    if (!preview) return;
+
+    sendSuccess(res, preview, 'Publication import retrieved successfully');
+  } catch (error) {
+    console.error('getPublicationImport error:', error);
+    sendError(res, 'Failed to retrieve publication import', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+/**
+ * Adds the selected candidates to the draft's Part B as new (pending) entries.
+ * Without `selections`, every classified candidate that is not already in
+ * Part B or repeated in the file is added. `item` overrides the
+ * classification, e.g. to place an unclassified paper under "papers_ugc".
+ */
+export const confirmPublicationImport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId, importId } = req.params;
+    const requestingUser = req.user!;
+
+    if (!assertOwner(res, requestingUser.userId, userId)) return;
+
+    const preview = await findImportOrFail(res, userId, importId);
+    if (!preview) return;
+    if (preview.status !== PUBLICATION_IMPORT_STATUS.PREVIEW) {
+      sendError(res, 'This import has already been confirmed', HttpStatus.CONFLICT);
+      return;
+    }
+    if (preview.appraisalYear !== req.cycle!.year) {
+      sendError(res, `This import belongs to the ${preview.appraisalYear} cycle`, HttpStatus.BAD_REQUEST);
+      return;
+    }
+
+    const candidates: ImportCandidate[] = preview.candidates;
+    const { selections } = req.body as { selections?: { index: number; item?: string }[] };
+    const chosen: { candidate: ImportCandidate; item: string }[] = [];
+    const errors: string[] = [];
+
+    if (selections === undefined) {
+      for (const candidate of candidates) {
+        if (candidate.item && !candidate.alreadyClaimed && candidate.duplicateOf === null) {
+          chosen.push({ candidate, item: candidate.item });
+        }
+      }
+    } else if (!Array.isArray(selections)) {
+      errors.push('"selections" must be an array of { index, item? }');
+    } else {
+      for (const selection of selections) {
+        const candidate = candidates[selection?.index];
+        const item = selection?.item ?? candidate?.item;
+        if (!candidate) errors.push(`No candidate at index ${selection?.index}`);
+        else if (!isImportItem(item)) {
+          errors.push(`Candidate ${candidate.index} needs a papers/conferences/bookChapters/books item`);
+        } else chosen.push({ candidate, item });
+      }
+    }
+
+    if (errors.length > 0) {
+      sendError(res, 'Invalid import selections', HttpStatus.BAD_REQUEST, errors);
+      return;
+    }
+    if (chosen.length === 0) {
+      sendError(res, 'Nothing selected to import', HttpStatus.BAD_REQUEST);
+      return;
+    }
+
+    const appraisal = await findOrCreateAppraisal(res, userId, requestingUser, req.cycle!);
+    if (!appraisal) return;
+    if (!assertDraft(res, appraisal, req.cycle!, 'partB')) return;
+
+    // Append to the stored entries, then score exactly as a Part B save would
+    const stored = appraisal.toObject().partB;
+    const input = JSON.parse(JSON.stringify(stored));
+    for (const { candidate, item } of chosen) {
+      const target = getPartBItem(input, item)!;
+      target.entries = [...(target.entries ?? []), sanitizePartBEntry({ ...candidate.entry, quantity: 1 })];
+    }
+
+    const rules = await resolveRubricRules(appraisal);
+    const score = computePartB(
+      withStoredVerification(input, stored),
+      toAcademicCadre(appraisal.designation),
+      rules
+    );
+    appraisal.set('partB', score.partB);
+    await appraisal.save();
+
+    preview.status = PUBLICATION_IMPORT_STATUS.CONFIRMED;
+    preview.importedIndexes = chosen.map(({ candidate }) => candidate.index);
+    preview.confirmedAt = new Date();
+    await preview.save();
+
+    sendSuccess(
+      res,
+      visibleTo(appraisal, requestingUser),
+      `${chosen.length} publication(s) added to Part B`
+    );
+  } catch (error) {
+    console.error('confirmPublicationImport error:', error);
+    sendError(res, 'Failed to confirm publication import', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
 export const updatePartC = async (req: Request, res: Response): Promise<void> => {
   try {
     const { userId } = req.params;
@@ -231,17 +744,31 @@ export const updatePartC = async (req: Request, res: Response): Promise<void> =>
 
     if (!assertOwner(res, requestingUser.userId, userId)) return;
 
-    const appraisal = await findOrCreateAppraisal(res, userId, requestingUser);
+    const appraisal = await findOrCreateAppraisal(res, userId, requestingUser, req.cycle!);
     if (!appraisal) return;
-    if (!assertDraft(res, appraisal)) return;
+    if (!assertDraft(res, appraisal, req.cycle!, 'partC')) return;
+
+    // Same calculator as the PDF, so the saved and printed Part C always agree.
+    const rules = await resolveRubricRules(appraisal);
+    const score = computePartC(req.body, toAcademicCadre(appraisal.designation), rules);
+    const discrepancies = findPartCDiscrepancies(req.body, score);
+    if (discrepancies.length > 0) {
+      sendError(
+        res,
+        'Claimed Part C marks do not match the marks computed from the qualification and counts',
+        HttpStatus.BAD_REQUEST,
+        discrepancies
+      );
+      return;
+    }
 
     const updated = await FacultyAppraisal.findOneAndUpdate(
-      { userId },
-      { $set: { partC: req.body } },
+      { _id: appraisal._id },
+      { $set: { partC: { ...score, totalVerified: appraisal.partC.totalVerified } } },
       { new: true, runValidators: true }
     );
 
-    sendSuccess(res, updated, 'Part C saved successfully');
+    sendSuccess(res, updated && visibleTo(updated, requestingUser), 'Part C saved successfully');
   } catch (error) {
     console.error('updatePartC error:', error);
     sendError(res, 'Failed to save Part C', HttpStatus.INTERNAL_SERVER_ERROR);
@@ -255,9 +782,9 @@ export const updatePartD = async (req: Request, res: Response): Promise<void> =>
 
     if (!assertOwner(res, requestingUser.userId, userId)) return;
 
-    const appraisal = await findOrCreateAppraisal(res, userId, requestingUser);
+    const appraisal = await findOrCreateAppraisal(res, userId, requestingUser, req.cycle!);
     if (!appraisal) return;
-    if (!assertDraft(res, appraisal)) return;
+    if (!assertDraft(res, appraisal, req.cycle!, 'partD')) return;
 
     // Strip evaluator-only fields so faculty cannot self-award dean/hod/director marks
     const {
@@ -267,12 +794,12 @@ export const updatePartD = async (req: Request, res: Response): Promise<void> =>
     } = req.body;
 
     const updated = await FacultyAppraisal.findOneAndUpdate(
-      { userId },
+      { _id: appraisal._id },
       { $set: { partD: facultyFields } },
       { new: true, runValidators: true }
     );
 
-    sendSuccess(res, updated, 'Part D saved successfully');
+    sendSuccess(res, updated && visibleTo(updated, requestingUser), 'Part D saved successfully');
   } catch (error) {
     console.error('updatePartD error:', error);
     sendError(res, 'Failed to save Part D', HttpStatus.INTERNAL_SERVER_ERROR);
@@ -280,157 +807,275 @@ export const updatePartD = async (req: Request, res: Response): Promise<void> =>
 };
 
 export const portfolioMarksEvaluator = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { appraisal, message } = await enterPortfolioMarks(
+      req.params.userId,
+      req.cycle!,
+      req.user!,
+      req.body
+    );
+    sendSuccess(res, appraisal, message);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      sendError(res, error.message, error.statusCode, error.details);
+      return;
+    }
+    console.error('portfolioMarksEvaluator error:', error);
+    sendError(res, 'Failed to save evaluator marks', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+export const updatePartE = async (req: Request, res: Response): Promise<void> => {
   try {
     const { userId } = req.params;
     const requestingUser = req.user!;
 
-    const appraisal = await findAppraisalOrFail(res, userId);
+    if (!assertOwner(res, requestingUser.userId, userId)) return;
+
+    const appraisal = await findOrCreateAppraisal(res, userId, requestingUser, req.cycle!);
     if (!appraisal) return;
+    if (!assertDraft(res, appraisal, req.cycle!, 'partE')) return;
 
-    // Look up the target user's role to enforce hierarchy restrictions
-    const targetUser = await User.findOne({ userId }).lean();
-    if (!targetUser) {
-      sendError(res, 'Target user not found', HttpStatus.NOT_FOUND);
-      return;
-    }
+    // Strip the evaluator-only field — faculty cannot award themselves totalVerified marks
+    const { totalVerified, ...facultyFields } = req.body;
 
-    // Only the Director can give portfolio marks for HODs and Deans
-    if (
-      (targetUser.role === 'hod' || targetUser.role === 'dean') &&
-      requestingUser.role !== 'director'
-    ) {
+    const rules = await resolveRubricRules(appraisal);
+    const claimed = Number(facultyFields.totalClaimed ?? 0);
+    if (!Number.isFinite(claimed) || claimed < 0 || claimed > rules.partE.max) {
       sendError(
         res,
-        `Only a Director can give portfolio marks for a ${targetUser.role.toUpperCase()}.`,
-        HttpStatus.FORBIDDEN
+        `Part E claimed marks must be between 0 and ${rules.partE.max}`,
+        HttpStatus.BAD_REQUEST
       );
       return;
     }
 
-    if (appraisal.status !== APPRAISAL_STATUS.PORTFOLIO_MARKING_PENDING) {
+    const updated = await FacultyAppraisal.findOneAndUpdate(
+      { _id: appraisal._id },
+      { $set: { partE: facultyFields } },
+      { new: true, runValidators: true }
+    );
+
+    sendSuccess(res, updated && visibleTo(updated, requestingUser), 'Part E saved successfully');
+  } catch (error) {
+    console.error('updatePartE error:', error);
+    sendError(res, 'Failed to save Part E', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// EVIDENCE — proof files for Part B / Part C items
+// POST   /appraisal/:userId/evidence?part=partB&item=papers_sci&entryId=&fileName=   Body: the PDF/image
+// GET    /appraisal/:userId/evidence?part=&item=
+// GET    /appraisal/:userId/evidence/:evidenceId     — the file itself
+// DELETE /appraisal/:userId/evidence/:evidenceId
+// Only the owner uploads or deletes (while the part is editable); the owner
+// and the faculty's reviewers (see canAccessEvidence) can list and download.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Load one of the user's evidence records for the request's cycle, or send 404.
+ */
+async function findEvidenceOrFail(res: Response, userId: string, evidenceId: string, cycle: ResolvedCycle) {
+  const found = mongoose.isValidObjectId(evidenceId)
+    ? await Evidence.findOne({ _id: evidenceId, userId, appraisalYear: cycle.year })
+    : null;
+  if (!found) {
+    sendError(res, 'Evidence not found', HttpStatus.NOT_FOUND);
+    return null;
+  }
+  return found;
+}
+
+/**
+ * Guard: the requester is the owner or one of the faculty's reviewers.
+ * Returns true if the check passes, false + sends 403 if it fails.
+ */
+async function assertEvidenceAccess(
+  res: Response,
+  requestingUser: { userId: string; role: UserRole },
+  userId: string
+): Promise<boolean> {
+  if (!(await canAccessEvidence(requestingUser, userId))) {
+    sendError(res, 'Unauthorized to view this faculty\'s evidence', HttpStatus.FORBIDDEN);
+    return false;
+  }
+  return true;
+}
+
+export const uploadEvidence = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    const requestingUser = req.user!;
+
+    if (!assertOwner(res, requestingUser.userId, userId)) return;
+
+    const part = req.query.part as EvidencePart;
+    const item = String(req.query.item ?? '');
+    const entryId = String(req.query.entryId ?? '');
+    if (!EVIDENCE_PARTS.includes(part) || !isEvidenceItem(part, item)) {
+      sendError(res, '"part" must be partB or partC, with a valid "item" of that part', HttpStatus.BAD_REQUEST);
+      return;
+    }
+    if (entryId && part !== 'partB') {
+      sendError(res, '"entryId" only applies to Part B items', HttpStatus.BAD_REQUEST);
+      return;
+    }
+
+    // express.raw only parses the accepted types; anything else leaves no Buffer
+    const file = req.body;
+    if (!Buffer.isBuffer(file) || file.length === 0) {
       sendError(
         res,
-        'Evaluator marks can only be entered after the faculty has submitted their portfolio for marking',
-        HttpStatus.BAD_REQUEST
+        `Send the proof as the request body with Content-Type ${EVIDENCE_CONTENT_TYPES.join(', ')}`,
+        HttpStatus.UNSUPPORTED_MEDIA_TYPE
       );
       return;
     }
-
-    // Build a targeted $set that only touches the relevant evaluator mark fields
-    const setFields: Record<string, unknown> = {};
-
-    const { marks } = req.body as { marks: number };
-
-    if (typeof marks !== 'number' || marks < 0) {
-      sendError(res, 'A valid numeric "marks" value is required', HttpStatus.BAD_REQUEST);
+    if (file.length > config.evidenceMaxBytes) {
+      sendError(res, `Proof files are limited to ${config.evidenceMaxBytes} bytes`, HttpStatus.PAYLOAD_TOO_LARGE);
+      return;
+    }
+    const contentType = detectEvidenceType(file);
+    if (!contentType || contentType !== req.get('content-type')?.split(';')[0].trim().toLowerCase()) {
+      sendError(res, 'File contents do not match its Content-Type', HttpStatus.UNSUPPORTED_MEDIA_TYPE);
       return;
     }
 
-    switch (requestingUser.role) {
-      case 'dean':
-        setFields['partD.deanMarks'] = marks;
-        setFields['partD.isMarkDean'] = true;
-        break;
-      case 'hod':
-        setFields['partD.hodMarks'] = marks;
-        setFields['partD.isMarkHOD'] = true;
-        break;
-      case 'director':
-        setFields['partD.directorMarks'] = marks;
-        setFields['partD.isMarkDirector'] = true;
-        break;
-      default:
-        sendError(res, 'Your role does not permit entering evaluator marks', HttpStatus.FORBIDDEN);
+    const appraisal = await findOrCreateAppraisal(res, userId, requestingUser, req.cycle!);
+    if (!appraisal) return;
+    if (!assertDraft(res, appraisal, req.cycle!, part)) return;
+
+    if (entryId) {
+      const entries = getPartBItem(appraisal.toObject().partB, item)?.entries ?? [];
+      if (!entries.some((entry) => String(entry._id) === entryId)) {
+        sendError(res, `No entry ${entryId} under ${item}; save Part B first`, HttpStatus.BAD_REQUEST);
         return;
+      }
     }
 
-    const updated = await FacultyAppraisal.findOneAndUpdate(
-      { userId },
-      { $set: setFields },
-      { new: true }
-    );
-
-    if (!updated) {
-      sendError(res, 'Failed to update appraisal', HttpStatus.INTERNAL_SERVER_ERROR);
+    const sha256 = sha256Of(file);
+    const existing = await Evidence.findOne({
+      userId,
+      appraisalYear: appraisal.appraisalYear,
+      part,
+      item,
+      entryId,
+      sha256,
+    });
+    if (existing) {
+      sendError(res, 'This file is already attached to this item', HttpStatus.CONFLICT, {
+        evidenceId: existing._id,
+      });
       return;
     }
 
-    // Check if all required marks are now complete and auto-update status
-    // For HOD/Dean appraisals, only director marks are needed
-    const targetRole = targetUser.role;
+    const storage = getStorage();
+    const storageKey = evidenceStorageKey(appraisal.appraisalYear, userId, sha256, contentType);
+    await storage.put(storageKey, file, contentType);
+
+    const fileName = String(req.query.fileName ?? '').trim() || `proof.${EVIDENCE_FILE_TYPES[contentType].extension}`;
+    const evidence = await Evidence.create({
+      userId,
+      appraisalYear: appraisal.appraisalYear,
+      part,
+      item,
+      entryId,
+      fileName: path.basename(fileName).slice(0, 200),
+      contentType,
+      size: file.length,
+      sha256,
+      storageDriver: storage.driver,
+      storageKey,
+      uploadedBy: requestingUser.userId,
+    });
+
+    sendSuccess(res, evidence, 'Evidence uploaded successfully', HttpStatus.CREATED);
+  } catch (error) {
+    console.error('uploadEvidence error:', error);
+    sendError(res, 'Failed to upload evidence', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
 
-    if (targetRole === 'hod' || targetRole === 'dean') {
-      // HOD/Dean appraisals: only director gives portfolio marks
-      if (updated.partD.isMarkDirector) {
-        updated.status = APPRAISAL_STATUS.MARKS_VERIFICATION_PENDING;
-        await updated.save();
-        sendSuccess(res, updated, 'Director marks saved. Status updated to Marks Verification Pending.');
-      } else {
-        sendSuccess(res, updated, 'Evaluator marks saved. Awaiting Director marks.');
-      }
-    } else {
-      // Faculty appraisals: original logic — requires HOD and/or Dean based on portfolio type
-      const portfolioType = updated.partD.portfolioType;
-      const designation = updated.designation;
-
-      let requiresHOD = false;
-      let requiresDean = false;
-
-      if (portfolioType === 'both') {
-        requiresHOD = true;
-        requiresDean = true;
-      } else if (portfolioType === 'institute') {
-        requiresDean = true;
-      } else if (portfolioType === 'department') {
-        requiresHOD = true;
-      }
+export const getEvidenceList = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    if (!(await assertEvidenceAccess(res, req.user!, userId))) return;
 
-      if (designation === 'Associate Dean' && portfolioType !== 'institute') {
-        requiresHOD = true;
-        requiresDean = true;
-      }
+    const filter: Record<string, unknown> = { userId, appraisalYear: req.cycle!.year };
+    if (typeof req.query.part === 'string') filter.part = req.query.part;
+    if (typeof req.query.item === 'string') filter.item = req.query.item;
 
-      const hodComplete = !requiresHOD || updated.partD.isMarkHOD;
-      const deanComplete = !requiresDean || updated.partD.isMarkDean;
+    const evidence = await Evidence.find(filter)
+      .select('-storageKey -storageDriver')
+      .sort({ part: 1, item: 1, createdAt: 1 });
 
-      if (hodComplete && deanComplete) {
-        updated.status = APPRAISAL_STATUS.MARKS_VERIFICATION_PENDING;
-        await updated.save();
-        sendSuccess(res, updated, 'Evaluator marks saved successfully. Status updated to Marks Verification Pending.');
-      } else {
-        sendSuccess(res, updated, 'Evaluator marks saved successfully. Awaiting additional evaluator marks.');
-      }
+    sendSuccess(res, evidence, 'Evidence retrieved successfully');
+  } catch (error) {
+    console.error('getEvidenceList error:', error);
+    sendError(res, 'Failed to retrieve evidence', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+export const downloadEvidence = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId, evidenceId } = req.params;
+    if (!(await assertEvidenceAccess(res, req.user!, userId))) return;
+
+    const evidence = await findEvidenceOrFail(res, userId, evidenceId, req.cycle!);
+    if (!evidence) return;
+
+    const file = await getStorage(evidence.storageDriver).get(evidence.storageKey);
+    if (!file) {
+      sendError(res, 'Evidence file is missing from storage', HttpStatus.NOT_FOUND);
+      return;
+    }
+    if (sha256Of(file) !== evidence.sha256) {
+      console.error(`downloadEvidence: SHA-256 mismatch for ${evidence.storageKey}`);
+      sendError(res, 'Evidence file failed its integrity check', HttpStatus.INTERNAL_SERVER_ERROR);
+      return;
     }
+
+    res.setHeader('Content-Type', evidence.contentType);
+    res.setHeader('Content-Length', file.length);
+    res.setHeader('Content-Disposition', `inline; filename="${evidence.fileName.replace(/["\\\r\n]/g, '_')}"`);
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('X-Content-SHA256', evidence.sha256);
+    res.status(HttpStatus.OK).send(file);
   } catch (error) {
-    console.error('portfolioMarksEvaluator error:', error);
-    sendError(res, 'Failed to save evaluator marks', HttpStatus.INTERNAL_SERVER_ERROR);
+    console.error('downloadEvidence error:', error);
+    sendError(res, 'Failed to download evidence', HttpStatus.INTERNAL_SERVER_ERROR);
   }
 };
 
-export const updatePartE = async (req: Request, res: Response): Promise<void> => {
+export const deleteEvidence = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { userId } = req.params;
+    const { userId, evidenceId } = req.params;
     const requestingUser = req.user!;
 
     if (!assertOwner(res, requestingUser.userId, userId)) return;
 
-    const appraisal = await findOrCreateAppraisal(res, userId, requestingUser);
+    const evidence = await findEvidenceOrFail(res, userId, evidenceId, req.cycle!);
+    if (!evidence) return;
+
+    const appraisal = await findAppraisalOrFail(res, userId, req.cycle!);
     if (!appraisal) return;
-    if (!assertDraft(res, appraisal)) return;
+    if (!assertDraft(res, appraisal, req.cycle!, evidence.part)) return;
 
-    // Strip the evaluator-only field — faculty cannot award themselves totalVerified marks
-    const { totalVerified, ...facultyFields } = req.body;
+    await evidence.deleteOne();
 
-    const updated = await FacultyAppraisal.findOneAndUpdate(
-      { userId },
-      { $set: { partE: facultyFields } },
-      { new: true, runValidators: true }
-    );
+    // Objects are content-addressed: keep one another record still points at
+    const stillUsed = await Evidence.exists({
+      storageDriver: evidence.storageDriver,
+      storageKey: evidence.storageKey,
+    });
+    if (!stillUsed) await getStorage(evidence.storageDriver).delete(evidence.storageKey);
 
-    sendSuccess(res, updated, 'Part E saved successfully');
+    sendSuccess(res, null, 'Evidence deleted successfully');
   } catch (error) {
-    console.error('updatePartE error:', error);
-    sendError(res, 'Failed to save Part E', HttpStatus.INTERNAL_SERVER_ERROR);
+    console.error('deleteEvidence error:', error);
+    sendError(res, 'Failed to delete evidence', HttpStatus.INTERNAL_SERVER_ERROR);
   }
 };
 
@@ -447,9 +1092,9 @@ export const updateDeclaration = async (req: Request, res: Response): Promise<vo
 
     if (!assertOwner(res, requestingUser.userId, userId)) return;
 
-    const appraisal = await findAppraisalOrFail(res, userId);
+    const appraisal = await findAppraisalOrFail(res, userId, req.cycle!);
     if (!appraisal) return;
-    if (!assertDraft(res, appraisal)) return;
+    if (!assertDraft(res, appraisal, req.cycle!)) return;
 
     const { isAgreed } = req.body as { isAgreed: boolean };
 
@@ -459,12 +1104,12 @@ export const updateDeclaration = async (req: Request, res: Response): Promise<vo
     }
 
     const updated = await FacultyAppraisal.findOneAndUpdate(
-      { userId },
+      { _id: appraisal._id },
       { $set: { 'declaration.isAgreed': isAgreed } },
       { new: true }
     );
 
-    sendSuccess(res, updated, 'Declaration updated');
+    sendSuccess(res, updated && visibleTo(updated, requestingUser), 'Declaration updated');
   } catch (error) {
     console.error('updateDeclaration error:', error);
     sendError(res, 'Failed to update declaration', HttpStatus.INTERNAL_SERVER_ERROR);
@@ -482,35 +1127,50 @@ export const submitAppraisal = async (req: Request, res: Response): Promise<void
 
     if (!assertOwner(res, requestingUser.userId, userId)) return;
 
-    const appraisal = await findAppraisalOrFail(res, userId);
+    const appraisal = await findAppraisalOrFail(res, userId, req.cycle!);
     if (!appraisal) return;
 
-    if (appraisal.status !== APPRAISAL_STATUS.PEDING) {
-      sendError(
-        res,
-        `Cannot submit: appraisal is already in ${appraisal.status} status`,
-        HttpStatus.BAD_REQUEST
-      );
+    // A revised appraisal resumes at the review stage that sent it back.
+    const revision = getOpenRevision(appraisal);
+    if (
+      appraisal.status === APPRAISAL_STATUS.PEDING &&
+      !assertWindowOpen(res, req.cycle!, 'submission')
+    ) {
       return;
     }
 
-
-    if (!appraisal.declaration.isAgreed) {
-      sendError(
-        res,
-        'You must agree to the declaration before submitting',
-        HttpStatus.BAD_REQUEST
-      );
-      return;
+    // Appraisals created before rubrics existed are pinned at submission.
+    if (!appraisal.rubricPinned && !appraisal.rubricId) {
+      appraisal.set(await rubricPinFor(appraisal.appraisalYear));
     }
+    const rules = await resolveRubricRules(appraisal);
+
+    appraisal.summary.grandTotalClaimed = computeGrandTotal(
+      appraisal.partA.totalClaimed +
+        appraisal.partB.totalClaimed +
+        appraisal.partC.totalClaimed +
+        appraisal.partD.totalClaimed +
+        appraisal.partE.totalClaimed,
+      appraisal,
+      rules
+    );
 
-    appraisal.summary.grandTotalClaimed = (appraisal.partA.totalClaimed + appraisal.partB.totalClaimed + appraisal.partC.totalClaimed + appraisal.partD.totalClaimed + appraisal.partE.totalClaimed) > 1000 ? 1000 : (appraisal.partA.totalClaimed + appraisal.partB.totalClaimed + appraisal.partC.totalClaimed + appraisal.partD.totalClaimed + appraisal.partE.totalClaimed);
+    const transitioned = revision
+      ? applyTransition(res, appraisal, APPRAISAL_EVENTS.RESUBMIT, requestingUser, {
+          remark: 'Resubmitted after revision',
+        })
+      : applyTransition(res, appraisal, APPRAISAL_EVENTS.SUBMIT, requestingUser);
+    if (!transitioned) return;
 
-    appraisal.status = APPRAISAL_STATUS.VERIFICATION_PENDING;
+    if (revision) revision.resubmittedAt = new Date();
     appraisal.declaration.signatureDate = new Date();
     await appraisal.save();
 
-    sendSuccess(res, appraisal, 'Appraisal submitted successfully');
+    sendSuccess(
+      res,
+      visibleTo(appraisal, requestingUser),
+      revision ? `Revised appraisal resubmitted to ${appraisal.status}` : 'Appraisal submitted successfully'
+    );
   } catch (error) {
     console.error('submitAppraisal error:', error);
     sendError(res, 'Failed to submit appraisal', HttpStatus.INTERNAL_SERVER_ERROR);
@@ -526,94 +1186,78 @@ export const submitAppraisal = async (req: Request, res: Response): Promise<void
  */
 export const submitVerifiedMarks = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { userId } = req.params;
-    const requestingUser = req.user!;
-
-    // Only HOD or Director can verify marks
-    if (requestingUser.role !== 'hod' && requestingUser.role !== 'director') {
-      sendError(res, 'Only HOD or Director can verify marks', HttpStatus.UNAUTHORIZED);
+    const { appraisal, message } = await verifyAppraisalMarks(
+      req.params.userId,
+      req.cycle!,
+      req.user!,
+      req.body
+    );
+    sendSuccess(res, appraisal, message);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      sendError(res, error.message, error.statusCode, error.details);
       return;
     }
+    console.error('submitVerifiedMarks error:', error);
+    sendError(res, 'Failed to submit verified marks', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
 
-    const appraisal = await findAppraisalOrFail(res, userId);
-    if (!appraisal) return;
 
-    // Get user details to check department and role
-    const user = await User.findOne({ userId });
-    if (!user) {
-      sendError(res, 'User not found', HttpStatus.NOT_FOUND);
-      return;
-    }
+// ─────────────────────────────────────────────────────────────────────────────
+// WORKFLOW: RETURN FOR REVISION
+// PATCH /appraisal/:userId/return-for-revision
+// Body: { parts: [{ part: 'partB', comment: 'Proof link for SCI paper is broken' }], reason }
+// ─────────────────────────────────────────────────────────────────────────────
 
-    // HOD cannot verify marks for other HODs or Deans; only Director can
+export const returnForRevision = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    const requestingUser = req.user!;
+
+    const appraisal = await findAppraisalOrFail(res, userId, req.cycle!);
+    if (!appraisal) return;
+
+    // Same hierarchy as marks: only the Director reviews HOD and Dean appraisals
+    const targetUser = await User.findOne({ userId }).lean();
     if (
-      requestingUser.role === 'hod' &&
-      (user.role === 'hod' || user.role === 'dean')
+      (targetUser?.role === 'hod' || targetUser?.role === 'dean') &&
+      requestingUser.role !== 'director'
     ) {
       sendError(
         res,
-        'An HOD cannot verify marks for another HOD or Dean. Only a Director can do this.',
+        `Only a Director can return a ${targetUser.role.toUpperCase()}'s appraisal for revision.`,
         HttpStatus.FORBIDDEN
       );
       return;
     }
 
-    // Check if appraisal is in the correct status
-    if (appraisal.status !== APPRAISAL_STATUS.MARKS_VERIFICATION_PENDING) {
-      sendError(
-        res,
-        `Cannot verify marks: appraisal is in ${appraisal.status} status`,
-        HttpStatus.BAD_REQUEST
-      );
-      return;
-    }
-
-    // Extract verified marks from request body (format: { A: { verified_marks: 250 }, C: {...}, D: {...}, E: {...} })
-    const { A, C, D, E } = req.body;
-
-    if (!A || !C || !D || !E) {
-      sendError(res, 'Missing verified marks for sections A, C, D, or E', HttpStatus.BAD_REQUEST);
+    const { parts, reason, errors } = parseRevisionRequest(req.body);
+    if (errors.length > 0) {
+      sendError(res, 'Invalid revision request', HttpStatus.BAD_REQUEST, errors);
       return;
     }
 
-    // Update verified marks for each section
-    if (A.verified_marks !== undefined) {
-      appraisal.partA.totalVerified = Number(A.verified_marks);
-    }
-    // Part B is read-only, no update needed
-    if (C.verified_marks !== undefined) {
-      appraisal.partC.totalVerified = Number(C.verified_marks);
-    }
-    if (D.verified_marks !== undefined) {
-      appraisal.partD.totalVerified = Number(D.verified_marks);
-    }
-    if (E.verified_marks !== undefined) {
-      appraisal.partE.totalVerified = Number(E.verified_marks);
-    }
-
-    // Calculate grand total verified (capped at 1000)
-    const totalVerified =
-      appraisal.partA.totalVerified +
-      appraisal.partB.totalVerified +
-      appraisal.partC.totalVerified +
-      appraisal.partD.totalVerified +
-      appraisal.partE.totalVerified;
-
-    appraisal.summary.grandTotalVerified = Math.min(1000, totalVerified);
-
-    // Update status to INTERACTION_PENDING
-    appraisal.status = APPRAISAL_STATUS.INTERACTION_PENDING;
-
+    openRevision(appraisal, {
+      parts,
+      reason,
+      requestedBy: requestingUser.userId,
+      requestedByRole: requestingUser.role,
+    });
     await appraisal.save();
 
-    sendSuccess(res, appraisal, 'Marks verified successfully and moved to interaction pending');
+    sendSuccess(res, appraisal, 'Appraisal returned to the faculty for revision');
   } catch (error) {
-    console.error('submitVerifiedMarks error:', error);
-    sendError(res, 'Failed to submit verified marks', HttpStatus.INTERNAL_SERVER_ERROR);
+    // Illegal transitions surface as the state machine's 409
+    if (error instanceof ApiError) {
+      sendError(res, error.message, error.statusCode, error.details);
+      return;
+    }
+    console.error('returnForRevision error:', error);
+    sendError(res, 'Failed to return appraisal for revision', HttpStatus.INTERNAL_SERVER_ERROR);
   }
 };
 
-
 // ─────────────────────────────────────────────────────────────────────────────
 // READ — by role (for director to view all HOD/Dean appraisals)
 // GET /appraisal/by-role/:role
@@ -633,7 +1277,10 @@ export const getAppraisalsByRole = async (req: Request, res: Response): Promise<
     const usersWithRole = await User.find({ role }, { userId: 1, _id: 0 }).lean();
     const userIds = usersWithRole.map((u) => u.userId);
 
-    const appraisals = await FacultyAppraisal.find({ userId: { $in: userIds } })
+    const appraisals = await FacultyAppraisal.find({
+      userId: { $in: userIds },
+      appraisalYear: req.cycle!.year,
+    })
       .select('userId role designation appraisalYear status summary partD createdAt updatedAt')
       .sort({ updatedAt: -1 });
 
@@ -663,25 +1310,13 @@ export const getAppraisalsByRole = async (req: Request, res: Response): Promise<
 
 export const sendToDirector = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { userId } = req.params;
-
-    const appraisal = await findAppraisalOrFail(res, userId);
-    if (!appraisal) return;
-
-    if (appraisal.status !== APPRAISAL_STATUS.COMPLETED) {
-      sendError(
-        res,
-        `Cannot send to director: appraisal is in "${appraisal.status}" status. Only "Completed" appraisals can be sent.`,
-        HttpStatus.BAD_REQUEST
-      );
+    const { appraisal, message } = await sendAppraisalToDirector(req.params.userId, req.cycle!, req.user!);
+    sendSuccess(res, appraisal, message);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      sendError(res, error.message, error.statusCode, error.details);
       return;
     }
-
-    appraisal.status = APPRAISAL_STATUS.SENT_TO_DIRECTOR;
-    await appraisal.save();
-
-    sendSuccess(res, appraisal, 'Appraisal sent to Director successfully');
-  } catch (error) {
     console.error('sendToDirector error:', error);
     sendError(res, 'Failed to send appraisal to director', HttpStatus.INTERNAL_SERVER_ERROR);
   }
@@ -696,6 +1331,7 @@ export const getSentToDirectorAppraisals = async (req: Request, res: Response):
   try {
     const appraisals = await FacultyAppraisal.find({
       status: APPRAISAL_STATUS.SENT_TO_DIRECTOR,
+      appraisalYear: req.cycle!.year,
     })
       .select('userId role designation appraisalYear status summary partA partB partC partD partE createdAt updatedAt')
       .sort({ updatedAt: -1 });
@@ -717,4 +1353,230 @@ export const getSentToDirectorAppraisals = async (req: Request, res: Response):
     console.error('getSentToDirectorAppraisals error:', error);
     sendError(res, 'Failed to retrieve sent appraisals', HttpStatus.INTERNAL_SERVER_ERROR);
   }
-};
\ No newline at end of file
+};
+// ─────────────────────────────────────────────────────────────────────────────
+// WORKFLOW: DIRECTOR APPROVAL → PUBLICATION
+// PATCH /appraisal/:userId/approve
+// PATCH /appraisal/:userId/moderate     Body: { grandTotalVerified, justification }
+// POST  /appraisal/publish-results      — every Approved appraisal in the cycle
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const approveAppraisal = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { appraisal, message } = await approveAppraisalFor(
+      req.params.userId,
+      req.cycle!,
+      req.user!,
+      req.body
+    );
+    sendSuccess(res, appraisal, message);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      sendError(res, error.message, error.statusCode, error.details);
+      return;
+    }
+    console.error('approveAppraisal error:', error);
+    sendError(res, 'Failed to approve appraisal', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+export const moderateAppraisal = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { appraisal, message } = await moderateAppraisalFor(
+      req.params.userId,
+      req.cycle!,
+      req.user!,
+      req.body
+    );
+    sendSuccess(res, appraisal, message);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      sendError(res, error.message, error.statusCode, error.details);
+      return;
+    }
+    console.error('moderateAppraisal error:', error);
+    sendError(res, 'Failed to moderate appraisal', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+/**
+ * Publishes every Approved appraisal in the cycle, after which faculty see
+ * their verified scores. Appraisals approved later are published by calling
+ * this again.
+ */
+export const publishResults = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const requestingUser = req.user!;
+    const cycle = req.cycle!;
+
+    const approved = await FacultyAppraisal.find({
+      appraisalYear: cycle.year,
+      status: APPRAISAL_STATUS.APPROVED,
+    });
+
+    for (const appraisal of approved) {
+      transitionAppraisal(appraisal, APPRAISAL_EVENTS.PUBLISH, requestingUser, {
+        remark: `Results published for ${cycle.label}`,
+      });
+      await appraisal.save();
+    }
+
+    if (approved.length > 0) {
+      await AppraisalCycle.updateOne(
+        { year: cycle.year, resultsPublishedAt: { $exists: false } },
+        { $set: { resultsPublishedAt: new Date(), resultsPublishedBy: requestingUser.userId } }
+      );
+    }
+
+    const awaitingApproval = await FacultyAppraisal.countDocuments({
+      appraisalYear: cycle.year,
+      status: { $nin: [APPRAISAL_STATUS.APPROVED, APPRAISAL_STATUS.PUBLISHED] },
+    });
+
+    sendSuccess(
+      res,
+      {
+        cycle: cycle.label,
+        published: approved.map((appraisal) => appraisal.userId),
+        awaitingApproval,
+      },
+      `${approved.length} appraisal(s) published for ${cycle.label}`
+    );
+  } catch (error) {
+    console.error('publishResults error:', error);
+    sendError(res, 'Failed to publish results', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// WORKFLOW: BULK REVIEW ACTIONS
+// POST /appraisal/bulk/:action
+// Body: { items: [{ userId, ...payload }] } — payload as for the single endpoint
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Most appraisals one bulk request may touch. */
+const MAX_BULK_ITEMS = 200;
+
+/**
+ * Each action validates its own payload: an item's fields other than userId
+ * arrive unchecked, exactly as the single endpoint receives its body.
+ */
+const BULK_ACTIONS: Record<
+  string,
+  {
+    roles: UserRole[];
+    run: (
+      userId: string,
+      cycle: ResolvedCycle,
+      actor: ReviewActor,
+      payload: Record<string, unknown>
+    ) => Promise<ReviewActionResult>;
+  }
+> = {
+  'portfolio-marks': { roles: ['dean', 'hod', 'director'], run: enterPortfolioMarks },
+  'verify-marks': { roles: ['hod', 'director'], run: verifyAppraisalMarks },
+  'send-to-director': { roles: ['hod'], run: sendAppraisalToDirector },
+  approve: { roles: ['director'], run: approveAppraisalFor },
+  moderate: { roles: ['director'], run: moderateAppraisalFor },
+};
+
+/**
+ * Runs one review action over many appraisals. Items are processed in order
+ * and independently: each gets the same checks as the single endpoint, and a
+ * failed item is reported alongside the others instead of aborting the batch.
+ */
+export const bulkAppraisalAction = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { action } = req.params;
+    const requestingUser = req.user!;
+    const cycle = req.cycle!;
+
+    const handler = BULK_ACTIONS[action];
+    if (!handler) {
+      sendError(
+        res,
+        `Unknown bulk action "${action}". Use one of: ${Object.keys(BULK_ACTIONS).join(', ')}`,
+        HttpStatus.BAD_REQUEST
+      );
+      return;
+    }
+    if (!handler.roles.includes(requestingUser.role)) {
+      sendError(res, `A ${requestingUser.role} cannot run "${action}"`, HttpStatus.FORBIDDEN);
+      return;
+    }
+
+    const { items } = req.body as { items?: unknown };
+    if (!Array.isArray(items) || items.length === 0) {
+      sendError(res, '"items" must be a non-empty array of { userId, ... }', HttpStatus.BAD_REQUEST);
+      return;
+    }
+    if (items.length > MAX_BULK_ITEMS) {
+      sendError(res, `At most ${MAX_BULK_ITEMS} items can be processed at once`, HttpStatus.BAD_REQUEST);
+      return;
+    }
+
+    const seen = new Set<string>();
+    const results = [];
+
+    for (const [index, item] of items.entries()) {
+      const { userId, ...payload } = (item ?? {}) as Record<string, unknown>;
+
+      if (typeof userId !== 'string' || !userId.trim()) {
+        results.push({
+          index,
+          userId: null,
+          success: false,
+          statusCode: HttpStatus.BAD_REQUEST,
+          error: '"userId" is required',
+        });
+        continue;
+      }
+      if (seen.has(userId)) {
+        results.push({
+          index,
+          userId,
+          success: false,
+          statusCode: HttpStatus.BAD_REQUEST,
+          error: 'Duplicate userId in this batch',
+        });
+        continue;
+      }
+      seen.add(userId);
+
+      try {
+        const { appraisal, message } = await handler.run(userId, cycle, requestingUser, payload);
+        results.push({ index, userId, success: true, status: appraisal.status, message });
+      } catch (error) {
+        if (error instanceof ApiError) {
+          results.push({
+            index,
+            userId,
+            success: false,
+            statusCode: error.statusCode,
+            error: error.message,
+            details: error.details,
+          });
+          continue;
+        }
+        console.error(`bulkAppraisalAction ${action} error for ${userId}:`, error);
+        results.push({
+          index,
+          userId,
+          success: false,
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          error: 'Unexpected error while processing this appraisal',
+        });
+      }
+    }
+
+    const succeeded = results.filter((result) => result.success).length;
+    sendSuccess(
+      res,
+      { action, cycle: cycle.label, succeeded, failed: results.length - succeeded, results },
+      `${succeeded} of ${results.length} appraisal(s) processed for "${action}"`
+    );
+  } catch (error) {
+    console.error('bulkAppraisalAction error:', error);
+    sendError(res, 'Failed to run bulk action', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
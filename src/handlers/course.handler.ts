@@ -0,0 +1,200 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Course, type ICourse } from '../models/course';
+import { User } from '../models/user';
+import { sendSuccess, sendError, HttpStatus } from '../utils/response';
+import { parseCourseInput, isDepartment } from '../utils/courseCatalogue';
+import { courseKey } from '../utils/courseResults';
+import { type DepartmentValue } from '../constant/department';
+
+/**
+ * The department a catalogue write applies to: an HOD's own department, or
+ * the `department` an admin names. Sends 400/403 and returns null otherwise.
+ */
+async function resolveManagedDepartment(
+  res: Response,
+  requestingUser: { userId: string; role: string },
+  requested: unknown
+): Promise<DepartmentValue | null> {
+  if (requestingUser.role === 'hod') {
+    const hod = await User.findOne({ userId: requestingUser.userId }, { department: 1 }).lean();
+    if (!hod?.department) {
+      sendError(res, 'Your account has no department', HttpStatus.FORBIDDEN);
+      return null;
+    }
+    if (requested !== undefined && requested !== hod.department) {
+      sendError(res, 'HODs can only manage their own department\'s courses', HttpStatus.FORBIDDEN);
+      return null;
+    }
+    return hod.department;
+  }
+
+  if (!isDepartment(requested)) {
+    sendError(res, 'A valid "department" is required', HttpStatus.BAD_REQUEST);
+    return null;
+  }
+  return requested;
+}
+
+/**
+ * Find a catalogue course of the request's cycle the user may manage, or send 404/403.
+ */
+async function findCourseOrFail(
+  res: Response,
+  req: Request
+): Promise<ICourse | null> {
+  const course = mongoose.isValidObjectId(req.params.id)
+    ? await Course.findOne({ _id: req.params.id, appraisalYear: req.cycle!.year })
+    : null;
+  if (!course) {
+    sendError(res, 'Course not found', HttpStatus.NOT_FOUND);
+    return null;
+  }
+  const department = await resolveManagedDepartment(res, req.user!, course.department);
+  return department ? course : null;
+}
+
+/**
+ * Guard: no other course in the department and year has the same code and
+ * semester (compared as in courseKey). Sends 409 if one does.
+ */
+async function assertUniqueCourse(
+  res: Response,
+  department: DepartmentValue,
+  appraisalYear: number,
+  code: string,
+  semester: string,
+  excludeId?: unknown
+): Promise<boolean> {
+  const siblings = await Course.find(
+    { department, appraisalYear, code, ...(excludeId ? { _id: { $ne: excludeId } } : {}) },
+    { semester: 1 }
+  ).lean();
+  if (siblings.some((course) => courseKey(code, course.semester) === courseKey(code, semester))) {
+    sendError(res, `${code} in ${semester} is already in the catalogue`, HttpStatus.CONFLICT);
+    return false;
+  }
+  return true;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// READ
+// GET /courses?department=computer&instructor=F001&semester=Sem%205
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Catalogue of the request's cycle. Defaults to the requester's department;
+ * admins without `department` see every department.
+ */
+export const getCourses = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const requestingUser = req.user!;
+    const filter: Record<string, unknown> = { appraisalYear: req.cycle!.year };
+
+    if (req.query.department !== undefined) {
+      if (!isDepartment(req.query.department)) {
+        sendError(res, 'Unknown department', HttpStatus.BAD_REQUEST);
+        return;
+      }
+      filter.department = req.query.department;
+    } else if (requestingUser.role !== 'admin') {
+      const user = await User.findOne({ userId: requestingUser.userId }, { department: 1 }).lean();
+      if (user?.department) filter.department = user.department;
+    }
+
+    if (typeof req.query.instructor === 'string') filter.instructors = req.query.instructor;
+    if (typeof req.query.semester === 'string') filter.semester = req.query.semester;
+
+    const courses = await Course.find(filter).sort({ department: 1, semester: 1, code: 1 });
+    sendSuccess(res, courses, 'Courses retrieved successfully');
+  } catch (error) {
+    console.error('getCourses error:', error);
+    sendError(res, 'Failed to retrieve courses', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// WRITE (HOD for their department, admin for any)
+// POST   /courses       Body: { code, title, semester, credits?, instructors?, department? }
+// PUT    /courses/:id   Body: any of the above except department
+// DELETE /courses/:id
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const createCourse = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const requestingUser = req.user!;
+    const department = await resolveManagedDepartment(res, requestingUser, req.body.department);
+    if (!department) return;
+
+    const { value, errors } = await parseCourseInput(req.body);
+    if (errors.length > 0) {
+      sendError(res, 'Invalid course', HttpStatus.BAD_REQUEST, errors);
+      return;
+    }
+
+    const appraisalYear = req.cycle!.year;
+    if (!(await assertUniqueCourse(res, department, appraisalYear, value.code!, value.semester!))) return;
+
+    const course = await Course.create({
+      ...value,
+      department,
+      appraisalYear,
+      createdBy: requestingUser.userId,
+      updatedBy: requestingUser.userId,
+    });
+
+    sendSuccess(res, course, `Course ${course.code} added to the ${req.cycle!.label} catalogue`, HttpStatus.CREATED);
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      sendError(res, 'This course is already in the catalogue', HttpStatus.CONFLICT);
+      return;
+    }
+    console.error('createCourse error:', error);
+    sendError(res, 'Failed to create course', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+export const updateCourse = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const course = await findCourseOrFail(res, req);
+    if (!course) return;
+
+    const { value, errors } = await parseCourseInput(req.body, true);
+    if (errors.length > 0) {
+      sendError(res, 'Invalid course', HttpStatus.BAD_REQUEST, errors);
+      return;
+    }
+
+    const code = value.code ?? course.code;
+    const semester = value.semester ?? course.semester;
+    if (!(await assertUniqueCourse(res, course.department, course.appraisalYear, code, semester, course._id))) {
+      return;
+    }
+
+    course.set({ ...value, updatedBy: req.user!.userId });
+    await course.save();
+
+    sendSuccess(res, course, `Course ${course.code} updated`);
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      sendError(res, 'This course is already in the catalogue', HttpStatus.CONFLICT);
+      return;
+    }
+    console.error('updateCourse error:', error);
+    sendError(res, 'Failed to update course', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+export const deleteCourse = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const course = await findCourseOrFail(res, req);
+    if (!course) return;
+
+    await course.deleteOne();
+
+    sendSuccess(res, null, `Course ${course.code} removed from the catalogue`);
+  } catch (error) {
+    console.error('deleteCourse error:', error);
+    sendError(res, 'Failed to delete course', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
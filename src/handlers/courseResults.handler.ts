@@ -0,0 +1,168 @@
+import { Request, Response } from 'express';
+import { FacultyAppraisal, type IFacultyAppraisal, type ICourseMetric } from '../models/detailedAppraisal';
+import { User } from '../models/user';
+import { APPRAISAL_STATUS } from '../constant/appraisal';
+import { sendSuccess, sendError, HttpStatus } from '../utils/response';
+import { computePartA, toAcademicCadre, resolveRubricRules } from '../utils/scoring';
+import { getOpenRevision } from '../utils/revision';
+import {
+  parseCourseResultsCsv,
+  reconcileCourseResult,
+  courseKey,
+  type CourseResultRow,
+  type CourseResultConflict,
+  type CourseResultField,
+  type UnmatchedCourseResult,
+} from '../utils/courseResults';
+
+/**
+ * Whether Part A can still change: a draft, or returned with Part A reopened.
+ */
+const isPartAEditable = (appraisal: IFacultyAppraisal): boolean =>
+  appraisal.status === APPRAISAL_STATUS.PEDING ||
+  !!getOpenRevision(appraisal)?.parts.some((p) => p.part === 'partA');
+
+// ─────────────────────────────────────────────────────────────────────────────
+// IMPORT — exam section / ERP course results → partA.courses
+// POST /appraisal/course-results/import?dryRun=true   Body: the CSV, or { content }
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Fills the raw metrics of matching `partA.courses` rows (by userId + course
+ * code + semester) for the request's cycle, recomputes Part A and returns a
+ * reconciliation report. Rows are only written while Part A is editable;
+ * conflicts with values the faculty entered are reported either way, and
+ * the ERP value wins. `dryRun` reports without writing.
+ */
+export const importCourseResults = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const requestingUser = req.user!;
+    const cycle = req.cycle!;
+
+    const content: unknown = typeof req.body === 'string' ? req.body : req.body?.content;
+    const dryRun = req.query.dryRun === 'true' || req.body?.dryRun === true;
+
+    if (typeof content !== 'string' || !content.trim()) {
+      sendError(res, 'Upload the course results CSV (or send it as "content")', HttpStatus.BAD_REQUEST);
+      return;
+    }
+
+    const { rows, unmatched, errors } = parseCourseResultsCsv(content);
+    if (errors.length > 0) {
+      sendError(res, 'Invalid course results CSV', HttpStatus.BAD_REQUEST, errors);
+      return;
+    }
+    const fileRows = rows.length + unmatched.length;
+
+    // HODs may only import results for their own department
+    let department: string | undefined;
+    if (requestingUser.role === 'hod') {
+      const hod = await User.findOne({ userId: requestingUser.userId }).lean();
+      department = hod?.department;
+      if (!department) {
+        sendError(res, 'Your account has no department', HttpStatus.FORBIDDEN);
+        return;
+      }
+    }
+
+    const userIds = [...new Set(rows.map((row) => row.userId))];
+    const [users, appraisals] = await Promise.all([
+      User.find({ userId: { $in: userIds } }, { userId: 1, department: 1, _id: 0 }).lean(),
+      FacultyAppraisal.find({ userId: { $in: userIds }, appraisalYear: cycle.year }),
+    ]);
+    const userMap = new Map(users.map((user) => [user.userId, user]));
+    const appraisalMap = new Map(appraisals.map((appraisal) => [appraisal.userId, appraisal]));
+
+    const rowsByUser = new Map<string, CourseResultRow[]>();
+    for (const row of rows) rowsByUser.set(row.userId, [...(rowsByUser.get(row.userId) ?? []), row]);
+
+    const applied: (Omit<CourseResultRow, 'values'> & { changed: CourseResultField[] })[] = [];
+    const locked: UnmatchedCourseResult[] = [];
+    const conflicts: (Omit<CourseResultRow, 'values'> & CourseResultConflict & { overwritten: boolean })[] = [];
+
+    for (const [userId, userRows] of rowsByUser) {
+      const user = userMap.get(userId);
+      const appraisal = appraisalMap.get(userId);
+      const reject = (reason: string, into = unmatched) =>
+        userRows.forEach(({ values: _values, ...row }) => into.push({ ...row, reason }));
+
+      if (!user) {
+        reject('No faculty with this userId');
+        continue;
+      }
+      if (department && user.department !== department) {
+        reject('Faculty is not in your department');
+        continue;
+      }
+      if (!appraisal) {
+        reject(`No appraisal for ${cycle.label}`);
+        continue;
+      }
+
+      const editable = isPartAEditable(appraisal);
+      const courses: ICourseMetric[] = appraisal.toObject().partA.courses;
+      let touched = false;
+
+      for (const { values, ...row } of userRows) {
+        const course = courses.find((c) => courseKey(c.code, c.semester) === courseKey(row.code, row.semester));
+        if (!course) {
+          unmatched.push({ ...row, reason: 'Course and semester not found in the appraisal' });
+          continue;
+        }
+
+        const { changed, conflicts: found } = reconcileCourseResult(course, values);
+        const overwritten = editable && !dryRun;
+        conflicts.push(...found.map((conflict) => ({ ...row, ...conflict, overwritten })));
+
+        if (!editable) {
+          if (changed.length > 0) {
+            locked.push({ ...row, reason: `Appraisal is "${appraisal.status}"; Part A not updated` });
+          }
+          continue;
+        }
+        if (changed.length === 0) continue;
+
+        Object.assign(course, values);
+        applied.push({ ...row, changed });
+        touched = true;
+      }
+
+      if (touched && !dryRun) {
+        // Recompute every Part A mark from the updated course metrics
+        const rules = await resolveRubricRules(appraisal);
+        const { rawTotal, ...partA } = computePartA(
+          { ...appraisal.toObject().partA, courses },
+          toAcademicCadre(appraisal.designation),
+          rules
+        );
+        appraisal.set('partA', { ...partA, totalVerified: appraisal.partA.totalVerified });
+        await appraisal.save();
+      }
+    }
+
+    sendSuccess(
+      res,
+      {
+        cycle: cycle.label,
+        dryRun,
+        totals: {
+          rows: fileRows,
+          applied: applied.length,
+          unmatched: unmatched.length,
+          locked: locked.length,
+          conflicts: conflicts.length,
+        },
+        applied,
+        unmatched: unmatched.sort((a, b) => a.row - b.row),
+        locked,
+        conflicts,
+      },
+      dryRun
+        ? `Dry run: ${applied.length} course row(s) would be updated`
+        : `${applied.length} course row(s) updated from the course results file`
+    );
+  } catch (error) {
+    console.error('importCourseResults error:', error);
+    sendError(res, 'Failed to import course results', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
@@ -0,0 +1,212 @@
+import { Request, Response } from 'express';
+import {
+  AppraisalCycle,
+  CYCLE_WINDOWS,
+  type IAppraisalCycle,
+  type ICycleWindow,
+} from '../models/appraisalCycle';
+import { sendSuccess, sendError, HttpStatus } from '../utils/response';
+import {
+  parseCycleParam,
+  formatAcademicYear,
+  academicYearBounds,
+  getClosedWindowReason,
+} from '../utils/cycle';
+
+/**
+ * Find a cycle by its "2025" / "2025-26" route param and return 404 if missing.
+ */
+async function findCycleOrFail(res: Response, param: string): Promise<IAppraisalCycle | null> {
+  const year = parseCycleParam(param);
+  if (year === null) {
+    sendError(res, 'Cycle must look like 2025 or 2025-26', HttpStatus.BAD_REQUEST);
+    return null;
+  }
+  const cycle = await AppraisalCycle.findOne({ year });
+  if (!cycle) {
+    sendError(res, `Appraisal cycle ${formatAcademicYear(year)} not found`, HttpStatus.NOT_FOUND);
+    return null;
+  }
+  return cycle;
+}
+
+/**
+ * Read `submissionWindow`, `verificationWindow` and `interactionWindow` from a
+ * request body. Windows that are absent are left out of the result; an empty
+ * object or null clears a window. Returns the problems found alongside.
+ */
+function parseWindows(body: Record<string, unknown>): {
+  windows: Partial<Record<`${typeof CYCLE_WINDOWS[number]}Window`, ICycleWindow>>;
+  errors: string[];
+} {
+  const windows: Partial<Record<`${typeof CYCLE_WINDOWS[number]}Window`, ICycleWindow>> = {};
+  const errors: string[] = [];
+
+  for (const name of CYCLE_WINDOWS) {
+    const key = `${name}Window` as const;
+    const raw = body[key];
+    if (raw === undefined) continue;
+    if (raw === null) {
+      windows[key] = {};
+      continue;
+    }
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+      errors.push(`${key} must be an object with opensAt/closesAt`);
+      continue;
+    }
+
+    const window: ICycleWindow = {};
+    for (const bound of ['opensAt', 'closesAt'] as const) {
+      const value = (raw as Record<string, unknown>)[bound];
+      if (value === undefined || value === null || value === '') continue;
+      const date = new Date(value as string);
+      if (Number.isNaN(date.getTime())) errors.push(`${key}.${bound} is not a valid date`);
+      else window[bound] = date;
+    }
+    if (window.opensAt && window.closesAt && window.opensAt > window.closesAt) {
+      errors.push(`${key}.opensAt must be before ${key}.closesAt`);
+    }
+    windows[key] = window;
+  }
+
+  return { windows, errors };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// READ
+// GET /admin/cycles
+// GET /appraisal/cycle            — cycle resolved for this request (any role)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const getCycles = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const cycles = await AppraisalCycle.find().sort({ year: -1 });
+    sendSuccess(res, cycles, 'Appraisal cycles retrieved successfully');
+  } catch (error) {
+    console.error('getCycles error:', error);
+    sendError(res, 'Failed to retrieve appraisal cycles', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+/**
+ * Reports which cycle `?cycle=` (or the active cycle) resolves to and whether
+ * each of its windows is currently open, so clients can lock their forms.
+ */
+export const getResolvedCycle = (req: Request, res: Response): void => {
+  const cycle = req.cycle!;
+  const windows = Object.fromEntries(
+    CYCLE_WINDOWS.map((name) => {
+      const bounds = cycle.record?.[`${name}Window`];
+      const closedReason = getClosedWindowReason(cycle, name);
+      return [
+        name,
+        {
+          opensAt: bounds?.opensAt ?? null,
+          closesAt: bounds?.closesAt ?? null,
+          isOpen: !closedReason,
+          closedReason,
+        },
+      ];
+    })
+  );
+
+  sendSuccess(
+    res,
+    {
+      year: cycle.year,
+      label: cycle.label,
+      ...academicYearBounds(cycle.year),
+      isActive: cycle.record?.isActive ?? false,
+      isConfigured: !!cycle.record,
+      resultsPublishedAt: cycle.record?.resultsPublishedAt ?? null,
+      windows,
+    },
+    'Appraisal cycle retrieved successfully'
+  );
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// WRITE
+// POST /admin/cycles                   — create a cycle for an academic year
+// PUT  /admin/cycles/:cycle            — change its windows
+// POST /admin/cycles/:cycle/activate   — make it the default cycle
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const createCycle = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const year = parseCycleParam(req.body.year);
+    if (year === null) {
+      sendError(res, '"year" must look like 2025 or 2025-26', HttpStatus.BAD_REQUEST);
+      return;
+    }
+
+    const { windows, errors } = parseWindows(req.body);
+    if (errors.length > 0) {
+      sendError(res, 'Invalid cycle windows', HttpStatus.BAD_REQUEST, errors);
+      return;
+    }
+
+    const activate = req.body.isActive === true;
+    if (activate) {
+      await AppraisalCycle.updateMany({ isActive: true }, { $set: { isActive: false } });
+    }
+
+    const cycle = await AppraisalCycle.create({
+      year,
+      label: formatAcademicYear(year),
+      ...academicYearBounds(year),
+      ...windows,
+      isActive: activate,
+      createdBy: req.user!.userId,
+    });
+
+    sendSuccess(res, cycle, `Appraisal cycle ${cycle.label} created`, HttpStatus.CREATED);
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      sendError(res, 'An appraisal cycle already exists for this year', HttpStatus.CONFLICT);
+      return;
+    }
+    console.error('createCycle error:', error);
+    sendError(res, 'Failed to create appraisal cycle', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+export const updateCycle = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const cycle = await findCycleOrFail(res, req.params.cycle);
+    if (!cycle) return;
+
+    const { windows, errors } = parseWindows(req.body);
+    if (errors.length > 0) {
+      sendError(res, 'Invalid cycle windows', HttpStatus.BAD_REQUEST, errors);
+      return;
+    }
+
+    cycle.set(windows);
+    await cycle.save();
+
+    sendSuccess(res, cycle, `Appraisal cycle ${cycle.label} updated`);
+  } catch (error) {
+    console.error('updateCycle error:', error);
+    sendError(res, 'Failed to update appraisal cycle', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+export const activateCycle = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const cycle = await findCycleOrFail(res, req.params.cycle);
+    if (!cycle) return;
+
+    await AppraisalCycle.updateMany(
+      { _id: { $ne: cycle._id }, isActive: true },
+      { $set: { isActive: false } }
+    );
+    cycle.isActive = true;
+    await cycle.save();
+
+    sendSuccess(res, cycle, `Appraisal cycle ${cycle.label} is now active`);
+  } catch (error) {
+    console.error('activateCycle error:', error);
+    sendError(res, 'Failed to activate appraisal cycle', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
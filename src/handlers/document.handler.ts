@@ -1,12 +1,20 @@
 import { Request, Response } from 'express';
+import mongoose from 'mongoose';
 import PizZip from 'pizzip';
 import Docxtemplater from 'docxtemplater';
-import path from 'path';
-import fs from 'fs';
 import libre from 'libreoffice-convert';
 import { FacultyAppraisal } from '../models/detailedAppraisal';
 import { User } from '../models/user';
+import { PdfSnapshot, type IPdfSnapshot } from '../models/pdfSnapshot';
 import { sendSuccess, sendError, HttpStatus } from '../utils/response';
+import { ApiError } from '../middleware/error.middleware';
+import { APPRAISAL_STATUS } from '../constant/appraisal';
+import { getStorage } from '../utils/storage';
+import { sha256Of } from '../utils/evidence';
+import { loadAppraisalTemplateData } from '../utils/appraisalTemplateData';
+import { resolveReportTemplate } from '../utils/reportTemplates';
+import { enqueueGenerationJob, jobStatusPath, type JobProcessor } from '../utils/jobQueue';
+import { renderAppraisalPdf, assertCanViewPdfs } from './pdf.handler';
 
 const convertToPdf = (input: Buffer): Promise<Buffer> =>
   new Promise((resolve, reject) =>
@@ -16,208 +24,168 @@ const convertToPdf = (input: Buffer): Promise<Buffer> =>
     })
   );
 
-const TEMPLATE_PATH = path.join(__dirname, '../../pdf_template/template.docx');
-
-const buildTemplateData = () => ({
-  faculty_name: '',
-  faculty_designation: '',
-  faculty_department: '',
-  result_analysis_marks: '',
-  course_outcome_marks: '',
-  elearning_content_marks: '',
-  academic_engagement_marks: '',
-  teaching_load_marks: '',
-  projects_guided_marks: '',
-  student_feedback_marks: '',
-  ptg_meetings_marks: '',
-  section_a_total: '',
-  Prof_A: '',
-  Assoc_A: '',
-  Assis_A: '',
-  Prof_A_total_marks: '',
-  Assoc_A_total_marks: '',
-  Assis_A_total_marks: '',
-  sci_papers_marks: '',
-  sci_papers_verified_marks: '',
-  esci_papers_marks: '',
-  esci_papers_verified_marks: '',
-  scopus_papers_marks: '',
-  scopus_papers_verified_marks: '',
-  ugc_papers_marks: '',
-  ugc_papers_verified_marks: '',
-  other_papers_marks: '',
-  other_papers_verified_marks: '',
-  scopus_conf_marks: '',
-  scopus_conf_verified_marks: '',
-  other_conf_marks: '',
-  other_conf_verified_marks: '',
-  scopus_chapter_marks: '',
-  scopus_chapter_verified_marks: '',
-  other_chapter_marks: '',
-  other_chapter_verified_marks: '',
-  scopus_books_marks: '',
-  scopus_books_verified_marks: '',
-  national_books_marks: '',
-  national_books_verified_marks: '',
-  local_books_marks: '',
-  local_books_verified_marks: '',
-  wos_citations_marks: '',
-  wos_citations_verified_marks: '',
-  scopus_citations_marks: '',
-  scopus_citations_verified_marks: '',
-  google_citations_marks: '',
-  google_citations_verified_marks: '',
-  individual_copyright_registered_marks: '',
-  individual_copyright_registered_verified_marks: '',
-  individual_copyright_granted_marks: '',
-  individual_copyright_granted_verified_marks: '',
-  institute_copyright_registered_marks: '',
-  institute_copyright_registered_verified_marks: '',
-  institute_copyright_granted_marks: '',
-  institute_copyright_granted_verified_marks: '',
-  individual_patent_registered_marks: '',
-  individual_patent_registered_verified_marks: '',
-  individual_patent_published_marks: '',
-  individual_patent_published_verified_marks: '',
-  individual_granted_marks: '',
-  individual_granted_verified_marks: '',
-  individual_commercialized_marks: '',
-  individual_commercialized_verified_marks: '',
-  college_patent_registered_marks: '',
-  college_patent_registered_verified_marks: '',
-  college_patent_published_marks: '',
-  college_patent_published_verified_marks: '',
-  college_granted_marks: '',
-  college_granted_verified_marks: '',
-  college_commercialized_marks: '',
-  college_commercialized_verified_marks: '',
-  research_grants_marks: '',
-  research_grants_verified_marks: '',
-  training_marks: '',
-  training_verified_marks: '',
-  nonresearch_grants_marks: '',
-  nonresearch_grants_verified_marks: '',
-  commercialized_products_marks: '',
-  commercialized_products_verified_marks: '',
-  developed_products_marks: '',
-  developed_products_verified_marks: '',
-  poc_products_marks: '',
-  poc_products_verified_marks: '',
-  startup_revenue_pccoe_marks: '',
-  startup_revenue_pccoe_verified_marks: '',
-  startup_funding_pccoe_marks: '',
-  startup_funding_pccoe_verified_marks: '',
-  startup_products_marks: '',
-  startup_products_verified_marks: '',
-  startup_poc_marks: '',
-  startup_poc_verified_marks: '',
-  startup_registered_marks: '',
-  startup_registered_verified_marks: '',
-  international_awards_marks: '',
-  international_awards_verified_marks: '',
-  government_awards_marks: '',
-  government_awards_verified_marks: '',
-  national_awards_marks: '',
-  national_awards_verified_marks: '',
-  international_fellowship_marks: '',
-  international_fellowship_verified_marks: '',
-  national_fellowship_marks: '',
-  national_fellowship_verified_marks: '',
-  active_mou_marks: '',
-  active_mou_verified_marks: '',
-  lab_development_marks: '',
-  lab_development_verified_marks: '',
-  internships_placements_marks: '',
-  internships_placements_verified_marks: '',
-  B_total_marks: '',
-  section_b_total: '',
-  Prof_B: '',
-  Assoc_B: '',
-  Assis_B: '',
-  Prof_B_total_marks: '',
-  Assoc_B_total_marks: '',
-  Assis_B_total_marks: '',
-  Prof_B_total_verified: '',
-  Assoc_B_total_verified: '',
-  Assis_B_total_verified: '',
-  verf_committee_name: '',
-  Prof_qualification_marks: '',
-  qualification_marks: '',
-  training_attended_marks: '',
-  training_organized_marks: '',
-  phd_guided_marks: '',
-  section_c_total: '',
-  Prof_C: '',
-  Assoc_C: '',
-  Assis_C: '',
-  Prof_C_total_marks: '',
-  Assoc_C_total_marks: '',
-  Assis_C_total_marks: '',
-  Institute_Portfolio: '',
-  Department_portfolio: '',
-  deanMarks: '',
-  hodMarks: '',
-  self_awarded_marks: '',
-  section_d_total: '',
-  assDeanHODMarks: '',
-  assDeanDeanMarks: '',
-  assSelfawardedmarks: '',
-  sumMarks_hod_dean: '',
-  assTotalMarks: '',
-  section_E_total: '',
-  total_for_A: '',
-  total_for_A_verified: '',
-  total_for_B: '',
-  total_for_B_verified: '',
-  total_for_C: '',
-  total_for_C_verified: '',
-  total_for_D_verified: '',
-  total_for_E_verified: '',
-  extra_marks: '',
-  grand_total: '',
-  grand_verified_marks: '',
-});
+/**
+ * Render a .docx template with `data` and convert the result to PDF.
+ */
+export const fillDocxTemplate = async (templateBytes: Buffer, data: Record<string, string>): Promise<Buffer> => {
+  const zip = new PizZip(templateBytes);
+  const doc = new Docxtemplater(zip, { paragraphLoop: true, linebreaks: true });
+  doc.render(data);
+
+  const docxBuffer: Buffer = doc.getZip().generate({ type: 'nodebuffer' }) as Buffer;
+  return convertToPdf(docxBuffer);
+};
+
+/**
+ * Where a DOCX-rendered appraisal PDF is stored. Each requester keeps only
+ * their latest render: the faculty's own copy withholds unpublished marks, so
+ * it never shares a key with a reviewer's, and LibreOffice stamps every
+ * conversion, so the bytes differ on each run anyway.
+ */
+const generatedDocxPdfKey = (userId: string, appraisalYear: number, requestedBy: string): string =>
+  `generated/${appraisalYear}/${encodeURIComponent(userId)}/${encodeURIComponent(requestedBy)}.pdf`;
+
+/**
+ * Worker side of generate-doc: render the cycle's DOCX template (template.docx
+ * unless an admin has published one) with the faculty's appraisal, convert it
+ * to PDF and store it. Same placeholder values as the PDF download.
+ */
+export const processAppraisalDocxJob: JobProcessor = async ({ job, report }) => {
+  const { userId, appraisalYear } = job;
+
+  await report(10, 'Filling the DOCX template');
+  const template = await resolveReportTemplate(appraisalYear, 'docx');
+  if (!template) throw new ApiError('PDF template not found on server', HttpStatus.INTERNAL_SERVER_ERROR);
+  const data = await loadAppraisalTemplateData(userId, appraisalYear, job.requestedBy);
+
+  await report(30, 'Converting to PDF');
+  const pdf = await fillDocxTemplate(template.bytes, data);
+
+  await report(80, 'Storing the PDF');
+  const storage = getStorage();
+  const storageKey = generatedDocxPdfKey(userId, appraisalYear, job.requestedBy);
+  await storage.put(storageKey, pdf, 'application/pdf');
+
+  return {
+    storageDriver: storage.driver,
+    storageKey,
+    fileName: `${userId}_appraisal.pdf`,
+    size: pdf.length,
+    contentType: 'application/pdf',
+    templateId: template.templateId,
+    templateVersion: template.version,
+  };
+};
 
 /**
  * GET /:department/:userId/generate-doc
- * Renders template.docx with blank values and converts to PDF.
+ * Queues the DOCX rendering (see processAppraisalDocxJob) and answers 202
+ * with the job id; GET /jobs/:jobId links the PDF once it is ready.
  */
 export const generateDoc = async (req: Request, res: Response): Promise<void> => {
   try {
-    if (!fs.existsSync(TEMPLATE_PATH)) {
-      sendError(res, 'PDF template not found on server', HttpStatus.INTERNAL_SERVER_ERROR);
-      return;
-    }
-
-    const content = fs.readFileSync(TEMPLATE_PATH);
-    const zip = new PizZip(content);
-    const doc = new Docxtemplater(zip, { paragraphLoop: true, linebreaks: true });
-    doc.render(buildTemplateData());
+    const { userId } = req.params;
+    if (!assertCanViewPdfs(res, req.user!, userId)) return;
 
-    const docxBuffer: Buffer = doc.getZip().generate({ type: 'nodebuffer' }) as Buffer;
-    const pdfBuffer = await convertToPdf(docxBuffer);
+    const { job, reused } = await enqueueGenerationJob({
+      type: 'appraisal-docx',
+      userId,
+      appraisalYear: req.cycle!.year,
+      requestedBy: req.user!.userId,
+      requestedByRole: req.user!.role,
+    });
 
-    res.setHeader('Content-Type', 'application/pdf');
-    res.setHeader('Content-Disposition', `inline; filename="${req.params.userId}_appraisal.pdf"`);
-    res.setHeader('Content-Length', pdfBuffer.length);
-    res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate');
-    res.setHeader('Pragma', 'no-cache');
-    res.end(pdfBuffer);
+    sendSuccess(
+      res,
+      { jobId: job._id, status: job.status, statusUrl: jobStatusPath(job) },
+      reused ? 'PDF generation already in progress' : 'PDF generation queued',
+      HttpStatus.ACCEPTED
+    );
   } catch (error: unknown) {
     console.error('[generateDoc] Error:', error);
-    const msg = error instanceof Error ? error.message : String(error);
-    sendError(res, 'Failed to generate PDF', HttpStatus.INTERNAL_SERVER_ERROR,
-      process.env.NODE_ENV === 'development' ? msg : undefined);
+    sendError(res, 'Failed to queue PDF generation', HttpStatus.INTERNAL_SERVER_ERROR);
   }
 };
 
+/**
+ * Snapshots the requester may see. Reviewers' snapshots show verified marks,
+ * so until results are published the faculty only sees the ones they saved.
+ */
+async function visibleSnapshotFilter(
+  requestingUser: { userId: string },
+  userId: string,
+  appraisalYear: number
+): Promise<Record<string, unknown>> {
+  const filter: Record<string, unknown> = { userId, appraisalYear };
+  if (requestingUser.userId !== userId) return filter;
+
+  const appraisal = await FacultyAppraisal.findOne({ userId, appraisalYear }, { status: 1 }).lean();
+  if (appraisal?.status !== APPRAISAL_STATUS.PUBLISHED) filter.savedBy = userId;
+  return filter;
+}
+
+/**
+ * Read a snapshot's bytes and send them inline, refusing files whose hash no
+ * longer matches the record.
+ */
+async function sendSnapshot(res: Response, snapshot: IPdfSnapshot): Promise<void> {
+  const file = await getStorage(snapshot.storageDriver).get(snapshot.storageKey);
+  if (!file) {
+    sendError(res, 'Saved PDF file is missing from storage', HttpStatus.NOT_FOUND);
+    return;
+  }
+  if (sha256Of(file) !== snapshot.sha256) {
+    console.error(`sendSnapshot: SHA-256 mismatch for ${snapshot.storageKey}`);
+    sendError(res, 'Saved PDF failed its integrity check', HttpStatus.INTERNAL_SERVER_ERROR);
+    return;
+  }
+
+  const savedOn = snapshot.createdAt.toISOString().slice(0, 10);
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `inline; filename="${snapshot.userId}_appraisal_${savedOn}.pdf"`);
+  res.setHeader('Content-Length', file.length);
+  res.setHeader('Cache-Control', 'private, no-store');
+  res.setHeader('X-Content-SHA256', snapshot.sha256);
+  res.end(file);
+}
+
+/** Snapshot fields returned in listings (storage location stays server-side). */
+const toSnapshotSummary = (snapshot: IPdfSnapshot) => ({
+  id: snapshot._id,
+  appraisalYear: snapshot.appraisalYear,
+  status: snapshot.status,
+  sha256: snapshot.sha256,
+  size: snapshot.size,
+  savedBy: snapshot.savedBy,
+  savedByRole: snapshot.savedByRole,
+  templateVersion: snapshot.templateVersion,
+  note: snapshot.note,
+  savedAt: snapshot.createdAt,
+});
+
 /**
  * GET /:department/:userId/faculty-pdf
- * Returns the most recently saved PDF for this faculty.
- * Currently not implemented — 404 causes PartF_Review to fall back to generate-doc.
+ * Streams the most recent saved PDF this requester may see for the cycle.
+ * 404 when there is none, which makes PartF_Review fall back to generate-doc.
  */
-export const getFacultyPdf = (_req: Request, res: Response): void => {
-  sendError(res, 'No saved PDF found', HttpStatus.NOT_FOUND);
+export const getFacultyPdf = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    const requestingUser = req.user!;
+    if (!assertCanViewPdfs(res, requestingUser, userId)) return;
+
+    const filter = await visibleSnapshotFilter(requestingUser, userId, req.cycle!.year);
+    const latest = await PdfSnapshot.findOne(filter).sort({ createdAt: -1 });
+    if (!latest) {
+      sendError(res, 'No saved PDF found', HttpStatus.NOT_FOUND);
+      return;
+    }
+
+    await sendSnapshot(res, latest);
+  } catch (error: unknown) {
+    console.error('[getFacultyPdf] Error:', error);
+    sendError(res, 'Failed to load saved PDF', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
 };
 
 /**
@@ -230,12 +198,12 @@ export const getPdfMetadata = async (req: Request, res: Response): Promise<void>
     const { userId } = req.params;
 
     const [appraisal, user] = await Promise.all([
-      FacultyAppraisal.findOne({ userId }).lean(),
+      FacultyAppraisal.findOne({ userId, appraisalYear: req.cycle!.year }).lean(),
       User.findOne({ userId }).lean(),
     ]);
 
     if (!appraisal) {
-      sendError(res, 'No appraisal found', HttpStatus.NOT_FOUND);
+      sendError(res, `No appraisal found for ${req.cycle!.label}`, HttpStatus.NOT_FOUND);
       return;
     }
 
@@ -254,28 +222,134 @@ export const getPdfMetadata = async (req: Request, res: Response): Promise<void>
 
 /**
  * GET /:department/:userId/saved-pdfs
+ * Newest first.
  */
-export const getSavedPdfs = (_req: Request, res: Response): void => {
-  sendSuccess(res, { pdfs: [] }, 'No saved PDFs');
+export const getSavedPdfs = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    const requestingUser = req.user!;
+    if (!assertCanViewPdfs(res, requestingUser, userId)) return;
+
+    const filter = await visibleSnapshotFilter(requestingUser, userId, req.cycle!.year);
+    const snapshots = await PdfSnapshot.find(filter).sort({ createdAt: -1 });
+
+    sendSuccess(res, { pdfs: snapshots.map(toSnapshotSummary) }, 'Saved PDFs retrieved successfully');
+  } catch (error: unknown) {
+    console.error('[getSavedPdfs] Error:', error);
+    sendError(res, 'Failed to retrieve saved PDFs', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
 };
 
 /**
- * POST /:department/:userId/save-pdf
+ * POST /:department/:userId/save-pdf   Body: { note? }
+ * Renders the appraisal as it is now and keeps it as an immutable snapshot.
  */
-export const savePdf = (_req: Request, res: Response): void => {
-  sendSuccess(res, null, 'Save feature not yet implemented');
+export const savePdf = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    const requestingUser = req.user!;
+    if (!assertCanViewPdfs(res, requestingUser, userId)) return;
+
+    const appraisalYear = req.cycle!.year;
+    const appraisal = await FacultyAppraisal.findOne({ userId, appraisalYear }, { status: 1 }).lean();
+    if (!appraisal) {
+      sendError(res, `No appraisal found for ${req.cycle!.label}`, HttpStatus.NOT_FOUND);
+      return;
+    }
+
+    const note = typeof req.body?.note === 'string' ? req.body.note.trim().slice(0, 200) : '';
+    const { pdf, templateId, templateVersion } = await renderAppraisalPdf(userId, appraisalYear, requestingUser.userId);
+    const sha256 = sha256Of(pdf);
+
+    // Content-addressed: saving an unchanged appraisal twice stores the bytes once
+    const storage = getStorage();
+    const storageKey = `snapshots/${appraisalYear}/${encodeURIComponent(userId)}/${sha256}.pdf`;
+    await storage.put(storageKey, pdf, 'application/pdf');
+
+    const snapshot = await PdfSnapshot.create({
+      userId,
+      appraisalYear,
+      status: appraisal.status,
+      sha256,
+      size: pdf.length,
+      storageDriver: storage.driver,
+      storageKey,
+      savedBy: requestingUser.userId,
+      savedByRole: requestingUser.role,
+      templateId,
+      templateVersion,
+      note,
+    });
+
+    sendSuccess(res, toSnapshotSummary(snapshot), 'PDF snapshot saved', HttpStatus.CREATED);
+  } catch (error: unknown) {
+    if (error instanceof ApiError) {
+      sendError(res, error.message, error.statusCode, error.details);
+      return;
+    }
+    console.error('[savePdf] Error:', error);
+    sendError(res, 'Failed to save PDF', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
 };
 
 /**
  * GET /:department/:userId/view-saved-pdf/:id
  */
-export const viewSavedPdf = (_req: Request, res: Response): void => {
-  sendError(res, 'Saved PDF not found', HttpStatus.NOT_FOUND);
+export const viewSavedPdf = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId, id } = req.params;
+    const requestingUser = req.user!;
+    if (!assertCanViewPdfs(res, requestingUser, userId)) return;
+
+    const filter = await visibleSnapshotFilter(requestingUser, userId, req.cycle!.year);
+    const snapshot = mongoose.isValidObjectId(id) ? await PdfSnapshot.findOne({ ...filter, _id: id }) : null;
+    if (!snapshot) {
+      sendError(res, 'Saved PDF not found', HttpStatus.NOT_FOUND);
+      return;
+    }
+
+    await sendSnapshot(res, snapshot);
+  } catch (error: unknown) {
+    console.error('[viewSavedPdf] Error:', error);
+    sendError(res, 'Failed to load saved PDF', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
 };
 
 /**
  * DELETE /:department/:userId/delete-saved-pdf/:id
+ * Only whoever saved a snapshot may delete it.
  */
-export const deleteSavedPdf = (_req: Request, res: Response): void => {
-  sendError(res, 'Saved PDF not found', HttpStatus.NOT_FOUND);
+export const deleteSavedPdf = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId, id } = req.params;
+    const requestingUser = req.user!;
+
+    if (!assertCanViewPdfs(res, requestingUser, userId)) return;
+
+    const snapshot = mongoose.isValidObjectId(id)
+      ? await PdfSnapshot.findOne({ _id: id, userId, appraisalYear: req.cycle!.year })
+      : null;
+    if (!snapshot) {
+      sendError(res, 'Saved PDF not found', HttpStatus.NOT_FOUND);
+      return;
+    }
+    if (snapshot.savedBy !== requestingUser.userId) {
+      sendError(res, 'Only whoever saved this PDF can delete it', HttpStatus.FORBIDDEN);
+      return;
+    }
+
+    await snapshot.deleteOne();
+
+    // Keep the stored file while another snapshot still points at it
+    const stillUsed = await PdfSnapshot.exists({
+      storageDriver: snapshot.storageDriver,
+      storageKey: snapshot.storageKey,
+    });
+    if (!stillUsed) await getStorage(snapshot.storageDriver).delete(snapshot.storageKey);
+
+    sendSuccess(res, null, 'Saved PDF deleted');
+  } catch (error: unknown) {
+    console.error('[deleteSavedPdf] Error:', error);
+    sendError(res, 'Failed to delete saved PDF', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
 };
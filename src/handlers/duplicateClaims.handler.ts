@@ -0,0 +1,50 @@
+import { Request, Response } from 'express';
+import { User } from '../models/user';
+import { sendSuccess, sendError, HttpStatus } from '../utils/response';
+import { parseCycleParam, formatAcademicYear } from '../utils/cycle';
+import { findCycleDuplicateClaims, getSharingPolicy } from '../utils/duplicateClaims';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// REPORT — Part B works claimed more than once across the institute
+// GET /admin/cycles/:cycle/duplicates?flaggedOnly=true
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const getDuplicateClaimsReport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const year = parseCycleParam(req.params.cycle);
+    if (year === null) {
+      sendError(res, 'Cycle must look like 2025 or 2025-26', HttpStatus.BAD_REQUEST);
+      return;
+    }
+
+    const flaggedOnly = req.query.flaggedOnly === 'true';
+    const allGroups = await findCycleDuplicateClaims(year);
+    const groups = flaggedOnly ? allGroups.filter((group) => group.flagged) : allGroups;
+
+    // Name and department of everyone involved, so the report reads without lookups
+    const userIds = [...new Set(groups.flatMap((group) => group.userIds))];
+    const users = await User.find(
+      { userId: { $in: userIds } },
+      { userId: 1, name: 1, department: 1, _id: 0 }
+    ).lean();
+    const faculty = Object.fromEntries(
+      users.map((user) => [user.userId, { name: user.name, department: user.department }])
+    );
+
+    sendSuccess(
+      res,
+      {
+        cycle: formatAcademicYear(year),
+        sharingPolicy: getSharingPolicy(),
+        totalGroups: allGroups.length,
+        flaggedGroups: allGroups.filter((group) => group.flagged).length,
+        faculty,
+        groups,
+      },
+      'Duplicate claims report generated successfully'
+    );
+  } catch (error) {
+    console.error('getDuplicateClaimsReport error:', error);
+    sendError(res, 'Failed to generate duplicate claims report', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
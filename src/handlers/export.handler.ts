@@ -0,0 +1,532 @@
+import { Request, Response } from 'express';
+import { createWriteStream, promises as fs } from 'fs';
+import { finished } from 'stream/promises';
+import { randomUUID } from 'crypto';
+import os from 'os';
+import path from 'path';
+import { FacultyAppraisal, type IFacultyAppraisal } from '../models/detailedAppraisal';
+import { User } from '../models/user';
+import { sendError, sendSuccess, HttpStatus } from '../utils/response';
+import { ApiError } from '../middleware/error.middleware';
+import { APPRAISAL_STATUS, MARKS_VERIFIED_STATUSES, type AppraisalStatus } from '../constant/appraisal';
+import { DESIGNATION, ROLE } from '../constant/userInfo';
+import { DEPARTMENT } from '../constant/department';
+import { isDepartment } from '../utils/courseCatalogue';
+import { toCsv } from '../utils/csv';
+import { createZipWriter } from '../utils/zipStream';
+import { buildXlsx, XLSX_CONTENT_TYPE, type XlsxCell, type XlsxSheet } from '../utils/xlsx';
+import { PART_B_ITEM_PATHS, getPartBItem } from '../utils/scoring';
+import { redactUnpublishedScores } from '../utils/publication';
+import { formatAcademicYear } from '../utils/cycle';
+import { getStorage } from '../utils/storage';
+import { enqueueGenerationJob, jobStatusPath, type JobProcessor } from '../utils/jobQueue';
+import { renderAppraisalPdf } from './pdf.handler';
+
+/** Columns of manifest.csv, one row per appraisal in the department. */
+const MANIFEST_HEADER = [
+  'userId',
+  'name',
+  'designation',
+  'status',
+  'grandTotalClaimed',
+  'grandTotalVerified',
+  'file',
+  'note',
+];
+
+/** Keeps archive entry names portable across unzip tools. */
+const toFileNamePart = (value: string): string => value.trim().replace(/[^\w.-]+/g, '_') || 'unnamed';
+
+/** Roles a HOD does not see, as in the department listing. */
+const HOD_HIDDEN_ROLES = ['hod', 'dean'];
+
+/** Exports are scoped by the HOD's department, which the token does not carry. */
+const findHodDepartment = async (userId: string): Promise<string | null> =>
+  (await User.findOne({ userId }, { department: 1 }).lean())?.department ?? null;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// DEPARTMENT EXPORT
+// GET /appraisal/department/:department/export?cycle=2025&includeUnverified=true
+// One ZIP of every appraisal PDF in the department, plus manifest.csv.
+// The archive is built by a job worker (see processDepartmentExportJob), so
+// it counts against the queue's concurrency limit rather than holding the
+// request open; GET /jobs/:jobId links the ZIP once it is stored.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Where a department archive is stored; each requester keeps their latest one. */
+const departmentExportKey = (appraisalYear: number, department: string, requestedBy: string): string =>
+  `exports/${appraisalYear}/${department}/${encodeURIComponent(requestedBy)}.zip`;
+
+/**
+ * Renders the department's PDFs one at a time into a ZIP streamed to a temp
+ * file, then uploads that file; only one PDF is ever held in memory.
+ */
+export const processDepartmentExportJob: JobProcessor = async ({ job, report }) => {
+  const { appraisalYear, includeUnverified } = job;
+  const department = job.department ?? '';
+  if (!isDepartment(department)) throw new ApiError('Unknown department', HttpStatus.BAD_REQUEST);
+
+  // Same visibility as the department listing: HODs see their own faculty only
+  const userQuery: Record<string, unknown> = { department };
+  if (job.requestedByRole === 'hod') userQuery.role = { $nin: HOD_HIDDEN_ROLES };
+
+  await report(5, 'Loading appraisals');
+  const users = await User.find(userQuery, { userId: 1, name: 1, _id: 0 }).lean();
+  const names = new Map(users.map((user) => [user.userId, user.name]));
+  const appraisals = await FacultyAppraisal.find({ userId: { $in: [...names.keys()] }, appraisalYear })
+    .select('userId designation status summary')
+    .lean();
+  appraisals.sort((a, b) => (names.get(a.userId) ?? '').localeCompare(names.get(b.userId) ?? ''));
+
+  const tempFile = path.join(os.tmpdir(), `department-export-${job._id}-${randomUUID()}.zip`);
+  const sink = createWriteStream(tempFile);
+  try {
+    const zip = createZipWriter(sink);
+    const manifest: unknown[][] = [MANIFEST_HEADER];
+
+    for (const [index, appraisal] of appraisals.entries()) {
+      const name = names.get(appraisal.userId) ?? '';
+      const row = [
+        appraisal.userId,
+        name,
+        appraisal.designation,
+        appraisal.status,
+        appraisal.summary?.grandTotalClaimed ?? 0,
+        appraisal.summary?.grandTotalVerified ?? 0,
+      ];
+
+      if (!includeUnverified && !(MARKS_VERIFIED_STATUSES as readonly AppraisalStatus[]).includes(appraisal.status)) {
+        manifest.push([...row, '', 'Skipped: marks not yet verified']);
+        continue;
+      }
+
+      // Also refreshes the job's lock, which a long department would otherwise outlive
+      await report(10 + Math.floor((80 * index) / appraisals.length), `Rendering ${index + 1} of ${appraisals.length}`);
+
+      let pdf: Buffer;
+      try {
+        ({ pdf } = await renderAppraisalPdf(appraisal.userId, appraisalYear, job.requestedBy));
+      } catch (error) {
+        // One broken appraisal should not cost the HOD the whole archive
+        console.error(`processDepartmentExportJob: ${appraisal.userId} failed to render:`, error);
+        manifest.push([...row, '', `Failed: ${error instanceof Error ? error.message : String(error)}`]);
+        continue;
+      }
+
+      const fileName = `${toFileNamePart(appraisal.userId)}_${toFileNamePart(name)}.pdf`;
+      await zip.addFile(fileName, pdf);
+      manifest.push([...row, fileName, '']);
+    }
+
+    await zip.addFile('manifest.csv', Buffer.from(toCsv(manifest), 'utf8'));
+    await zip.finish();
+    sink.end();
+    await finished(sink);
+
+    await report(95, 'Storing the archive');
+    const storage = getStorage();
+    const storageKey = departmentExportKey(appraisalYear, department, job.requestedBy);
+    const { size } = await fs.stat(tempFile);
+    await storage.putFile(storageKey, tempFile, 'application/zip');
+
+    return {
+      storageDriver: storage.driver,
+      storageKey,
+      fileName: `${department}_${formatAcademicYear(appraisalYear)}_appraisals.zip`,
+      size,
+      contentType: 'application/zip',
+      templateId: null,
+      templateVersion: 0,
+    };
+  } finally {
+    sink.destroy();
+    await fs.rm(tempFile, { force: true });
+  }
+};
+
+export const exportDepartmentPdfs = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { department } = req.params;
+    const requestingUser = req.user!;
+
+    if (!isDepartment(department)) {
+      sendError(res, 'Unknown department', HttpStatus.BAD_REQUEST);
+      return;
+    }
+
+    if (requestingUser.role === 'hod' && (await findHodDepartment(requestingUser.userId)) !== department) {
+      sendError(res, 'HODs can only export their own department', HttpStatus.FORBIDDEN);
+      return;
+    }
+
+    const { job, reused } = await enqueueGenerationJob({
+      type: 'department-export',
+      userId: '',
+      appraisalYear: req.cycle!.year,
+      department,
+      includeUnverified: req.query.includeUnverified === 'true',
+      requestedBy: requestingUser.userId,
+      requestedByRole: requestingUser.role,
+    });
+
+    sendSuccess(
+      res,
+      { jobId: job._id, status: job.status, statusUrl: jobStatusPath(job) },
+      reused ? 'Department export already in progress' : 'Department export queued',
+      HttpStatus.ACCEPTED
+    );
+  } catch (error) {
+    console.error('exportDepartmentPdfs error:', error);
+    sendError(res, 'Failed to export department appraisals', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// WORKBOOK EXPORT
+// GET /appraisal/export/xlsx?cycle=2025&department=computer,it&designation=Professor&role=faculty&status=Completed
+// Every filter takes a comma-separated list; omitted filters match everything.
+// HODs always get their own department's faculty; the director sees everyone.
+// ─────────────────────────────────────────────────────────────────────────────
+
+type ExportedAppraisal = Pick<
+  IFacultyAppraisal,
+  'userId' | 'designation' | 'role' | 'status' | 'partA' | 'partB' | 'partC' | 'partD' | 'partE' | 'summary'
+>;
+
+interface ExportedFaculty {
+  name: string;
+  department: string;
+}
+
+/** ?x=a,b and ?x=a&x=b both give ['a', 'b']. */
+const queryList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : [value])
+    .flatMap((item) => (typeof item === 'string' ? item.split(',') : []))
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const IDENTITY_HEADER = ['User ID', 'Name', 'Department'];
+
+const SUMMARY_HEADER = [
+  ...IDENTITY_HEADER,
+  'Designation',
+  'Role',
+  'Status',
+  'Part A Claimed',
+  'Part A Verified',
+  'Part B Claimed',
+  'Part B Verified',
+  'Part C Claimed',
+  'Part C Verified',
+  'Part D Claimed',
+  'Part D Verified',
+  'Part E Claimed',
+  'Part E Verified',
+  'Grand Total Claimed',
+  'Grand Total Verified',
+];
+
+const PART_A_HEADER = [
+  ...IDENTITY_HEADER,
+  'e-Learning Instances',
+  'Weekly Load Sem 1',
+  'Weekly Load Sem 2',
+  'PhD Scholar',
+  'Projects Guided',
+  'PTG Meetings',
+  'Result Analysis Marks',
+  'Course Outcome Marks',
+  'e-Learning Marks',
+  'Academic Engagement Marks',
+  'Teaching Load Marks',
+  'Projects Guided Marks',
+  'Student Feedback Marks',
+  'PTG Meetings Marks',
+  'Claimed',
+  'Verified',
+];
+
+const PART_A_COURSES_HEADER = [
+  ...IDENTITY_HEADER,
+  'Course Code',
+  'Semester',
+  'Students ≥ 60%',
+  'Students 50–59%',
+  'Students 40–49%',
+  'Total Students',
+  'Result Marks',
+  'CO Attainment %',
+  'CO Submitted On Time',
+  'CO Marks',
+  'Students Present',
+  'Students Enrolled',
+  'Engagement Marks',
+  'Feedback %',
+  'Feedback Marks',
+];
+
+const PART_B_HEADER = [...IDENTITY_HEADER, 'Item', 'Count', 'Entries', 'Accepted Entries', 'Claimed', 'Verified'];
+
+const PART_C_HEADER = [
+  ...IDENTITY_HEADER,
+  'PDF Completed',
+  'PDF Ongoing',
+  'PhD Awarded',
+  'Training Attended (2 weeks)',
+  'Training Attended (1 week)',
+  'Training Attended (2–5 days)',
+  'Training Attended (1 day)',
+  'Training Organized (2 weeks)',
+  'Training Organized (1 week)',
+  'Training Organized (2–5 days)',
+  'Training Organized (1 day)',
+  'PhD Guided: Awarded',
+  'PhD Guided: Submitted',
+  'PhD Guided: Ongoing',
+  'Qualification Marks',
+  'Training Attended Marks',
+  'Training Organized Marks',
+  'PhD Guided Marks',
+  'Claimed',
+  'Verified',
+];
+
+const PART_D_HEADER = [
+  ...IDENTITY_HEADER,
+  'Portfolio Type',
+  'Institute Portfolio',
+  'Department Portfolio',
+  'Self-Awarded Marks',
+  'Dean Marks',
+  'HOD Marks',
+  'Administrative Role',
+  'Admin Self-Awarded Marks',
+  'Director Marks',
+  'Admin Dean Marks',
+  'Claimed',
+  'Verified',
+];
+
+const PART_E_HEADER = [...IDENTITY_HEADER, 'Contributions', 'Claimed', 'Verified'];
+
+/** The workbook's sheets, one row per appraisal (per course / Part B item where noted). */
+const buildAppraisalSheets = (
+  appraisals: ExportedAppraisal[],
+  faculty: Map<string, ExportedFaculty>
+): XlsxSheet[] => {
+  const summary: XlsxCell[][] = [SUMMARY_HEADER];
+  const partA: XlsxCell[][] = [PART_A_HEADER];
+  const partACourses: XlsxCell[][] = [PART_A_COURSES_HEADER];
+  const partB: XlsxCell[][] = [PART_B_HEADER];
+  const partC: XlsxCell[][] = [PART_C_HEADER];
+  const partD: XlsxCell[][] = [PART_D_HEADER];
+  const partE: XlsxCell[][] = [PART_E_HEADER];
+
+  for (const appraisal of appraisals) {
+    const user = faculty.get(appraisal.userId);
+    const identity = [appraisal.userId, user?.name ?? '', user?.department ?? ''];
+    const { partA: a, partB: b, partC: c, partD: d, partE: e } = appraisal;
+
+    summary.push([
+      ...identity,
+      appraisal.designation,
+      appraisal.role,
+      appraisal.status,
+      a?.totalClaimed,
+      a?.totalVerified,
+      b?.totalClaimed,
+      b?.totalVerified,
+      c?.totalClaimed,
+      c?.totalVerified,
+      d?.totalClaimed,
+      d?.totalVerified,
+      e?.totalClaimed,
+      e?.totalVerified,
+      appraisal.summary?.grandTotalClaimed,
+      appraisal.summary?.grandTotalVerified,
+    ]);
+
+    partA.push([
+      ...identity,
+      a?.eLearningInstances,
+      a?.weeklyLoadSem1,
+      a?.weeklyLoadSem2,
+      a?.phdScholar,
+      a?.projectsGuided,
+      a?.ptgMeetings,
+      a?.sectionMarks?.resultAnalysis,
+      a?.sectionMarks?.courseOutcome,
+      a?.sectionMarks?.eLearning,
+      a?.sectionMarks?.academicEngagement,
+      a?.sectionMarks?.teachingLoad,
+      a?.sectionMarks?.projectsGuided,
+      a?.sectionMarks?.studentFeedback,
+      a?.sectionMarks?.ptgMeetings,
+      a?.totalClaimed,
+      a?.totalVerified,
+    ]);
+
+    for (const course of a?.courses ?? []) {
+      partACourses.push([
+        ...identity,
+        course.code,
+        course.semester,
+        course.studentsAbove60,
+        course.students50to59,
+        course.students40to49,
+        course.totalStudents,
+        course.resultMarks,
+        course.coAttainment,
+        course.timelySubmissionCO,
+        course.coMarks,
+        course.studentsPresent,
+        course.totalEnrolledStudents,
+        course.engagementMarks,
+        course.feedbackPercentage,
+        course.feedbackMarks,
+      ]);
+    }
+
+    // Only items the faculty claimed or that hold entries; a full grid is mostly zeros
+    for (const path of PART_B_ITEM_PATHS) {
+      const item = getPartBItem(b, path);
+      const entries = item?.entries ?? [];
+      if (!item || (!item.count && !item.claimed && !item.verified && entries.length === 0)) continue;
+      partB.push([
+        ...identity,
+        path,
+        item.count ?? 0,
+        entries.length,
+        entries.filter((entry) => entry.verification?.status === 'accepted').length,
+        item.claimed ?? 0,
+        item.verified ?? 0,
+      ]);
+    }
+
+    partC.push([
+      ...identity,
+      c?.pdfCompleted,
+      c?.pdfOngoing,
+      c?.phdAwarded,
+      c?.trainingAttended?.twoWeek,
+      c?.trainingAttended?.oneWeek,
+      c?.trainingAttended?.twoToFiveDays,
+      c?.trainingAttended?.oneDay,
+      c?.trainingOrganized?.twoWeek,
+      c?.trainingOrganized?.oneWeek,
+      c?.trainingOrganized?.twoToFiveDays,
+      c?.trainingOrganized?.oneDay,
+      c?.phdGuided?.awarded,
+      c?.phdGuided?.submitted,
+      c?.phdGuided?.ongoing,
+      c?.sectionMarks?.qualification,
+      c?.sectionMarks?.trainingAttended,
+      c?.sectionMarks?.trainingOrganized,
+      c?.sectionMarks?.phdGuided,
+      c?.totalClaimed,
+      c?.totalVerified,
+    ]);
+
+    partD.push([
+      ...identity,
+      d?.portfolioType,
+      d?.instituteLevelPortfolio,
+      d?.departmentLevelPortfolio,
+      d?.selfAwardedMarks,
+      d?.deanMarks,
+      d?.hodMarks,
+      d?.isAdministrativeRole ? d.administrativeRole : '',
+      d?.adminSelfAwardedMarks,
+      d?.directorMarks,
+      d?.adminDeanMarks,
+      d?.totalClaimed,
+      d?.totalVerified,
+    ]);
+
+    partE.push([...identity, e?.bulletPoints, e?.totalClaimed, e?.totalVerified]);
+  }
+
+  return [
+    { name: 'Summary', rows: summary },
+    { name: 'Part A', rows: partA },
+    { name: 'Part A Courses', rows: partACourses },
+    { name: 'Part B', rows: partB },
+    { name: 'Part C', rows: partC },
+    { name: 'Part D', rows: partD },
+    { name: 'Part E', rows: partE },
+  ];
+};
+
+export const exportAppraisalsXlsx = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const requestingUser = req.user!;
+    const cycle = req.cycle!;
+
+    let departments = queryList(req.query.department);
+    const designations = queryList(req.query.designation);
+    const roles = queryList(req.query.role);
+    const statuses = queryList(req.query.status);
+
+    const filters: [string, string[], readonly string[]][] = [
+      ['department', departments, DEPARTMENT.map((option) => option.value)],
+      ['designation', designations, DESIGNATION.map((option) => option.value)],
+      ['role', roles, ROLE.map((option) => option.value)],
+      ['status', statuses, Object.values(APPRAISAL_STATUS)],
+    ];
+    for (const [name, values, allowed] of filters) {
+      const unknown = values.filter((value) => !allowed.includes(value));
+      if (unknown.length > 0) {
+        sendError(res, `Unknown ${name}: ${unknown.join(', ')}`, HttpStatus.BAD_REQUEST, { allowed });
+        return;
+      }
+    }
+
+    // Same visibility as the department listing: HODs see their own faculty only
+    const userQuery: Record<string, unknown> = {};
+    const roleQuery: Record<string, unknown> = {};
+    if (roles.length > 0) roleQuery.$in = roles;
+    if (requestingUser.role === 'hod') {
+      const ownDepartment = await findHodDepartment(requestingUser.userId);
+      if (!ownDepartment || departments.some((department) => department !== ownDepartment)) {
+        sendError(res, 'HODs can only export their own department', HttpStatus.FORBIDDEN);
+        return;
+      }
+      departments = [ownDepartment];
+      roleQuery.$nin = HOD_HIDDEN_ROLES;
+    }
+    if (departments.length > 0) userQuery.department = { $in: departments };
+    if (Object.keys(roleQuery).length > 0) userQuery.role = roleQuery;
+
+    const users = await User.find(userQuery, { userId: 1, name: 1, department: 1, _id: 0 }).lean();
+    const faculty = new Map(users.map((user) => [user.userId, { name: user.name, department: user.department ?? '' }]));
+
+    const appraisalQuery: Record<string, unknown> = { userId: { $in: [...faculty.keys()] }, appraisalYear: cycle.year };
+    if (designations.length > 0) appraisalQuery.designation = { $in: designations };
+    if (statuses.length > 0) appraisalQuery.status = { $in: statuses };
+
+    const appraisals = (
+      await FacultyAppraisal.find(appraisalQuery)
+        .select('userId designation role status partA partB partC partD partE summary')
+        .lean<ExportedAppraisal[]>()
+    )
+      // The director's own row follows the same publication rule as their dashboard
+      .map((appraisal) => (appraisal.userId === requestingUser.userId ? redactUnpublishedScores(appraisal) : appraisal));
+
+    const sortKey = (appraisal: ExportedAppraisal) => {
+      const user = faculty.get(appraisal.userId);
+      return `${user?.department ?? ''}\u0000${user?.name ?? ''}`;
+    };
+    appraisals.sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+
+    const workbook = buildXlsx(buildAppraisalSheets(appraisals, faculty));
+    const scope = departments.length === 1 ? departments[0] : 'all';
+
+    res.setHeader('Content-Type', XLSX_CONTENT_TYPE);
+    res.setHeader('Content-Disposition', `attachment; filename="${scope}_${cycle.label}_appraisals.xlsx"`);
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.send(workbook);
+  } catch (error) {
+    console.error('exportAppraisalsXlsx error:', error);
+    sendError(res, 'Failed to export appraisals', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
@@ -6,3 +6,13 @@ export * from './appraisal.handler';
 export * from './pdf.handler';
 export * from './document.handler';
 export * from './interaction.handler';
+export * from './rubric.handler';
+export * from './cycle.handler';
+export * from './duplicateClaims.handler';
+export * from './courseResults.handler';
+export * from './course.handler';
+export * from './storage.handler';
+
+export * from './reportTemplate.handler';
+export * from './job.handler';
+export * from './export.handler';
\ No newline at end of file
@@ -3,8 +3,12 @@ import { User } from '../models/user';
 import InteractionDean from '../models/interactionDean';
 import InteractionEvaluation from '../models/interactionEvaluation';
 import { FacultyAppraisal } from '../models/detailedAppraisal';
-import { APPRAISAL_STATUS } from '../constant';
+import { APPRAISAL_STATUS, APPRAISAL_EVENTS } from '../constant';
 import { hashPassword } from '../utils/password';
+import { resolveRubricRules } from '../utils/scoring';
+import { type InteractionCriterion } from '../constant/scoring';
+import { getClosedWindowReason } from '../utils/cycle';
+import { findTransitionError, transitionAppraisal } from '../utils/appraisalStateMachine';
 
 interface ExternalFacultyInput {
   full_name: string;
@@ -48,6 +52,7 @@ export const getInteractionPendingFaculty = async (req: Request, res: Response)
     // Find which of these have "Interaction Pending" appraisal status
     const pendingAppraisals = await FacultyAppraisal.find({
       userId: { $in: userIds },
+      appraisalYear: req.cycle!.year,
       status: APPRAISAL_STATUS.INTERACTION_PENDING,
     }).select('userId');
 
@@ -543,18 +548,39 @@ export const submitInteractionEvaluation = async (req: Request, res: Response) =
       });
     }
 
-    // Validate marks ranges
-    if (
-      knowledge < 0 || knowledge > 20 ||
-      skills < 0 || skills > 20 ||
-      attributes < 0 || attributes > 10 ||
-      outcomesInitiatives < 0 || outcomesInitiatives > 20 ||
-      selfBranching < 0 || selfBranching > 10 ||
-      teamPerformance < 0 || teamPerformance > 20
-    ) {
+    const closedReason = getClosedWindowReason(req.cycle!, 'interaction');
+    if (closedReason) {
+      return res.status(403).json({
+        success: false,
+        message: closedReason,
+      });
+    }
+
+    // Validate marks ranges against the rubric pinned to the faculty's appraisal
+    const appraisalYear = req.cycle!.year;
+    const rules = await resolveRubricRules(
+      await FacultyAppraisal.findOne({ userId: facultyId, appraisalYear })
+    );
+    const marks: Record<InteractionCriterion, number> = {
+      knowledge,
+      skills,
+      attributes,
+      outcomesInitiatives,
+      selfBranching,
+      teamPerformance,
+    };
+    const outOfRange = (Object.keys(marks) as InteractionCriterion[]).filter(
+      (criterion) =>
+        typeof marks[criterion] !== 'number' ||
+        marks[criterion] < 0 ||
+        marks[criterion] > rules.interactionCriteria[criterion]
+    );
+    if (outOfRange.length > 0) {
       return res.status(400).json({
         success: false,
         message: 'Marks exceed allowed limits',
+        limits: rules.interactionCriteria,
+        invalid: outOfRange,
       });
     }
 
@@ -599,6 +625,7 @@ export const submitInteractionEvaluation = async (req: Request, res: Response) =
     let evaluation = await InteractionEvaluation.findOne({
       facultyId,
       externalId,
+      appraisalYear,
       // department,
     });
 
@@ -610,6 +637,7 @@ export const submitInteractionEvaluation = async (req: Request, res: Response) =
         externalId,
         externalName: external.name,
         department,
+        appraisalYear,
       });
     }
 
@@ -648,10 +676,12 @@ export const submitInteractionEvaluation = async (req: Request, res: Response) =
 
     // When all three evaluations are done, mark the faculty's appraisal as Completed
     if (evaluation.isCompleted) {
-      await FacultyAppraisal.findOneAndUpdate(
-        { userId: facultyId, status: APPRAISAL_STATUS.INTERACTION_PENDING },
-        { status: APPRAISAL_STATUS.COMPLETED }
-      );
+      const appraisal = await FacultyAppraisal.findOne({ userId: facultyId, appraisalYear });
+      const context = { interactionComplete: true, remark: 'All interaction evaluations received' };
+      if (appraisal && !findTransitionError(appraisal, APPRAISAL_EVENTS.COMPLETE_INTERACTION, req.user!, context)) {
+        transitionAppraisal(appraisal, APPRAISAL_EVENTS.COMPLETE_INTERACTION, req.user!, context);
+        await appraisal.save();
+      }
     }
 
     return res.status(200).json({
@@ -687,6 +717,7 @@ export const getInteractionEvaluation = async (req: Request, res: Response) => {
     const evaluation = await InteractionEvaluation.findOne({
       facultyId,
       externalId,
+      appraisalYear: req.cycle!.year,
       // department,
     });
 
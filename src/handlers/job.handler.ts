@@ -0,0 +1,74 @@
+import { Request, Response } from 'express';
+import { GenerationJob, GENERATION_JOB_STATUS, type IGenerationJob } from '../models/generationJob';
+import { sendSuccess, sendError, HttpStatus } from '../utils/response';
+import { getStorage } from '../utils/storage';
+import { type JobProcessors } from '../utils/jobQueue';
+import { processAppraisalPdfJob } from './pdf.handler';
+import { processAppraisalDocxJob } from './document.handler';
+import { processDepartmentExportJob } from './export.handler';
+
+/** What the workers started in index.ts run for each job type. */
+export const generationJobProcessors: JobProcessors = {
+  'appraisal-pdf': processAppraisalPdfJob,
+  'appraisal-docx': processAppraisalDocxJob,
+  'department-export': processDepartmentExportJob,
+};
+
+/**
+ * Job fields returned to the requester. A finished job links its file with a
+ * fresh signed URL; the storage location itself stays server-side.
+ */
+const toJobStatus = (job: IGenerationJob) => {
+  const result = job.status === GENERATION_JOB_STATUS.SUCCEEDED && job.result
+    ? {
+        url: getStorage(job.result.storageDriver).signedUrl(job.result.storageKey, {
+          fileName: job.result.fileName,
+          contentType: job.result.contentType,
+        }),
+        fileName: job.result.fileName,
+        size: job.result.size,
+        templateVersion: job.result.templateVersion,
+      }
+    : null;
+
+  return {
+    id: job._id,
+    type: job.type,
+    userId: job.userId,
+    appraisalYear: job.appraisalYear,
+    department: job.department,
+    status: job.status,
+    progress: job.progress,
+    stage: job.stage,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    // Set while a failed attempt waits for its retry
+    nextAttemptAt: job.status === GENERATION_JOB_STATUS.QUEUED && job.attempts > 0 ? job.runAfter : null,
+    error: job.lastError || null,
+    result,
+    createdAt: job.createdAt,
+    finishedAt: job.finishedAt,
+  };
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// JOB STATUS
+// GET /jobs/:jobId — progress, and the signed result URL once it succeeded
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const getJobStatus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const requestingUser = req.user!;
+    const job = await GenerationJob.findById(req.params.jobId).catch(() => null);
+    // Only the requester (or an admin) may follow a job; others get the same 404
+    if (!job || (job.requestedBy !== requestingUser.userId && requestingUser.role !== 'admin')) {
+      sendError(res, 'Job not found', HttpStatus.NOT_FOUND);
+      return;
+    }
+
+    sendSuccess(res, toJobStatus(job), 'Job status retrieved successfully');
+  } catch (error) {
+    console.error('getJobStatus error:', error);
+    sendError(res, 'Failed to retrieve job status', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
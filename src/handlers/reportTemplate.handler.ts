@@ -0,0 +1,336 @@
+import path from 'path';
+import { Request, Response } from 'express';
+import {
+  ReportTemplate,
+  REPORT_TEMPLATE_FORMATS,
+  REPORT_TEMPLATE_STATUS,
+  type IReportTemplate,
+  type ReportTemplateFormat,
+} from '../models/reportTemplate';
+import { FacultyAppraisal } from '../models/detailedAppraisal';
+import { PdfSnapshot } from '../models/pdfSnapshot';
+import { sendSuccess, sendError, HttpStatus } from '../utils/response';
+import { ApiError } from '../middleware/error.middleware';
+import { config } from '../config';
+import { getStorage } from '../utils/storage';
+import { sha256Of } from '../utils/evidence';
+import { resolveRubricRules } from '../utils/scoring';
+import {
+  buildSampleTemplateData,
+  findUnsuppliedPlaceholders,
+  loadAppraisalTemplateData,
+} from '../utils/appraisalTemplateData';
+import { listTemplatePlaceholders } from '../utils/templatePlaceholders';
+import {
+  REPORT_TEMPLATE_CONTENT_TYPES,
+  detectReportTemplateFormat,
+  loadReportTemplateFile,
+  reportTemplateStorageKey,
+} from '../utils/reportTemplates';
+import { fillPdfTemplate } from './pdf.handler';
+import { fillDocxTemplate } from './document.handler';
+
+/**
+ * Find a template by id and return 404 if missing.
+ */
+async function findTemplateOrFail(res: Response, id: string): Promise<IReportTemplate | null> {
+  const template = await ReportTemplate.findById(id).catch(() => null);
+  if (!template) {
+    sendError(res, 'Report template not found', HttpStatus.NOT_FOUND);
+    return null;
+  }
+  return template;
+}
+
+/**
+ * Guard: only drafts may be deleted or published. Published versions are
+ * recorded against the PDFs they produced and must stay available.
+ */
+function assertTemplateDraft(res: Response, template: IReportTemplate): boolean {
+  if (template.status !== REPORT_TEMPLATE_STATUS.DRAFT) {
+    sendError(
+      res,
+      `Template v${template.version} (${template.format}) for ${template.appraisalYear} is published and cannot be changed. Upload a new version instead.`,
+      HttpStatus.CONFLICT
+    );
+    return false;
+  }
+  return true;
+}
+
+/** Template fields returned to admins (storage location stays server-side). */
+const toTemplateDetails = (template: IReportTemplate) => {
+  const { storageDriver, storageKey, ...details } = template.toObject();
+  return details;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// READ
+// GET /admin/report-templates?year=2025&format=pdf
+// GET /admin/report-templates/:id
+// GET /admin/report-templates/:id/file
+// GET /admin/report-templates/:id/preview?userId=F001
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const getReportTemplates = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const filter: Record<string, unknown> = {};
+    if (req.query.year !== undefined) {
+      const year = Number(req.query.year);
+      if (!Number.isInteger(year)) {
+        sendError(res, '"year" must be an integer', HttpStatus.BAD_REQUEST);
+        return;
+      }
+      filter.appraisalYear = year;
+    }
+    if (req.query.format !== undefined) {
+      if (!REPORT_TEMPLATE_FORMATS.includes(req.query.format as ReportTemplateFormat)) {
+        sendError(res, `"format" must be one of ${REPORT_TEMPLATE_FORMATS.join(', ')}`, HttpStatus.BAD_REQUEST);
+        return;
+      }
+      filter.format = req.query.format;
+    }
+
+    const templates = await ReportTemplate.find(filter)
+      .select('-storageDriver -storageKey -placeholders')
+      .sort({ appraisalYear: -1, format: 1, version: -1 });
+
+    sendSuccess(res, templates, 'Report templates retrieved successfully');
+  } catch (error) {
+    console.error('getReportTemplates error:', error);
+    sendError(res, 'Failed to retrieve report templates', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+export const getReportTemplateById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const template = await findTemplateOrFail(res, req.params.id);
+    if (!template) return;
+
+    const [appraisals, snapshots] = await Promise.all([
+      FacultyAppraisal.countDocuments({ pdfTemplateId: template._id }),
+      PdfSnapshot.countDocuments({ templateId: template._id }),
+    ]);
+
+    sendSuccess(
+      res,
+      { ...toTemplateDetails(template), usedBy: { appraisals, snapshots } },
+      'Report template retrieved successfully'
+    );
+  } catch (error) {
+    console.error('getReportTemplateById error:', error);
+    sendError(res, 'Failed to retrieve report template', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+/** The uploaded file as it was, for editing offline. */
+export const downloadReportTemplate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const template = await findTemplateOrFail(res, req.params.id);
+    if (!template) return;
+
+    const file = await loadReportTemplateFile(template);
+    res.setHeader('Content-Type', REPORT_TEMPLATE_CONTENT_TYPES[template.format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${template.fileName}"`);
+    res.setHeader('Content-Length', file.length);
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.end(file);
+  } catch (error) {
+    console.error('downloadReportTemplate error:', error);
+    sendError(res, 'Failed to load report template', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+/**
+ * Fills the template and returns the PDF. With `userId` it uses that
+ * faculty's appraisal for the template's year, so a PDF recorded against this
+ * version can be produced again; otherwise it uses sample data.
+ */
+export const previewReportTemplate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const template = await findTemplateOrFail(res, req.params.id);
+    if (!template) return;
+
+    const userId = typeof req.query.userId === 'string' ? req.query.userId.trim() : '';
+    const data = userId
+      ? await loadAppraisalTemplateData(userId, template.appraisalYear)
+      : buildSampleTemplateData(
+          template.appraisalYear,
+          await resolveRubricRules({ appraisalYear: template.appraisalYear })
+        );
+
+    const file = await loadReportTemplateFile(template);
+    const pdf = template.format === 'pdf' ? await fillPdfTemplate(file, data) : await fillDocxTemplate(file, data);
+
+    const previewName = `${path.parse(template.fileName).name}_v${template.version}_preview.pdf`;
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${previewName}"`);
+    res.setHeader('Content-Length', pdf.length);
+    res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate');
+    res.end(pdf);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      sendError(res, error.message, error.statusCode, error.details);
+      return;
+    }
+    console.error('previewReportTemplate error:', error);
+    sendError(res, 'Failed to preview report template', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// WRITE
+// POST   /admin/report-templates?cycle=2025-26&fileName=form.pdf  — raw body, new draft version
+// POST   /admin/report-templates/:id/publish                      — use it for the cycle's reports
+// DELETE /admin/report-templates/:id                              — discard a draft
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Stores the next version for the cycle and format. The format is read from
+ * the file itself; its placeholders are checked against the data builder and
+ * any the builder does not supply are returned (and block publishing).
+ */
+export const uploadReportTemplate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const cycle = req.cycle!;
+
+    // express.raw only parses the accepted types; anything else leaves no Buffer
+    const file = req.body;
+    if (!Buffer.isBuffer(file) || file.length === 0) {
+      sendError(
+        res,
+        `Send the template as the request body with Content-Type ${Object.values(REPORT_TEMPLATE_CONTENT_TYPES).join(' or ')}`,
+        HttpStatus.UNSUPPORTED_MEDIA_TYPE
+      );
+      return;
+    }
+    if (file.length > config.reportTemplateMaxBytes) {
+      sendError(res, `Templates are limited to ${config.reportTemplateMaxBytes} bytes`, HttpStatus.PAYLOAD_TOO_LARGE);
+      return;
+    }
+    const format = detectReportTemplateFormat(file);
+    if (!format || REPORT_TEMPLATE_CONTENT_TYPES[format] !== req.get('content-type')?.split(';')[0].trim().toLowerCase()) {
+      sendError(res, 'File contents do not match its Content-Type', HttpStatus.UNSUPPORTED_MEDIA_TYPE);
+      return;
+    }
+
+    let placeholders: string[];
+    try {
+      placeholders = (await listTemplatePlaceholders(format, file)).sort();
+    } catch {
+      sendError(res, `File could not be read as a ${format.toUpperCase()} template`, HttpStatus.BAD_REQUEST);
+      return;
+    }
+    if (placeholders.length === 0) {
+      sendError(res, 'No {placeholder} fields were found in the template', HttpStatus.BAD_REQUEST);
+      return;
+    }
+    const unsuppliedPlaceholders = findUnsuppliedPlaceholders(placeholders);
+
+    const sha256 = sha256Of(file);
+    const storage = getStorage();
+    const storageKey = reportTemplateStorageKey(cycle.year, format, sha256);
+    await storage.put(storageKey, file, REPORT_TEMPLATE_CONTENT_TYPES[format]);
+
+    const latest = await ReportTemplate.findOne({ appraisalYear: cycle.year, format }).sort({ version: -1 });
+    const fileName = path.basename(String(req.query.fileName ?? '').trim()) || `template.${format}`;
+    const template = await ReportTemplate.create({
+      appraisalYear: cycle.year,
+      format,
+      version: (latest?.version ?? 0) + 1,
+      status: REPORT_TEMPLATE_STATUS.DRAFT,
+      fileName,
+      sha256,
+      size: file.length,
+      storageDriver: storage.driver,
+      storageKey,
+      placeholders,
+      unsuppliedPlaceholders,
+      notes: typeof req.query.notes === 'string' ? req.query.notes : '',
+      createdBy: req.user!.userId,
+    });
+
+    let message = `Template v${template.version} (${format}) for ${cycle.label} uploaded as draft`;
+    if (unsuppliedPlaceholders.length > 0) {
+      message += `; ${unsuppliedPlaceholders.length} placeholder(s) have no data and must be fixed before publishing`;
+    }
+
+    sendSuccess(res, toTemplateDetails(template), message, HttpStatus.CREATED);
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      sendError(res, 'Another version was uploaded concurrently; please retry', HttpStatus.CONFLICT);
+      return;
+    }
+    console.error('uploadReportTemplate error:', error);
+    sendError(res, 'Failed to upload report template', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+export const publishReportTemplate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const template = await findTemplateOrFail(res, req.params.id);
+    if (!template) return;
+    if (!assertTemplateDraft(res, template)) return;
+
+    if (template.unsuppliedPlaceholders.length > 0) {
+      sendError(
+        res,
+        'The template uses placeholders the report data does not supply',
+        HttpStatus.BAD_REQUEST,
+        template.unsuppliedPlaceholders
+      );
+      return;
+    }
+
+    const newer = await ReportTemplate.exists({
+      appraisalYear: template.appraisalYear,
+      format: template.format,
+      status: REPORT_TEMPLATE_STATUS.PUBLISHED,
+      version: { $gt: template.version },
+    });
+    if (newer) {
+      sendError(
+        res,
+        'A newer version for this year is already published; upload a new version instead',
+        HttpStatus.CONFLICT
+      );
+      return;
+    }
+
+    template.status = REPORT_TEMPLATE_STATUS.PUBLISHED;
+    template.publishedBy = req.user!.userId;
+    template.publishedAt = new Date();
+    await template.save();
+
+    sendSuccess(
+      res,
+      toTemplateDetails(template),
+      `Template v${template.version} published. ${template.appraisalYear} ${template.format.toUpperCase()} reports will be filled from it.`
+    );
+  } catch (error) {
+    console.error('publishReportTemplate error:', error);
+    sendError(res, 'Failed to publish report template', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+export const deleteReportTemplate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const template = await findTemplateOrFail(res, req.params.id);
+    if (!template) return;
+    if (!assertTemplateDraft(res, template)) return;
+
+    await template.deleteOne();
+
+    // Uploads are content-addressed: another version may hold the same file
+    const stillUsed = await ReportTemplate.exists({
+      storageDriver: template.storageDriver,
+      storageKey: template.storageKey,
+    });
+    if (!stillUsed) await getStorage(template.storageDriver).delete(template.storageKey);
+
+    sendSuccess(res, null, 'Draft report template deleted');
+  } catch (error) {
+    console.error('deleteReportTemplate error:', error);
+    sendError(res, 'Failed to delete report template', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
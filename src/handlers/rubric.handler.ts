@@ -0,0 +1,215 @@
+import { Request, Response } from 'express';
+import { Rubric, RUBRIC_STATUS, type IRubric } from '../models/rubric';
+import { FacultyAppraisal } from '../models/detailedAppraisal';
+import { sendSuccess, sendError, HttpStatus } from '../utils/response';
+import { DEFAULT_RUBRIC_RULES } from '../constant/scoring';
+import { mergeRubricRules, findRubricErrors } from '../utils/scoring';
+
+/**
+ * Find a rubric by id and return 404 if missing.
+ */
+async function findRubricOrFail(res: Response, id: string): Promise<IRubric | null> {
+  const rubric = await Rubric.findById(id).catch(() => null);
+  if (!rubric) {
+    sendError(res, 'Rubric not found', HttpStatus.NOT_FOUND);
+    return null;
+  }
+  return rubric;
+}
+
+/**
+ * Guard: only draft rubrics may be changed. Published versions are pinned by
+ * appraisals and must stay exactly as they were.
+ */
+function assertRubricDraft(res: Response, rubric: IRubric): boolean {
+  if (rubric.status !== RUBRIC_STATUS.DRAFT) {
+    sendError(
+      res,
+      `Rubric v${rubric.version} for ${rubric.appraisalYear} is published and cannot be changed. Create a new version instead.`,
+      HttpStatus.CONFLICT
+    );
+    return false;
+  }
+  return true;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// READ
+// GET /admin/rubrics?year=2025
+// GET /admin/rubrics/default
+// GET /admin/rubrics/:id
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const getRubrics = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const filter: Record<string, unknown> = {};
+    if (req.query.year !== undefined) {
+      const year = Number(req.query.year);
+      if (!Number.isInteger(year)) {
+        sendError(res, '"year" must be an integer', HttpStatus.BAD_REQUEST);
+        return;
+      }
+      filter.appraisalYear = year;
+    }
+
+    const rubrics = await Rubric.find(filter)
+      .select('appraisalYear version status notes createdBy publishedBy publishedAt createdAt updatedAt')
+      .sort({ appraisalYear: -1, version: -1 });
+
+    sendSuccess(res, rubrics, 'Rubrics retrieved successfully');
+  } catch (error) {
+    console.error('getRubrics error:', error);
+    sendError(res, 'Failed to retrieve rubrics', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+export const getDefaultRubric = (_req: Request, res: Response): void => {
+  sendSuccess(res, { rules: DEFAULT_RUBRIC_RULES }, 'Built-in rubric retrieved successfully');
+};
+
+export const getRubricById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rubric = await findRubricOrFail(res, req.params.id);
+    if (!rubric) return;
+
+    const pinnedAppraisals = await FacultyAppraisal.countDocuments({ rubricId: rubric._id });
+
+    sendSuccess(res, { ...rubric.toObject(), pinnedAppraisals }, 'Rubric retrieved successfully');
+  } catch (error) {
+    console.error('getRubricById error:', error);
+    sendError(res, 'Failed to retrieve rubric', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// WRITE
+// POST   /admin/rubrics              — new draft version for a year
+// PUT    /admin/rubrics/:id          — edit a draft
+// POST   /admin/rubrics/:id/publish  — freeze a draft and make it current
+// DELETE /admin/rubrics/:id          — discard a draft
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Creates the next version for `appraisalYear`. `rules` may be partial: it is
+ * merged over the latest existing version for that year (or the built-in rules).
+ */
+export const createRubric = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { appraisalYear, rules, notes } = req.body as {
+      appraisalYear: number;
+      rules?: unknown;
+      notes?: string;
+    };
+
+    if (!Number.isInteger(appraisalYear)) {
+      sendError(res, '"appraisalYear" must be an integer', HttpStatus.BAD_REQUEST);
+      return;
+    }
+
+    const latest = await Rubric.findOne({ appraisalYear }).sort({ version: -1 });
+    // Fields added to the rules since the latest version was written start from the built-in values
+    const merged = mergeRubricRules(mergeRubricRules(DEFAULT_RUBRIC_RULES, latest?.rules), rules);
+
+    const errors = findRubricErrors(merged);
+    if (errors.length > 0) {
+      sendError(res, 'Invalid rubric rules', HttpStatus.BAD_REQUEST, errors);
+      return;
+    }
+
+    const rubric = await Rubric.create({
+      appraisalYear,
+      version: (latest?.version ?? 0) + 1,
+      status: RUBRIC_STATUS.DRAFT,
+      rules: merged,
+      notes: typeof notes === 'string' ? notes : '',
+      createdBy: req.user!.userId,
+    });
+
+    sendSuccess(res, rubric, `Rubric v${rubric.version} for ${appraisalYear} created as draft`, HttpStatus.CREATED);
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      sendError(res, 'Another version was created concurrently; please retry', HttpStatus.CONFLICT);
+      return;
+    }
+    console.error('createRubric error:', error);
+    sendError(res, 'Failed to create rubric', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+export const updateRubric = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rubric = await findRubricOrFail(res, req.params.id);
+    if (!rubric) return;
+    if (!assertRubricDraft(res, rubric)) return;
+
+    const { rules, notes } = req.body as { rules?: unknown; notes?: string };
+
+    const merged = mergeRubricRules(mergeRubricRules(DEFAULT_RUBRIC_RULES, rubric.rules), rules);
+    const errors = findRubricErrors(merged);
+    if (errors.length > 0) {
+      sendError(res, 'Invalid rubric rules', HttpStatus.BAD_REQUEST, errors);
+      return;
+    }
+
+    rubric.rules = merged;
+    rubric.markModified('rules');
+    if (typeof notes === 'string') rubric.notes = notes;
+    await rubric.save();
+
+    sendSuccess(res, rubric, 'Rubric updated successfully');
+  } catch (error) {
+    console.error('updateRubric error:', error);
+    sendError(res, 'Failed to update rubric', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+export const publishRubric = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rubric = await findRubricOrFail(res, req.params.id);
+    if (!rubric) return;
+    if (!assertRubricDraft(res, rubric)) return;
+
+    const newer = await Rubric.exists({
+      appraisalYear: rubric.appraisalYear,
+      status: RUBRIC_STATUS.PUBLISHED,
+      version: { $gt: rubric.version },
+    });
+    if (newer) {
+      sendError(
+        res,
+        'A newer version for this year is already published; create a new version instead',
+        HttpStatus.CONFLICT
+      );
+      return;
+    }
+
+    rubric.status = RUBRIC_STATUS.PUBLISHED;
+    rubric.publishedBy = req.user!.userId;
+    rubric.publishedAt = new Date();
+    await rubric.save();
+
+    sendSuccess(
+      res,
+      rubric,
+      `Rubric v${rubric.version} published. New ${rubric.appraisalYear} appraisals will be scored with it.`
+    );
+  } catch (error) {
+    console.error('publishRubric error:', error);
+    sendError(res, 'Failed to publish rubric', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
+
+export const deleteRubric = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rubric = await findRubricOrFail(res, req.params.id);
+    if (!rubric) return;
+    if (!assertRubricDraft(res, rubric)) return;
+
+    await rubric.deleteOne();
+
+    sendSuccess(res, null, 'Draft rubric deleted');
+  } catch (error) {
+    console.error('deleteRubric error:', error);
+    sendError(res, 'Failed to delete rubric', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
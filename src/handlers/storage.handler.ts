@@ -0,0 +1,38 @@
+import { Request, Response } from 'express';
+import path from 'path';
+import { config } from '../config';
+import { sendError, HttpStatus } from '../utils/response';
+import { getStorage, verifyLocalSignedUrl } from '../utils/storage';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// LOCAL SIGNED URLS — the local storage backend's stand-in for a CDN link
+// GET /storage/files?key=&expires=&name=&type=&signature=
+// The signature is the only credential, as with S3 / Cloudinary signed URLs.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const serveSignedFile = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const granted = verifyLocalSignedUrl(config.storageUrlSecret, req.query);
+    if (!granted) {
+      sendError(res, 'Link is invalid or has expired', HttpStatus.FORBIDDEN);
+      return;
+    }
+
+    const file = await getStorage('local').get(granted.key);
+    if (!file) {
+      sendError(res, 'File not found', HttpStatus.NOT_FOUND);
+      return;
+    }
+
+    const fileName = (granted.fileName || path.posix.basename(granted.key)).replace(/["\\\r\n]/g, '_');
+    res.setHeader('Content-Type', granted.contentType || 'application/octet-stream');
+    res.setHeader('Content-Length', file.length);
+    res.setHeader('Content-Disposition', `inline; filename="${fileName}"`);
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.status(HttpStatus.OK).send(file);
+  } catch (error) {
+    console.error('serveSignedFile error:', error);
+    sendError(res, 'Failed to serve file', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
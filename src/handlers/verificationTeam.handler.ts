@@ -2,7 +2,13 @@ import { Request, Response } from 'express';
 import { User } from '../models/user';
 import { VerificationTeam } from '../models/verificationTeam';
 import { FacultyAppraisal } from '../models/detailedAppraisal';
-import { APPRAISAL_STATUS } from '../constant/appraisal';
+import { APPRAISAL_STATUS, APPRAISAL_EVENTS } from '../constant/appraisal';
+import { computePartB, toAcademicCadre, resolveRubricRules, getPartBItem } from '../utils/scoring';
+import { parseEntryDecisions, applyEntryDecisions, findUndecidedEntries } from '../utils/partBVerification';
+import { findCycleDuplicateClaims, getSharingPolicy } from '../utils/duplicateClaims';
+import { getClosedWindowReason } from '../utils/cycle';
+import { openRevision, parseRevisionRequest } from '../utils/revision';
+import { findTransitionError, transitionAppraisal } from '../utils/appraisalStateMachine';
 
 interface VerificationTeamPayload {
   department: string;
@@ -265,6 +271,7 @@ export const getAssignedFaculties = async (
     // Get appraisal status for all faculties
     const appraisals = await FacultyAppraisal.find({ 
       userId: { $in: allFacultyIds },
+      appraisalYear: req.cycle!.year,
       status: APPRAISAL_STATUS.VERIFICATION_PENDING
     });
     const appraisalMap = new Map(appraisals.map(a => [a.userId, a]));
@@ -360,11 +367,14 @@ export const getPartBForVerification = async (
     }
 
     // Get appraisal data
-    const appraisal = await FacultyAppraisal.findOne({ userId: facultyId });
+    const appraisal = await FacultyAppraisal.findOne({
+      userId: facultyId,
+      appraisalYear: req.cycle!.year
+    });
     if (!appraisal) {
       return res.status(404).json({
         success: false,
-        message: 'Appraisal not found for this faculty'
+        message: `Appraisal not found for this faculty in ${req.cycle!.label}`
       });
     }
 
@@ -376,6 +386,9 @@ export const getPartBForVerification = async (
       });
     }
 
+    // Works this faculty also claims elsewhere, or that colleagues claim too
+    const duplicates = await findCycleDuplicateClaims(appraisal.appraisalYear, facultyId);
+
     return res.status(200).json({
       success: true,
       message: 'Part B data retrieved successfully',
@@ -389,7 +402,9 @@ export const getPartBForVerification = async (
         },
         appraisalYear: appraisal.appraisalYear,
         appraisalStatus: appraisal.status,
-        partB: appraisal.partB
+        partB: appraisal.partB,
+        sharingPolicy: getSharingPolicy(),
+        duplicates
       }
     });
 
@@ -403,7 +418,9 @@ export const getPartBForVerification = async (
   }
 };
 
-// Finalize verification - save verified marks and update status
+// Finalize verification - accept/reject each Part B entry, save verified marks and update status
+// Body: { decisions: [{ entryId, status: 'accepted' | 'rejected', remark }],
+//         verifiedScores?: { papers_sci: { marks } } — only for items recorded before entries existed }
 export const finalizeVerification = async (
   req: Request<{ facultyId: string }>,
   res: Response
@@ -411,7 +428,7 @@ export const finalizeVerification = async (
   try {
     const verifierId = req.user?.userId;
     const { facultyId } = req.params;
-    const { verifiedScores, finalTotal } = req.body;
+    const { verifiedScores } = req.body;
 
     if (!verifierId) {
       return res.status(401).json({
@@ -420,10 +437,27 @@ export const finalizeVerification = async (
       });
     }
 
-    if (!verifiedScores || typeof verifiedScores !== 'object') {
+    if (verifiedScores !== undefined && (!verifiedScores || typeof verifiedScores !== 'object')) {
+      return res.status(400).json({
+        success: false,
+        message: 'Verified scores must be an object keyed by Part B item'
+      });
+    }
+
+    const { decisions, errors } = parseEntryDecisions(req.body.decisions);
+    if (errors.length > 0) {
       return res.status(400).json({
         success: false,
-        message: 'Verified scores are required'
+        message: 'Invalid entry decisions',
+        errors
+      });
+    }
+
+    const closedReason = getClosedWindowReason(req.cycle!, 'verification');
+    if (closedReason) {
+      return res.status(403).json({
+        success: false,
+        message: closedReason
       });
     }
 
@@ -441,55 +475,65 @@ export const finalizeVerification = async (
     }
 
     // Get appraisal data
-    const appraisal = await FacultyAppraisal.findOne({ userId: facultyId });
+    const appraisal = await FacultyAppraisal.findOne({
+      userId: facultyId,
+      appraisalYear: req.cycle!.year
+    });
     if (!appraisal) {
       return res.status(404).json({
         success: false,
-        message: 'Appraisal not found for this faculty'
+        message: `Appraisal not found for this faculty in ${req.cycle!.label}`
       });
     }
 
-    // Check if the appraisal status is Verification Pending
-    if (appraisal.status !== APPRAISAL_STATUS.VERIFICATION_PENDING) {
-      return res.status(403).json({
+    // Check the appraisal can move on before applying any scores
+    const verifier = { userId: verifierId, role: 'verifier' };
+    const transitionError = findTransitionError(appraisal, APPRAISAL_EVENTS.VERIFY_PART_B, verifier);
+    if (transitionError) {
+      return res.status(transitionError.statusCode).json({
         success: false,
-        message: `Cannot verify faculty. Current status is "${appraisal.status}". Verification is only allowed for "Verification Pending" status.`
+        message: transitionError.message,
+        details: transitionError.details
       });
     }
 
-    // Update verified marks in Part B
-    // The verifiedScores object has keys like "papers_sci", "conferences_scopus", etc.
-    // We need to map them to the nested structure in partB
-    Object.keys(verifiedScores).forEach(key => {
-      const marks = verifiedScores[key]?.marks || 0;
-      
-      // Parse the key to get section and subsection
-      const parts = key.split('_');
-      
-      if (parts.length >= 2) {
-        // Nested structure: section_subsection (e.g., papers_sci)
-        const section = parts[0]; // papers, conferences, bookChapters, etc.
-        const subsection = parts[1]; // sci, esci, scopus, etc.
-        
-        // Update the verified field in the nested structure
-        if (appraisal.partB && (appraisal.partB as any)[section] && (appraisal.partB as any)[section][subsection]) {
-          (appraisal.partB as any)[section][subsection].verified = marks;
-        }
-      } else {
-        // Single field (e.g., revenueTraining, placement)
-        if (appraisal.partB && (appraisal.partB as any)[key]) {
-          (appraisal.partB as any)[key].verified = marks;
-        }
+    const partB = appraisal.toObject().partB;
+
+    // Items recorded before entries existed are still verified as a whole.
+    // The verifiedScores keys look like "papers_sci", "conferences_scopus", "placement".
+    Object.keys(verifiedScores ?? {}).forEach(key => {
+      const item = getPartBItem(partB, key);
+      if (item && !item.entries?.length) {
+        item.verified = verifiedScores[key]?.marks || 0;
       }
     });
 
-    // Update totalVerified in Part B
-    if (finalTotal !== undefined && finalTotal !== null) {
-      appraisal.partB.totalVerified = finalTotal;
+    const unknownEntries = applyEntryDecisions(partB, decisions, verifierId);
+    if (unknownEntries.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Some decisions refer to entries that are not in this appraisal',
+        unknownEntries
+      });
+    }
+
+    const undecided = findUndecidedEntries(partB);
+    if (undecided.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Every Part B entry must be accepted or rejected before verification is finalized',
+        undecided
+      });
     }
 
+    // Recompute verified marks from the accepted entries; any client total is ignored.
+    // Verified marks are capped at the claimed marks for the same item.
+    const rules = await resolveRubricRules(appraisal);
+    const score = computePartB(partB, toAcademicCadre(appraisal.designation), rules);
+    appraisal.set('partB', score.partB);
+
     // Update status to Portfolio Marks Pending
-    appraisal.status = APPRAISAL_STATUS.PORTFOLIO_MARKING_PENDING;
+    transitionAppraisal(appraisal, APPRAISAL_EVENTS.VERIFY_PART_B, verifier, { remark: 'Part B verified' });
 
     // Save the appraisal
     await appraisal.save();
@@ -499,7 +543,8 @@ export const finalizeVerification = async (
       message: 'Verification finalized successfully. Status updated to Portfolio Marks Pending.',
       data: {
         facultyId,
-        status: appraisal.status
+        status: appraisal.status,
+        totalVerified: score.totalVerified
       }
     });
 
@@ -512,3 +557,93 @@ export const finalizeVerification = async (
     });
   }
 };
+
+// Return an appraisal to the faculty because Part B needs changes (e.g. broken proof links)
+export const returnForRevisionByVerifier = async (
+  req: Request<{ facultyId: string }>,
+  res: Response
+) => {
+  try {
+    const verifierId = req.user?.userId;
+    const { facultyId } = req.params;
+
+    if (!verifierId) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+    }
+
+    // The verification team only reviews Part B, so that is all it can reopen
+    const { parts, reason, errors } = parseRevisionRequest({ parts: ['partB'], ...req.body });
+    if (errors.length > 0 || parts.some(p => p.part !== 'partB')) {
+      return res.status(400).json({
+        success: false,
+        message: 'Verifiers can only return Part B, with a reason',
+        errors
+      });
+    }
+
+    // Check if this faculty is assigned to this verifier
+    const verificationTeam = await VerificationTeam.findOne({
+      userId: verifierId,
+      faculties: facultyId
+    });
+
+    if (!verificationTeam) {
+      return res.status(403).json({
+        success: false,
+        message: 'You are not authorized to verify this faculty'
+      });
+    }
+
+    const appraisal = await FacultyAppraisal.findOne({
+      userId: facultyId,
+      appraisalYear: req.cycle!.year
+    });
+    if (!appraisal) {
+      return res.status(404).json({
+        success: false,
+        message: `Appraisal not found for this faculty in ${req.cycle!.label}`
+      });
+    }
+
+    const transitionError = findTransitionError(appraisal, APPRAISAL_EVENTS.REQUEST_REVISION, {
+      userId: verifierId,
+      role: 'verifier'
+    });
+    if (transitionError) {
+      return res.status(transitionError.statusCode).json({
+        success: false,
+        message: transitionError.message,
+        details: transitionError.details
+      });
+    }
+
+    openRevision(appraisal, {
+      parts,
+      reason,
+      requestedBy: verifierId,
+      requestedByRole: 'verifier'
+    });
+    await appraisal.save();
+
+    return res.status(200).json({
+      success: true,
+      message: 'Appraisal returned to the faculty for Part B revision',
+      data: {
+        facultyId,
+        status: appraisal.status,
+        revision: appraisal.revisions[appraisal.revisions.length - 1]
+      }
+    });
+
+  } catch (error) {
+    console.error('Error returning appraisal for revision:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to return appraisal for revision',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
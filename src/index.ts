@@ -8,6 +8,10 @@ import { config } from "./config";
 import routes from "./routes";
 import { errorHandler, notFoundHandler } from "./middleware/error.middleware";
 import connectDB from "./config/database";
+import { reportTemplatePlaceholders } from "./utils/templatePlaceholders";
+import { runMigrations } from "./utils/migrations";
+import { startJobWorkers, stopJobWorkers } from "./utils/jobQueue";
+import { generationJobProcessors } from "./handlers/job.handler";
 const app: Application = express();
 
 // app.use(helmet());
@@ -40,6 +44,9 @@ app.use(errorHandler);
 const startServer = async (): Promise<void> => {
   try {
     await connectDB();
+    await runMigrations();
+    await reportTemplatePlaceholders();
+    startJobWorkers(generationJobProcessors);
     
     const server = app.listen(config.port, () => {
       console.log(`🚀 Server running on port: ${config.port}`);
@@ -53,6 +60,10 @@ const startServer = async (): Promise<void> => {
       server.close(async () => {
         console.log('🔌 HTTP server closed');
 
+        // Let report generation in progress finish before the database goes away
+        await stopJobWorkers();
+        console.log('🧾 Report generation workers stopped');
+
         try {
           await mongoose.disconnect();
           console.log('📤 Disconnected from MongoDB');
@@ -0,0 +1,41 @@
+import { Request, Response, NextFunction } from 'express';
+import { resolveCycle, type ResolvedCycle } from '../utils/cycle';
+import { sendError, HttpStatus } from '../utils/response';
+import { ApiError } from './error.middleware';
+
+// Extend Express Request to include the appraisal cycle
+declare global {
+  namespace Express {
+    interface Request {
+      cycle?: ResolvedCycle;
+    }
+  }
+}
+
+/**
+ * Resolves the appraisal cycle from `?cycle=2025` / `?cycle=2025-26`, falling
+ * back to the active cycle, and attaches it to `req.cycle`. A named year with
+ * no cycle set up is a 404.
+ */
+export const cycleMiddleware = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const cycle = await resolveCycle(req.query.cycle);
+    if (!cycle) {
+      sendError(res, '"cycle" must look like 2025 or 2025-26', HttpStatus.BAD_REQUEST);
+      return;
+    }
+    req.cycle = cycle;
+    next();
+  } catch (error) {
+    if (error instanceof ApiError) {
+      sendError(res, error.message, error.statusCode, error.details);
+      return;
+    }
+    console.error('cycleMiddleware error:', error);
+    sendError(res, 'Failed to resolve appraisal cycle', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+};
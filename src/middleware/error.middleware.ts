@@ -55,6 +55,12 @@ export const errorHandler = (
     return;
   }
 
+  // Body over a parser's size limit (express.json / text / raw)
+  if ((error as any).type === 'entity.too.large') {
+    sendError(res, 'Request body is too large', HttpStatus.PAYLOAD_TOO_LARGE);
+    return;
+  }
+
   // JWT errors
   if (error.name === 'JsonWebTokenError') {
     sendError(res, 'Invalid token', HttpStatus.UNAUTHORIZED);
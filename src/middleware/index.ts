@@ -1,3 +1,4 @@
 export * from './auth.middleware';
 export * from './error.middleware';
 export * from './validators';
+export * from './cycle.middleware';
@@ -0,0 +1,59 @@
+import { Schema, model, Document, models } from "mongoose";
+
+export const CYCLE_WINDOWS = ["submission", "verification", "interaction"] as const;
+export type CycleWindow = typeof CYCLE_WINDOWS[number];
+
+export interface ICycleWindow {
+  opensAt?: Date;
+  closesAt?: Date;
+}
+
+export interface IAppraisalCycle extends Document {
+  /**
+   * First calendar year of the academic year. 2025 means
+   * 1st April 2025 to 31st March 2026, and matches FacultyAppraisal.appraisalYear.
+   */
+  year: number;
+  /** Display label, e.g. "2025-26". */
+  label: string;
+  startDate: Date;
+  endDate: Date;
+  /** Unset bounds are treated as open-ended. */
+  submissionWindow: ICycleWindow;
+  verificationWindow: ICycleWindow;
+  interactionWindow: ICycleWindow;
+  /** Exactly one cycle is active; it is used when a request names no cycle. */
+  isActive: boolean;
+  /** Set when the director first publishes results; faculty see verified scores after that. */
+  resultsPublishedAt?: Date;
+  resultsPublishedBy?: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const cycleWindow = {
+  opensAt: { type: Date },
+  closesAt: { type: Date },
+};
+
+const appraisalCycleSchema = new Schema<IAppraisalCycle>(
+  {
+    year: { type: Number, required: true, unique: true },
+    label: { type: String, required: true },
+    startDate: { type: Date, required: true },
+    endDate: { type: Date, required: true },
+    submissionWindow: cycleWindow,
+    verificationWindow: cycleWindow,
+    interactionWindow: cycleWindow,
+    isActive: { type: Boolean, default: false, index: true },
+    resultsPublishedAt: { type: Date },
+    resultsPublishedBy: { type: String },
+    createdBy: { type: String, required: true },
+  },
+  { timestamps: true }
+);
+
+export const AppraisalCycle =
+  models.AppraisalCycle ||
+  model<IAppraisalCycle>("AppraisalCycle", appraisalCycleSchema);
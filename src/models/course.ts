@@ -0,0 +1,51 @@
+import { Schema, model, Document, models } from "mongoose";
+import { DEPARTMENT, type DepartmentValue } from "../constant/department";
+
+/**
+ * One course offered by a department in an academic year. Part A course rows
+ * are checked against this catalogue, and HODs maintain it.
+ */
+export interface ICourse extends Document {
+  department: DepartmentValue;
+  /** Matches FacultyAppraisal.appraisalYear. */
+  appraisalYear: number;
+  /** Canonical course code, e.g. "CS301". */
+  code: string;
+  title: string;
+  semester: string;
+  credits: number;
+  /** userIds of the faculty assigned to teach the course. */
+  instructors: string[];
+  createdBy: string;
+  updatedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const courseSchema = new Schema<ICourse>(
+  {
+    department: {
+      type: String,
+      enum: DEPARTMENT.map((option) => option.value),
+      required: true,
+    },
+    appraisalYear: { type: Number, required: true },
+    code: { type: String, required: true, trim: true },
+    title: { type: String, required: true, trim: true },
+    semester: { type: String, required: true, trim: true },
+    credits: { type: Number, default: 0, min: 0 },
+    instructors: { type: [String], default: [], index: true },
+    createdBy: { type: String, required: true },
+    updatedBy: { type: String, required: true },
+  },
+  { timestamps: true }
+);
+
+// Codes are stored normalised (normalizeCourseCode), so "cs 301" cannot sit next to "CS301".
+courseSchema.index(
+  { appraisalYear: 1, department: 1, code: 1, semester: 1 },
+  { unique: true, name: "unique_course_per_department_year" }
+);
+
+export const Course =
+  models.Course || model<ICourse>("Course", courseSchema);
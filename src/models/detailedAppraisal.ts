@@ -1,19 +1,51 @@
-import { Schema, model, Document, models } from "mongoose";
+import { Schema, model, Document, models, Types } from "mongoose";
 import {
   APPRAISAL_STATUS,
   ACADEMIC_CADRES,
   EVALUATOR_ROLES,
+  APPRAISAL_PARTS,
+  REVIEW_STATUSES,
+  PART_B_ENTRY_STATUSES,
   type AppraisalStatus,
+  type PartBEntryStatus,
   type EvaluatorRole,
+  type AppraisalPart,
+  type ReviewStatus,
 } from "../constant/appraisal";
 import { type UserRole, type UserDesignation } from "../constant/userInfo";
+import { type RubricRules } from "../constant/scoring";
 
 
+/**
+ * One claimed Part B item — a paper, chapter, patent, grant, award, ... —
+ * with the details a verifier needs to check it.
+ */
+export interface IPartBEntry {
+  _id?: Types.ObjectId;
+  title: string;
+  authors: string[];
+  venue: string; // journal / conference / publisher / granting body
+  year: number | null;
+  identifier: string; // DOI, ISBN, patent or registration number
+  indexing: string; // e.g. "SCI", "Scopus", "UGC-CARE"
+  proof: string; // Google Drive / URL proof link
+  quantity: number; // units this entry adds to the count (1 per paper; citations; lakhs for grants)
+  /** Normalised identifier/title keys (utils/claimKeys), stored so duplicates can be found by query. */
+  matchKeys: string[];
+  verification: {
+    status: PartBEntryStatus;
+    remark: string;
+    verifiedBy: string;
+    verifiedAt?: Date;
+  };
+}
+
 export interface IVerifiedMark {
-  count: number; // raw count entered by faculty
+  count: number; // sum of entry quantities (raw count on records that predate entries)
   proof: string; // Google Drive / URL proof link
   claimed: number; // marks calculated on the frontend
   verified: number; // marks set by review team (0 = not yet verified)
+  entries: IPartBEntry[];
 }
 
 export interface ICourseMetric {
@@ -38,6 +70,38 @@ export interface ICourseMetric {
   feedbackMarks: number;
 }
 
+export interface IRevisionRequest {
+  /** Parts reopened for editing, each with what must change. */
+  parts: { part: AppraisalPart; comment: string }[];
+  reason: string;
+  requestedBy: string;
+  /** Reviewer's role at the time — a UserRole, or "verifier" for the Part B team. */
+  requestedByRole: string;
+  /** Review stage the appraisal was in; resubmission resumes there. */
+  fromStatus: ReviewStatus;
+  requestedAt: Date;
+  resubmittedAt?: Date;
+}
+
+export interface IStatusChange {
+  /** Null for the entry recorded when the appraisal is created. */
+  from: AppraisalStatus | null;
+  to: AppraisalStatus;
+  actorId: string;
+  /** A UserRole, or "verifier" for the Part B team. */
+  actorRole: string;
+  remark: string;
+  at: Date;
+}
+
+export interface IModeration {
+  previousTotal: number;
+  moderatedTotal: number;
+  justification: string;
+  moderatedBy: string;
+  moderatedAt: Date;
+}
+
 export interface IFacultyAppraisal extends Document {
   userId: string;
   status: AppraisalStatus;
@@ -51,6 +115,28 @@ export interface IFacultyAppraisal extends Document {
   role: UserRole;
   appraisalYear: number;
 
+  /**
+   * Scoring rubric this appraisal is pinned to (see models/rubric).
+   * Null id / version 0 means the built-in rules, as copied to rubricRules.
+   */
+  rubricId: Types.ObjectId | null;
+  rubricVersion: number;
+  /**
+   * The built-in rules (constant/scoring) as they were when the appraisal was
+   * pinned to them, so later changes to the defaults do not rescore it. Null
+   * when pinned to a published rubric, which never changes.
+   */
+  rubricRules: RubricRules | null;
+  /**
+   * Whether rubricId / rubricVersion were set by rubricPinFor. Unpinned
+   * records (from before rubrics existed) follow the latest published rubric
+   * until they are submitted.
+   */
+  rubricPinned: boolean;
+
+  /** appraisalYear this draft was carried forward from; null when started fresh. */
+  carriedForwardFrom: number | null;
+
   partA: {
     courses: ICourseMetric[];
     eLearningInstances: number;
@@ -169,6 +255,13 @@ export interface IFacultyAppraisal extends Document {
       submitted: number;
       ongoing: number;
     };
+    /** Server-computed marks per subsection (see utils/scoring/partC). */
+    sectionMarks: {
+      qualification: number;
+      trainingAttended: number;
+      trainingOrganized: number;
+      phdGuided: number;
+    };
     totalClaimed: number;
     totalVerified: number;
   };
@@ -216,16 +309,64 @@ export interface IFacultyAppraisal extends Document {
     signatureDate?: Date;
   };
 
-  /** Cloudinary URL of the most recently generated appraisal PDF. */
+  /**
+   * Where the faculty's own most recent appraisal PDF is stored, as
+   * "driver:key" (see utils/storage). Older records hold its Cloudinary URL.
+   * Reviewers' renders are stored apart (see utils/appraisalPdf) and never
+   * recorded here.
+   */
   pdfUrl: string;
+  /**
+   * True once pdfUrl points at a render made with the faculty's own view
+   * (unpublished verified marks withheld). Records from before reviewer
+   * renders were kept apart may hold a reviewer's copy and stay false.
+   */
+  pdfOwnerView: boolean;
+  /**
+   * Report template that PDF was filled from (see models/reportTemplate).
+   * Null id / version 0 means the bundled pdf_template/test2.pdf.
+   */
+  pdfTemplateId: Types.ObjectId | null;
+  pdfTemplateVersion: number;
+
+  /**
+   * Every return-for-revision, oldest first. While status is
+   * "Revision Requested" the last entry is the open one.
+   */
+  revisions: IRevisionRequest[];
+
+  /** Append-only log of every status transition, oldest first. */
+  statusHistory: IStatusChange[];
+
+  /** Director's changes to summary.grandTotalVerified, oldest first. */
+  moderations: IModeration[];
 }
 
 
+const partBEntry = new Schema<IPartBEntry>({
+  title: { type: String, default: "" },
+  authors: { type: [String], default: [] },
+  venue: { type: String, default: "" },
+  year: { type: Number, default: null },
+  identifier: { type: String, default: "" },
+  indexing: { type: String, default: "" },
+  proof: { type: String, default: "" },
+  quantity: { type: Number, default: 1, min: 0 },
+  matchKeys: { type: [String], default: undefined },
+  verification: {
+    status: { type: String, enum: PART_B_ENTRY_STATUSES, default: "pending" },
+    remark: { type: String, default: "" },
+    verifiedBy: { type: String, default: "" },
+    verifiedAt: { type: Date },
+  },
+});
+
 const verifiedMark = {
   count: { type: Number, default: 0, min: 0 },
   proof: { type: String, default: "" },
   claimed: { type: Number, default: 0, min: 0 },
   verified: { type: Number, default: 0, min: 0 },
+  entries: { type: [partBEntry], default: [] },
 };
 
 
@@ -255,6 +396,13 @@ const facultyAppraisalSchema = new Schema<IFacultyAppraisal>(
 
     appraisalYear: { type: Number, required: true },
 
+    rubricId: { type: Schema.Types.ObjectId, ref: "Rubric", default: null },
+    rubricVersion: { type: Number, default: 0 },
+    rubricRules: { type: Schema.Types.Mixed, default: null },
+    rubricPinned: { type: Boolean, default: false },
+
+    carriedForwardFrom: { type: Number, default: null },
+
     // ── PART A ──────────────────────────────────────────────────────────────
     partA: {
       courses: [
@@ -383,6 +531,12 @@ const facultyAppraisalSchema = new Schema<IFacultyAppraisal>(
         submitted: { type: Number, default: 0 },
         ongoing: { type: Number, default: 0 },
       },
+      sectionMarks: {
+        qualification: { type: Number, default: 0 },
+        trainingAttended: { type: Number, default: 0 },
+        trainingOrganized: { type: Number, default: 0 },
+        phdGuided: { type: Number, default: 0 },
+      },
       totalClaimed: { type: Number, default: 0 },
       totalVerified: { type: Number, default: 0 },
     },
@@ -422,7 +576,8 @@ const facultyAppraisalSchema = new Schema<IFacultyAppraisal>(
     // ── PART E ──────────────────────────────────────────────────────────────
     partE: {
       bulletPoints: { type: String, default: "", },
-      totalClaimed: { type: Number, default: 0, max: 50 },
+      // Capped by the pinned rubric's partE.max in updatePartE.
+      totalClaimed: { type: Number, default: 0, min: 0 },
       totalVerified: { type: Number, default: 0 },
     },
 
@@ -438,8 +593,56 @@ const facultyAppraisalSchema = new Schema<IFacultyAppraisal>(
       signatureDate: { type: Date },
     },
 
-    // ── PDF (Cloudinary URL of the latest generated appraisal PDF) ───────────
+    // ── PDF (storage reference of the latest generated appraisal PDF) ────────
     pdfUrl: { type: String, default: '' },
+    pdfOwnerView: { type: Boolean, default: false },
+    pdfTemplateId: { type: Schema.Types.ObjectId, ref: "ReportTemplate", default: null },
+    pdfTemplateVersion: { type: Number, default: 0 },
+
+    // ── REVISION REQUESTS (reviewer → faculty) ──────────────────────────────
+    revisions: [
+      {
+        _id: false,
+        parts: [
+          {
+            _id: false,
+            part: { type: String, enum: APPRAISAL_PARTS, required: true },
+            comment: { type: String, default: "" },
+          },
+        ],
+        reason: { type: String, required: true },
+        requestedBy: { type: String, required: true },
+        requestedByRole: { type: String, required: true },
+        fromStatus: { type: String, enum: REVIEW_STATUSES, required: true },
+        requestedAt: { type: Date, required: true },
+        resubmittedAt: { type: Date },
+      },
+    ],
+
+    // ── STATUS HISTORY (append-only) ────────────────────────────────────────
+    statusHistory: [
+      {
+        _id: false,
+        from: { type: String, enum: [...Object.values(APPRAISAL_STATUS), null], default: null },
+        to: { type: String, enum: APPRAISAL_STATUS, required: true },
+        actorId: { type: String, required: true },
+        actorRole: { type: String, required: true },
+        remark: { type: String, default: "" },
+        at: { type: Date, required: true },
+      },
+    ],
+
+    // ── DIRECTOR MODERATION ─────────────────────────────────────────────────
+    moderations: [
+      {
+        _id: false,
+        previousTotal: { type: Number, required: true },
+        moderatedTotal: { type: Number, required: true, min: 0 },
+        justification: { type: String, required: true },
+        moderatedBy: { type: String, required: true },
+        moderatedAt: { type: Date, required: true },
+      },
+    ],
   },
   { timestamps: true }
 );
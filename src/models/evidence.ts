@@ -0,0 +1,53 @@
+import { Schema, model, Document, models } from "mongoose";
+import { STORAGE_DRIVERS, type StorageDriver } from "../utils/storage/types";
+
+export const EVIDENCE_PARTS = ["partB", "partC"] as const;
+export type EvidencePart = typeof EVIDENCE_PARTS[number];
+
+/**
+ * A proof file (PDF or image) uploaded for one Part B or Part C item. The
+ * bytes live in storage; this record says whose it is and what it proves.
+ */
+export interface IEvidence extends Document {
+  /** Owner of the appraisal the proof belongs to. */
+  userId: string;
+  appraisalYear: number;
+  part: EvidencePart;
+  /** Part B item key ("papers_sci") or Part C field path ("trainingAttended.oneWeek"). */
+  item: string;
+  /** Part B entry the file proves; empty when it covers the whole item. */
+  entryId: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  /** Hex SHA-256 of the bytes, checked again on download. */
+  sha256: string;
+  storageDriver: StorageDriver;
+  storageKey: string;
+  uploadedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const evidenceSchema = new Schema<IEvidence>(
+  {
+    userId: { type: String, required: true },
+    appraisalYear: { type: Number, required: true },
+    part: { type: String, enum: EVIDENCE_PARTS, required: true },
+    item: { type: String, required: true },
+    entryId: { type: String, default: "" },
+    fileName: { type: String, required: true },
+    contentType: { type: String, required: true },
+    size: { type: Number, required: true, min: 0 },
+    sha256: { type: String, required: true },
+    storageDriver: { type: String, enum: STORAGE_DRIVERS, required: true },
+    storageKey: { type: String, required: true },
+    uploadedBy: { type: String, required: true },
+  },
+  { timestamps: true }
+);
+
+evidenceSchema.index({ userId: 1, appraisalYear: 1, part: 1, item: 1 });
+
+export const Evidence =
+  models.Evidence || model<IEvidence>("Evidence", evidenceSchema);
@@ -0,0 +1,115 @@
+import { Schema, model, Document, models, Types } from "mongoose";
+import { type UserRole } from "../constant/userInfo";
+import { STORAGE_DRIVERS, type StorageDriver } from "../utils/storage/types";
+
+export const GENERATION_JOB_TYPES = ["appraisal-pdf", "appraisal-docx", "department-export"] as const;
+export type GenerationJobType = typeof GENERATION_JOB_TYPES[number];
+
+export const GENERATION_JOB_STATUS = {
+  QUEUED: "queued",
+  RUNNING: "running",
+  SUCCEEDED: "succeeded",
+  FAILED: "failed",
+} as const;
+
+export type GenerationJobStatus = typeof GENERATION_JOB_STATUS[keyof typeof GENERATION_JOB_STATUS];
+
+/** Where a finished job left its file. */
+export interface IGenerationJobResult {
+  storageDriver: StorageDriver;
+  storageKey: string;
+  fileName: string;
+  size: number;
+  contentType: string;
+  /** Report template the file was filled from; null / 0 = the bundled file. */
+  templateId: Types.ObjectId | null;
+  templateVersion: number;
+}
+
+/**
+ * A report to render outside the request that asked for it. Workers claim
+ * queued jobs (see utils/jobQueue); a failed attempt goes back in the queue
+ * with a growing delay until maxAttempts is reached.
+ */
+export interface IGenerationJob extends Document {
+  type: GenerationJobType;
+  /** Faculty whose appraisal is rendered; empty for department exports. */
+  userId: string;
+  appraisalYear: number;
+  /** Department a department-export job archives, else null. */
+  department: string | null;
+  /** Department exports only: also render appraisals whose marks are not yet verified. */
+  includeUnverified: boolean;
+  requestedBy: string;
+  requestedByRole: UserRole;
+  status: GenerationJobStatus;
+  /** 0–100, with a short description of the current step. */
+  progress: number;
+  stage: string;
+  attempts: number;
+  maxAttempts: number;
+  /** Earliest time a worker may pick the job up. */
+  runAfter: Date;
+  /** Worker holding a running job, and since when; stale locks are taken over. */
+  lockedBy: string | null;
+  lockedAt: Date | null;
+  lastError: string;
+  result: IGenerationJobResult | null;
+  finishedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const generationJobSchema = new Schema<IGenerationJob>(
+  {
+    type: { type: String, enum: GENERATION_JOB_TYPES, required: true },
+    userId: { type: String, default: "" },
+    appraisalYear: { type: Number, required: true },
+    department: { type: String, default: null },
+    includeUnverified: { type: Boolean, default: false },
+    requestedBy: { type: String, required: true },
+    requestedByRole: { type: String, required: true },
+    status: {
+      type: String,
+      enum: Object.values(GENERATION_JOB_STATUS),
+      default: GENERATION_JOB_STATUS.QUEUED,
+    },
+    progress: { type: Number, default: 0, min: 0, max: 100 },
+    stage: { type: String, default: "Waiting for a worker" },
+    attempts: { type: Number, default: 0 },
+    maxAttempts: { type: Number, required: true, min: 1 },
+    runAfter: { type: Date, default: Date.now },
+    lockedBy: { type: String, default: null },
+    lockedAt: { type: Date, default: null },
+    lastError: { type: String, default: "" },
+    result: {
+      type: new Schema<IGenerationJobResult>(
+        {
+          storageDriver: { type: String, enum: STORAGE_DRIVERS, required: true },
+          storageKey: { type: String, required: true },
+          fileName: { type: String, required: true },
+          size: { type: Number, required: true },
+          contentType: { type: String, default: "application/pdf" },
+          templateId: { type: Schema.Types.ObjectId, ref: "ReportTemplate", default: null },
+          templateVersion: { type: Number, default: 0 },
+        },
+        { _id: false }
+      ),
+      default: null,
+    },
+    finishedAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+// Workers claim the oldest due job first
+generationJobSchema.index({ status: 1, runAfter: 1 });
+generationJobSchema.index({ type: 1, userId: 1, appraisalYear: 1, requestedBy: 1, status: 1 });
+// Finished jobs are only useful while someone is waiting on them
+generationJobSchema.index(
+  { finishedAt: 1 },
+  { expireAfterSeconds: 7 * 24 * 60 * 60, partialFilterExpression: { finishedAt: { $type: "date" } } }
+);
+
+export const GenerationJob =
+  models.GenerationJob || model<IGenerationJob>("GenerationJob", generationJobSchema);
@@ -2,3 +2,11 @@ export { User } from './user';
 export { VerificationTeam } from './verificationTeam';
 export { InteractionDean } from './interactionDean';
 export { default as InteractionEvaluation } from './interactionEvaluation';
+export { Rubric } from './rubric';
+export { AppraisalCycle } from './appraisalCycle';
+export { PublicationImport } from './publicationImport';
+export { Course } from './course';
+export { Evidence } from './evidence';
+export { PdfSnapshot } from './pdfSnapshot';
+export { ReportTemplate } from './reportTemplate';
+export { GenerationJob } from './generationJob';
@@ -5,14 +5,15 @@ import { DepartmentValue, DEPARTMENT } from '../constant';
 interface EvaluatorMarks {
   evaluatorId: string;
   evaluatorName: string;
-  knowledge: number;           // Max 20
-  skills: number;               // Max 20
-  attributes: number;           // Max 10
-  outcomesInitiatives: number;  // Max 20
-  selfBranching: number;        // Max 10
-  teamPerformance: number;      // Max 20
+  // Criterion maxima come from the faculty appraisal's rubric (interactionCriteria)
+  knowledge: number;
+  skills: number;
+  attributes: number;
+  outcomesInitiatives: number;
+  selfBranching: number;
+  teamPerformance: number;
   comments: string;
-  totalMarks: number;           // Sum of all marks (Max 100)
+  totalMarks: number;           // Sum of all marks
   evaluatedAt: Date;
 }
 
@@ -22,6 +23,7 @@ export interface InteractionEvaluation extends Document {
   externalId: string;           // External evaluator assigned
   externalName: string;
   department: DepartmentValue;
+  appraisalYear: number;        // Cycle the evaluation belongs to (April–March start year)
 
   // Evaluations from each role
   hodEvaluation: EvaluatorMarks;
@@ -52,37 +54,31 @@ const evaluatorMarksSchema = {
     type: Number,
     default: 0,
     min: 0,
-    max: 20,
   },
   skills: {
     type: Number,
     default: 0,
     min: 0,
-    max: 20,
   },
   attributes: {
     type: Number,
     default: 0,
     min: 0,
-    max: 10,
   },
   outcomesInitiatives: {
     type: Number,
     default: 0,
     min: 0,
-    max: 20,
   },
   selfBranching: {
     type: Number,
     default: 0,
     min: 0,
-    max: 10,
   },
   teamPerformance: {
     type: Number,
     default: 0,
     min: 0,
-    max: 20,
   },
   comments: {
     type: String,
@@ -92,7 +88,6 @@ const evaluatorMarksSchema = {
     type: Number,
     default: 0,
     min: 0,
-    max: 100,
   },
   evaluatedAt: {
     type: Date,
@@ -126,6 +121,10 @@ const interactionEvaluationSchema = new Schema<InteractionEvaluation>(
       required: true,
       index: true,
     },
+    appraisalYear: {
+      type: Number,
+      required: true,
+    },
     hodEvaluation: evaluatorMarksSchema,
     deanEvaluation: evaluatorMarksSchema,
     externalEvaluation: evaluatorMarksSchema,
@@ -156,9 +155,10 @@ const interactionEvaluationSchema = new Schema<InteractionEvaluation>(
   }
 );
 
-// Compound index for unique faculty-external pair per department
+// Compound index for unique faculty-external pair per department and cycle.
+// The year-less index older databases carry is dropped at startup (see utils/migrations).
 interactionEvaluationSchema.index(
-  { facultyId: 1, externalId: 1, department: 1 },
+  { facultyId: 1, externalId: 1, department: 1, appraisalYear: 1 },
   { unique: true }
 );
 
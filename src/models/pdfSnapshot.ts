@@ -0,0 +1,56 @@
+import { Schema, model, Document, models, Types } from "mongoose";
+import { APPRAISAL_STATUS, type AppraisalStatus } from "../constant/appraisal";
+import { type UserRole } from "../constant/userInfo";
+import { STORAGE_DRIVERS, type StorageDriver } from "../utils/storage/types";
+
+/**
+ * A saved rendering of an appraisal PDF. Snapshots are never edited: each
+ * save renders the appraisal as it is at that moment, so the record keeps
+ * what was printed even as the appraisal moves on.
+ */
+export interface IPdfSnapshot extends Document {
+  /** Owner of the appraisal. */
+  userId: string;
+  appraisalYear: number;
+  /** Appraisal status when the snapshot was saved. */
+  status: AppraisalStatus;
+  /** Hex SHA-256 of the PDF, checked again when it is served. */
+  sha256: string;
+  size: number;
+  storageDriver: StorageDriver;
+  storageKey: string;
+  savedBy: string;
+  savedByRole: UserRole;
+  /**
+   * Report template the PDF was filled from (see models/reportTemplate).
+   * Null id / version 0 means the bundled pdf_template/test2.pdf.
+   */
+  templateId: Types.ObjectId | null;
+  templateVersion: number;
+  /** Optional note from whoever saved it, e.g. "Before HOD review". */
+  note: string;
+  createdAt: Date;
+}
+
+const pdfSnapshotSchema = new Schema<IPdfSnapshot>(
+  {
+    userId: { type: String, required: true },
+    appraisalYear: { type: Number, required: true },
+    status: { type: String, enum: Object.values(APPRAISAL_STATUS), required: true },
+    sha256: { type: String, required: true },
+    size: { type: Number, required: true, min: 0 },
+    storageDriver: { type: String, enum: STORAGE_DRIVERS, required: true },
+    storageKey: { type: String, required: true },
+    savedBy: { type: String, required: true },
+    savedByRole: { type: String, required: true },
+    templateId: { type: Schema.Types.ObjectId, ref: "ReportTemplate", default: null },
+    templateVersion: { type: Number, default: 0 },
+    note: { type: String, default: "" },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+pdfSnapshotSchema.index({ userId: 1, appraisalYear: 1, createdAt: -1 });
+
+export const PdfSnapshot =
+  models.PdfSnapshot || model<IPdfSnapshot>("PdfSnapshot", pdfSnapshotSchema);
@@ -0,0 +1,67 @@
+import { Schema, model, Document, models } from "mongoose";
+import { PUBLICATION_FORMATS, type PublicationFormat } from "../utils/publicationImport/types";
+import { type ImportCandidate } from "../utils/publicationImport";
+
+export const PUBLICATION_IMPORT_STATUS = {
+  PREVIEW: "preview",
+  CONFIRMED: "confirmed",
+} as const;
+
+export type PublicationImportStatus =
+  typeof PUBLICATION_IMPORT_STATUS[keyof typeof PUBLICATION_IMPORT_STATUS];
+
+/** Unconfirmed previews are removed after this long. */
+const PREVIEW_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * A BibTeX/RIS/CSV file parsed into candidate Part B entries. Nothing reaches
+ * the appraisal until the faculty confirms the preview.
+ */
+export interface IPublicationImport extends Document {
+  userId: string;
+  appraisalYear: number;
+  format: PublicationFormat;
+  fileName: string;
+  candidates: ImportCandidate[];
+  /** Records that could not be parsed. */
+  parseErrors: string[];
+  status: PublicationImportStatus;
+  /** Candidate indexes merged into Part B on confirmation. */
+  importedIndexes: number[];
+  confirmedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const publicationImportSchema = new Schema<IPublicationImport>(
+  {
+    userId: { type: String, required: true, index: true },
+    appraisalYear: { type: Number, required: true },
+    format: { type: String, enum: PUBLICATION_FORMATS, required: true },
+    fileName: { type: String, default: "" },
+    // Shape is produced by buildImportCandidates.
+    candidates: { type: Schema.Types.Mixed, default: [] },
+    parseErrors: { type: [String], default: [] },
+    status: {
+      type: String,
+      enum: Object.values(PUBLICATION_IMPORT_STATUS),
+      default: PUBLICATION_IMPORT_STATUS.PREVIEW,
+    },
+    importedIndexes: { type: [Number], default: [] },
+    confirmedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+publicationImportSchema.index(
+  { createdAt: 1 },
+  {
+    expireAfterSeconds: PREVIEW_TTL_SECONDS,
+    partialFilterExpression: { status: PUBLICATION_IMPORT_STATUS.PREVIEW },
+    name: "expire_unconfirmed_previews",
+  }
+);
+
+export const PublicationImport =
+  models.PublicationImport ||
+  model<IPublicationImport>("PublicationImport", publicationImportSchema);
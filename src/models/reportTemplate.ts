@@ -0,0 +1,78 @@
+import { Schema, model, Document, models } from "mongoose";
+import { STORAGE_DRIVERS, type StorageDriver } from "../utils/storage/types";
+
+export const REPORT_TEMPLATE_FORMATS = ["pdf", "docx"] as const;
+export type ReportTemplateFormat = typeof REPORT_TEMPLATE_FORMATS[number];
+
+export const REPORT_TEMPLATE_STATUS = {
+  DRAFT: "draft",
+  PUBLISHED: "published",
+} as const;
+
+export type ReportTemplateStatus = typeof REPORT_TEMPLATE_STATUS[keyof typeof REPORT_TEMPLATE_STATUS];
+
+/**
+ * An uploaded appraisal form layout. The PDF download fills the latest
+ * published "pdf" template for the cycle and generate-doc the latest "docx"
+ * one; with none published they fall back to the files in pdf_template/.
+ */
+export interface IReportTemplate extends Document {
+  appraisalYear: number;
+  format: ReportTemplateFormat;
+  /** 1, 2, 3 … per appraisal year and format. */
+  version: number;
+  /**
+   * Drafts can be previewed or deleted. Published versions are never removed,
+   * so PDFs that record them can be produced again.
+   */
+  status: ReportTemplateStatus;
+  fileName: string;
+  /** Hex SHA-256 of the file, checked again whenever it is loaded. */
+  sha256: string;
+  size: number;
+  storageDriver: StorageDriver;
+  storageKey: string;
+  /** Placeholder names found in the file at upload. */
+  placeholders: string[];
+  /** Placeholders the data builder does not supply; must be empty to publish. */
+  unsuppliedPlaceholders: string[];
+  notes: string;
+  createdBy: string;
+  publishedBy?: string;
+  publishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const reportTemplateSchema = new Schema<IReportTemplate>(
+  {
+    appraisalYear: { type: Number, required: true, index: true },
+    format: { type: String, enum: REPORT_TEMPLATE_FORMATS, required: true },
+    version: { type: Number, required: true, min: 1 },
+    status: {
+      type: String,
+      enum: Object.values(REPORT_TEMPLATE_STATUS),
+      default: REPORT_TEMPLATE_STATUS.DRAFT,
+    },
+    fileName: { type: String, required: true },
+    sha256: { type: String, required: true },
+    size: { type: Number, required: true, min: 0 },
+    storageDriver: { type: String, enum: STORAGE_DRIVERS, required: true },
+    storageKey: { type: String, required: true },
+    placeholders: { type: [String], default: [] },
+    unsuppliedPlaceholders: { type: [String], default: [] },
+    notes: { type: String, default: "" },
+    createdBy: { type: String, required: true },
+    publishedBy: { type: String },
+    publishedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+reportTemplateSchema.index(
+  { appraisalYear: 1, format: 1, version: 1 },
+  { unique: true, name: "unique_report_template_version" }
+);
+
+export const ReportTemplate =
+  models.ReportTemplate || model<IReportTemplate>("ReportTemplate", reportTemplateSchema);
@@ -0,0 +1,54 @@
+import { Schema, model, Document, models } from "mongoose";
+import { type RubricRules } from "../constant/scoring";
+
+export const RUBRIC_STATUS = {
+  DRAFT: "draft",
+  PUBLISHED: "published",
+} as const;
+
+export type RubricStatus = typeof RUBRIC_STATUS[keyof typeof RUBRIC_STATUS];
+
+export interface IRubric extends Document {
+  appraisalYear: number;
+  /** 1, 2, 3 … per appraisal year. */
+  version: number;
+  /**
+   * Drafts can be edited or deleted. Published versions are immutable — a
+   * change means publishing a new version, so pinned appraisals keep theirs.
+   */
+  status: RubricStatus;
+  rules: RubricRules;
+  notes: string;
+  createdBy: string;
+  publishedBy?: string;
+  publishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const rubricSchema = new Schema<IRubric>(
+  {
+    appraisalYear: { type: Number, required: true, index: true },
+    version: { type: Number, required: true, min: 1 },
+    status: {
+      type: String,
+      enum: Object.values(RUBRIC_STATUS),
+      default: RUBRIC_STATUS.DRAFT,
+    },
+    // Shape is validated by findRubricErrors before every write.
+    rules: { type: Schema.Types.Mixed, required: true },
+    notes: { type: String, default: "" },
+    createdBy: { type: String, required: true },
+    publishedBy: { type: String },
+    publishedAt: { type: Date },
+  },
+  { timestamps: true, minimize: false }
+);
+
+rubricSchema.index(
+  { appraisalYear: 1, version: 1 },
+  { unique: true, name: "unique_rubric_version_per_year" }
+);
+
+export const Rubric =
+  models.Rubric || model<IRubric>("Rubric", rubricSchema);
@@ -1,9 +1,38 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { cycleMiddleware } from '../middleware/cycle.middleware';
 import { AddUser, deleteUser, getAllUsers, assignInteractionDeans, getAllInteractionDeans } from '../handlers/admin.handler';
 import { createVerificationCommittee, getVerificationCommitteeByDept } from '../handlers/verificationTeam.handler';
+import {
+  getRubrics,
+  getDefaultRubric,
+  getRubricById,
+  createRubric,
+  updateRubric,
+  publishRubric,
+  deleteRubric,
+} from '../handlers/rubric.handler';
+import { getCycles, createCycle, updateCycle, activateCycle } from '../handlers/cycle.handler';
+import { getDuplicateClaimsReport } from '../handlers/duplicateClaims.handler';
+import {
+  getReportTemplates,
+  getReportTemplateById,
+  downloadReportTemplate,
+  previewReportTemplate,
+  uploadReportTemplate,
+  publishReportTemplate,
+  deleteReportTemplate,
+} from '../handlers/reportTemplate.handler';
+import { REPORT_TEMPLATE_CONTENT_TYPES } from '../utils/reportTemplates';
+import { config } from '../config';
 const router = Router();
 
+// Template files arrive as the raw request body (PDF or DOCX)
+const templateFile = express.raw({
+  type: Object.values(REPORT_TEMPLATE_CONTENT_TYPES),
+  limit: config.reportTemplateMaxBytes,
+});
+
 // All admin routes require admin role
 router.use(authMiddleware('admin'));
 
@@ -21,4 +50,31 @@ router.post('/interaction-deans/:department', assignInteractionDeans);
 router.get('/interaction-deans', getAllInteractionDeans);
 router.post('/interaction-deans/:department', assignInteractionDeans);
 
+// Scoring rubric routes — "default" must be declared before /:id
+router.get('/rubrics', getRubrics);
+router.get('/rubrics/default', getDefaultRubric);
+router.get('/rubrics/:id', getRubricById);
+router.post('/rubrics', createRubric);
+router.put('/rubrics/:id', updateRubric);
+router.post('/rubrics/:id/publish', publishRubric);
+router.delete('/rubrics/:id', deleteRubric);
+
+// Appraisal cycle routes — :cycle is "2025" or "2025-26"
+router.get('/cycles', getCycles);
+router.post('/cycles', createCycle);
+router.put('/cycles/:cycle', updateCycle);
+router.post('/cycles/:cycle/activate', activateCycle);
+
+// Part B works claimed by several faculty (or twice by one) in a cycle
+router.get('/cycles/:cycle/duplicates', getDuplicateClaimsReport);
+
+// Report template routes — uploads go to ?cycle= (default: the active cycle)
+router.get('/report-templates', getReportTemplates);
+router.get('/report-templates/:id', getReportTemplateById);
+router.get('/report-templates/:id/file', downloadReportTemplate);
+router.get('/report-templates/:id/preview', previewReportTemplate);
+router.post('/report-templates', cycleMiddleware, templateFile, uploadReportTemplate);
+router.post('/report-templates/:id/publish', publishReportTemplate);
+router.delete('/report-templates/:id', deleteReportTemplate);
+
 export default router;
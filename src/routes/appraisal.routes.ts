@@ -1,5 +1,6 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { cycleMiddleware } from '../middleware/cycle.middleware';
 import {
   getAppraisalByUserId,
   getAppraisalsByDepartment,
@@ -15,14 +16,48 @@ import {
   submitVerifiedMarks,
   sendToDirector,
   getSentToDirectorAppraisals,
+  carryForwardAppraisal,
+  returnForRevision,
+  getAppraisalTimeline,
+  approveAppraisal,
+  moderateAppraisal,
+  publishResults,
+  bulkAppraisalAction,
+  previewPublicationImport,
+  getPublicationImport,
+  confirmPublicationImport,
+  uploadEvidence,
+  getEvidenceList,
+  downloadEvidence,
+  deleteEvidence,
 } from '../handlers/appraisal.handler';
 import { downloadAppraisalPDF } from '../handlers/pdf.handler';
+import { getResolvedCycle } from '../handlers/cycle.handler';
+import { importCourseResults } from '../handlers/courseResults.handler';
+import { exportDepartmentPdfs, exportAppraisalsXlsx } from '../handlers/export.handler';
+import { EVIDENCE_CONTENT_TYPES } from '../utils/evidence';
+import { config } from '../config';
 
 const router = Router();
 
+// Raw BibTeX / RIS / CSV uploads arrive as text; JSON bodies use the app-wide parser.
+const textFile = express.text({
+  type: ['text/*', 'application/x-bibtex', 'application/x-research-info-systems'],
+  limit: '2mb',
+});
+
+// Proof files (PDF / images) arrive as the raw request body.
+const evidenceFile = express.raw({ type: EVIDENCE_CONTENT_TYPES, limit: config.evidenceMaxBytes });
+
 // Every route in this file requires a valid JWT.
 router.use(authMiddleware());
 
+// Every route works on one appraisal cycle: ?cycle=2025 / ?cycle=2025-26, else the active one.
+router.use(cycleMiddleware);
+
+// GET /appraisal/cycle — which cycle this request resolves to and its open windows
+router.get('/cycle', getResolvedCycle);
+
 // Must be declared BEFORE /:userId to avoid Express matching "department" as a userId.
 router.get(
   '/department/:department',
@@ -30,6 +65,22 @@ router.get(
   getAppraisalsByDepartment
 );
 
+// Queues one ZIP of every appraisal PDF in the department, with manifest.csv
+// (?includeUnverified=true to add appraisals whose marks are not yet verified)
+router.get(
+  '/department/:department/export',
+  authMiddleware('hod', 'director'),
+  exportDepartmentPdfs
+);
+
+// Parts A–E and a summary as one Excel workbook
+// (?department= &designation= &role= &status= take comma-separated lists)
+router.get(
+  '/export/xlsx',
+  authMiddleware('hod', 'director'),
+  exportAppraisalsXlsx
+);
+
 // Director fetches all appraisals for users with a given role (hod/dean)
 router.get(
   '/by-role/:role',
@@ -44,15 +95,50 @@ router.get(
   getSentToDirectorAppraisals
 );
 
-// GET /appraisal/:userId/pdf
+// Director publishes every approved appraisal in the cycle
+router.post('/publish-results', authMiddleware('director'), publishResults);
+
+// Exam section / ERP course results → partA.courses, with a reconciliation report
+router.post(
+  '/course-results/import',
+  authMiddleware('admin', 'hod'),
+  textFile,
+  importCourseResults
+);
+
+// One review action over many appraisals, with a result per item
+router.post(
+  '/bulk/:action',
+  authMiddleware('hod', 'dean', 'director'),
+  bulkAppraisalAction
+);
+
+// GET /appraisal/:userId/pdf — queues generation (202 + job id, see /jobs/:jobId)
 router.get('/:userId/pdf', downloadAppraisalPDF);
 
+// Status history — owner or evaluator roles.
+router.get('/:userId/timeline', getAppraisalTimeline);
+
 // Fetch the full appraisal document — owner or evaluator roles.
 router.get('/:userId', getAppraisalByUserId);
 
+// Start this cycle's draft from the previous year's structural data
+router.post('/:userId/carry-forward', carryForwardAppraisal);
+
 router.put('/:userId/part-a', updatePartA);
 router.put('/:userId/part-b', updatePartB);
+
+// Prefill Part B from a publication export: preview first, then confirm
+router.post('/:userId/part-b/import', textFile, previewPublicationImport);
+router.get('/:userId/part-b/import/:importId', getPublicationImport);
+router.post('/:userId/part-b/import/:importId/confirm', confirmPublicationImport);
 router.put('/:userId/part-c', updatePartC);
+
+// Proof files for Part B / Part C items
+router.post('/:userId/evidence', evidenceFile, uploadEvidence);
+router.get('/:userId/evidence', getEvidenceList);
+router.get('/:userId/evidence/:evidenceId', downloadEvidence);
+router.delete('/:userId/evidence/:evidenceId', deleteEvidence);
 router.put('/:userId/part-d', updatePartD);
 router.put('/:userId/part-e', updatePartE);
 
@@ -63,9 +149,20 @@ router.patch('/:userId/submit', submitAppraisal);
 // HOD or Director submits verified marks and moves to interaction pending
 router.post('/:userId/verify-marks', authMiddleware('hod', 'director'), submitVerifiedMarks);
 
+// Reviewer returns the appraisal to the faculty with the parts to change
+router.patch(
+  '/:userId/return-for-revision',
+  authMiddleware('hod', 'dean', 'director'),
+  returnForRevision
+);
+
 // HOD sends completed appraisal to director
 router.patch('/:userId/send-to-director', authMiddleware('hod'), sendToDirector);
 
+// Director's final decision on an appraisal sent by the HOD
+router.patch('/:userId/approve', authMiddleware('director'), approveAppraisal);
+router.patch('/:userId/moderate', authMiddleware('director'), moderateAppraisal);
+
 router.put(
   '/:userId/part-d/evaluator',
   authMiddleware('dean', 'hod', 'director'),
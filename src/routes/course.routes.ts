@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { cycleMiddleware } from '../middleware/cycle.middleware';
+import { getCourses, createCourse, updateCourse, deleteCourse } from '../handlers/course.handler';
+
+const router = Router();
+
+// All course routes require authentication
+router.use(authMiddleware());
+
+// The catalogue is kept per appraisal cycle (?cycle= or the active one)
+router.use(cycleMiddleware);
+
+// Anyone signed in can read the catalogue; HODs (own department) and admins maintain it
+router.get('/', getCourses);
+router.post('/', authMiddleware('hod', 'admin'), createCourse);
+router.put('/:id', authMiddleware('hod', 'admin'), updateCourse);
+router.delete('/:id', authMiddleware('hod', 'admin'), deleteCourse);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { cycleMiddleware } from '../middleware/cycle.middleware';
 import {
   generateDoc,
   getFacultyPdf,
@@ -14,11 +15,12 @@ const router = Router({ mergeParams: true }); // mergeParams exposes :department
 
 // All document routes require a valid session
 router.use(authMiddleware());
+router.use(cycleMiddleware);
 
-// GET  /:department/:userId/generate-doc   — render template → PDF (fresh)
+// GET  /:department/:userId/generate-doc   — queue template → PDF (202 + job id, see /jobs/:jobId)
 router.get('/:userId/generate-doc', generateDoc);
 
-// GET  /:department/:userId/faculty-pdf    — load latest saved PDF (stubs 404 → triggers fallback)
+// GET  /:department/:userId/faculty-pdf    — latest saved PDF (404 when none → triggers fallback)
 router.get('/:userId/faculty-pdf', getFacultyPdf);
 
 // GET  /:department/:userId/pdf-metadata
@@ -27,7 +29,7 @@ router.get('/:userId/pdf-metadata', getPdfMetadata);
 // GET  /:department/:userId/saved-pdfs
 router.get('/:userId/saved-pdfs', getSavedPdfs);
 
-// POST /:department/:userId/save-pdf
+// POST /:department/:userId/save-pdf      — render now and keep an immutable snapshot
 router.post('/:userId/save-pdf', savePdf);
 
 // GET  /:department/:userId/view-saved-pdf/:id
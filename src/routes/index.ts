@@ -7,6 +7,9 @@ import appraisalRoutes from './appraisal.routes';
 import verificationRoutes from './verification.routes';
 import documentRoutes from './document.routes';
 import interactionRoutes from './interaction.routes';
+import courseRoutes from './course.routes';
+import storageRoutes from './storage.routes';
+import jobRoutes from './job.routes';
 import { authMiddleware } from '../middleware/auth.middleware';
 
 const router: Router = Router();
@@ -40,6 +43,9 @@ router.use('/common', commonRoutes);
 router.use('/appraisal', appraisalRoutes);
 router.use('/verification', verificationRoutes);
 router.use('/interaction', interactionRoutes);
+router.use('/courses', courseRoutes);
+router.use('/storage', storageRoutes);
+router.use('/jobs', jobRoutes);
 
 // /:department/:userId/* document routes — must be LAST so named routes above take priority.
 // Matches e.g. /computer/25/generate-doc, /it/42/faculty-pdf, etc.
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { cycleMiddleware } from '../middleware/cycle.middleware';
 import {
   createExternal,
   getExternals,
@@ -14,6 +15,8 @@ import {
 
 const router = Router();
 
+// Evaluations are recorded per appraisal cycle (?cycle= or the active one)
+router.use(cycleMiddleware);
 
 // External faculty management
 router.post('/:department/create-external', authMiddleware('hod', 'director'), createExternal);
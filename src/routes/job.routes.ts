@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { getJobStatus } from '../handlers/job.handler';
+
+const router = Router();
+
+// Jobs are followed by whoever queued them
+router.use(authMiddleware());
+
+// GET /jobs/:jobId — status of a queued PDF / DOCX generation
+router.get('/:jobId', getJobStatus);
+
+export default router;
@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { serveSignedFile } from '../handlers/storage.handler';
+
+const router = Router();
+
+// No JWT: the URL's own signature authorises the download
+router.get('/files', serveSignedFile);
+
+export default router;
@@ -1,9 +1,11 @@
 import { Router } from 'express';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { cycleMiddleware } from '../middleware/cycle.middleware';
 import { 
   getAssignedFaculties,
   getPartBForVerification,
-  finalizeVerification
+  finalizeVerification,
+  returnForRevisionByVerifier
 } from '../handlers/verificationTeam.handler';
 
 const router = Router();
@@ -11,6 +13,9 @@ const router = Router();
 // All verification routes require authentication
 router.use(authMiddleware());
 
+// Verification works on one appraisal cycle (?cycle= or the active one)
+router.use(cycleMiddleware);
+
 // Get faculties assigned to the logged-in verifier
 router.get('/assigned-faculties', getAssignedFaculties);
 
@@ -20,4 +25,7 @@ router.get('/part-b/:facultyId', getPartBForVerification);
 // Finalize verification and update status
 router.post('/finalize/:facultyId', finalizeVerification);
 
+// Send the appraisal back to the faculty to fix Part B
+router.post('/return/:facultyId', returnForRevisionByVerifier);
+
 export default router;
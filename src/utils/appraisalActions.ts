@@ -0,0 +1,265 @@
+import { APPRAISAL_STATUS, APPRAISAL_EVENTS } from '../constant/appraisal';
+import { type UserRole } from '../constant/userInfo';
+import { FacultyAppraisal, type IFacultyAppraisal } from '../models/detailedAppraisal';
+import { User } from '../models/user';
+import { type CycleWindow } from '../models/appraisalCycle';
+import { ApiError } from '../middleware/error.middleware';
+import { HttpStatus } from './response';
+import { getClosedWindowReason, type ResolvedCycle } from './cycle';
+import { resolveRubricRules, computeGrandTotal } from './scoring';
+import { findTransitionError, transitionAppraisal } from './appraisalStateMachine';
+
+/**
+ * Reviewer actions on a single appraisal, shared by the per-appraisal
+ * endpoints and the bulk endpoint. Each one loads the appraisal for the
+ * cycle, validates the payload, fires its workflow event and saves; any
+ * 4xx is thrown as an ApiError so callers decide how to report it.
+ */
+
+export type ReviewActor = { userId: string; role: UserRole };
+
+export interface ReviewActionResult {
+  appraisal: IFacultyAppraisal;
+  message: string;
+}
+
+async function findAppraisalForCycle(userId: string, cycle: ResolvedCycle): Promise<IFacultyAppraisal> {
+  const appraisal = await FacultyAppraisal.findOne({ userId, appraisalYear: cycle.year });
+  if (!appraisal) {
+    throw new ApiError(`Appraisal not found for ${cycle.label}`, HttpStatus.NOT_FOUND);
+  }
+  return appraisal;
+}
+
+function ensureWindowOpen(cycle: ResolvedCycle, window: CycleWindow): void {
+  const reason = getClosedWindowReason(cycle, window);
+  if (reason) throw new ApiError(reason, HttpStatus.FORBIDDEN);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PORTFOLIO MARKS (Part D evaluator marks)
+// Payload: { marks }
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const enterPortfolioMarks = async (
+  userId: string,
+  cycle: ResolvedCycle,
+  actor: ReviewActor,
+  payload: { marks?: unknown }
+): Promise<ReviewActionResult> => {
+  const appraisal = await findAppraisalForCycle(userId, cycle);
+  ensureWindowOpen(cycle, 'verification');
+
+  // Look up the target user's role to enforce hierarchy restrictions
+  const targetUser = await User.findOne({ userId }).lean();
+  if (!targetUser) throw new ApiError('Target user not found', HttpStatus.NOT_FOUND);
+
+  // Only the Director can give portfolio marks for HODs and Deans
+  if ((targetUser.role === 'hod' || targetUser.role === 'dean') && actor.role !== 'director') {
+    throw new ApiError(
+      `Only a Director can give portfolio marks for a ${targetUser.role.toUpperCase()}.`,
+      HttpStatus.FORBIDDEN
+    );
+  }
+
+  if (appraisal.status !== APPRAISAL_STATUS.PORTFOLIO_MARKING_PENDING) {
+    throw new ApiError(
+      'Evaluator marks can only be entered after the faculty has submitted their portfolio for marking',
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const { marks } = payload;
+  if (typeof marks !== 'number' || marks < 0) {
+    throw new ApiError('A valid numeric "marks" value is required', HttpStatus.BAD_REQUEST);
+  }
+
+  switch (actor.role) {
+    case 'dean':
+      appraisal.partD.deanMarks = marks;
+      appraisal.partD.isMarkDean = true;
+      break;
+    case 'hod':
+      appraisal.partD.hodMarks = marks;
+      appraisal.partD.isMarkHOD = true;
+      break;
+    case 'director':
+      appraisal.partD.directorMarks = marks;
+      appraisal.partD.isMarkDirector = true;
+      break;
+    default:
+      throw new ApiError('Your role does not permit entering evaluator marks', HttpStatus.FORBIDDEN);
+  }
+
+  // Move on once every evaluator this appraisal needs has entered marks
+  const context = { targetRole: targetUser.role };
+  if (findTransitionError(appraisal, APPRAISAL_EVENTS.COMPLETE_PORTFOLIO_MARKS, actor, context)) {
+    await appraisal.save();
+    return {
+      appraisal,
+      message:
+        targetUser.role === 'hod' || targetUser.role === 'dean'
+          ? 'Evaluator marks saved. Awaiting Director marks.'
+          : 'Evaluator marks saved successfully. Awaiting additional evaluator marks.',
+    };
+  }
+
+  transitionAppraisal(appraisal, APPRAISAL_EVENTS.COMPLETE_PORTFOLIO_MARKS, actor, context);
+  await appraisal.save();
+  return {
+    appraisal,
+    message: 'Evaluator marks saved successfully. Status updated to Marks Verification Pending.',
+  };
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// VERIFY MARKS
+// Payload: { A: { verified_marks }, C: {...}, D: {...}, E: {...} } — Part B is read-only
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Payload section → the part whose verified total it sets. */
+const VERIFIED_SECTIONS = { A: 'partA', C: 'partC', D: 'partD', E: 'partE' } as const;
+
+export const verifyAppraisalMarks = async (
+  userId: string,
+  cycle: ResolvedCycle,
+  actor: ReviewActor,
+  payload: { A?: unknown; C?: unknown; D?: unknown; E?: unknown }
+): Promise<ReviewActionResult> => {
+  // Only HOD or Director can verify marks
+  if (actor.role !== 'hod' && actor.role !== 'director') {
+    throw new ApiError('Only HOD or Director can verify marks', HttpStatus.UNAUTHORIZED);
+  }
+
+  const appraisal = await findAppraisalForCycle(userId, cycle);
+  ensureWindowOpen(cycle, 'verification');
+
+  // Get user details to check department and role
+  const user = await User.findOne({ userId });
+  if (!user) throw new ApiError('User not found', HttpStatus.NOT_FOUND);
+
+  // HOD cannot verify marks for other HODs or Deans; only Director can
+  if (actor.role === 'hod' && (user.role === 'hod' || user.role === 'dean')) {
+    throw new ApiError(
+      'An HOD cannot verify marks for another HOD or Dean. Only a Director can do this.',
+      HttpStatus.FORBIDDEN
+    );
+  }
+
+  // Check the appraisal can move on before touching any marks
+  const transitionError = findTransitionError(appraisal, APPRAISAL_EVENTS.VERIFY_MARKS, actor);
+  if (transitionError) throw transitionError;
+
+  const sections = Object.keys(VERIFIED_SECTIONS) as (keyof typeof VERIFIED_SECTIONS)[];
+  if (sections.some((section) => !payload[section] || typeof payload[section] !== 'object')) {
+    throw new ApiError('Missing verified marks for sections A, C, D, or E', HttpStatus.BAD_REQUEST);
+  }
+
+  for (const section of sections) {
+    const { verified_marks: raw } = payload[section] as { verified_marks?: unknown };
+    if (raw === undefined) continue;
+    const value = Number(raw);
+    if (raw === null || raw === '' || !Number.isFinite(value) || value < 0) {
+      throw new ApiError(`"${section}.verified_marks" must be a non-negative number`, HttpStatus.BAD_REQUEST);
+    }
+    appraisal[VERIFIED_SECTIONS[section]].totalVerified = value;
+  }
+
+  // Grand total verified, with administration weightage, capped by the pinned rubric
+  const rules = await resolveRubricRules(appraisal);
+  const totalVerified =
+    appraisal.partA.totalVerified +
+    appraisal.partB.totalVerified +
+    appraisal.partC.totalVerified +
+    appraisal.partD.totalVerified +
+    appraisal.partE.totalVerified;
+
+  appraisal.summary.grandTotalVerified = computeGrandTotal(totalVerified, appraisal, rules);
+
+  transitionAppraisal(appraisal, APPRAISAL_EVENTS.VERIFY_MARKS, actor);
+  await appraisal.save();
+
+  return { appraisal, message: 'Marks verified successfully and moved to interaction pending' };
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SEND TO DIRECTOR / APPROVE / MODERATE
+// Payloads: {} / { remark } / { grandTotalVerified, justification }
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const sendAppraisalToDirector = async (
+  userId: string,
+  cycle: ResolvedCycle,
+  actor: ReviewActor
+): Promise<ReviewActionResult> => {
+  const appraisal = await findAppraisalForCycle(userId, cycle);
+
+  transitionAppraisal(appraisal, APPRAISAL_EVENTS.SEND_TO_DIRECTOR, actor);
+  await appraisal.save();
+
+  return { appraisal, message: 'Appraisal sent to Director successfully' };
+};
+
+export const approveAppraisalFor = async (
+  userId: string,
+  cycle: ResolvedCycle,
+  actor: ReviewActor,
+  payload: { remark?: unknown }
+): Promise<ReviewActionResult> => {
+  const appraisal = await findAppraisalForCycle(userId, cycle);
+
+  transitionAppraisal(appraisal, APPRAISAL_EVENTS.APPROVE, actor, {
+    remark: typeof payload.remark === 'string' ? payload.remark : '',
+  });
+  await appraisal.save();
+
+  return { appraisal, message: 'Appraisal approved' };
+};
+
+/**
+ * Approves with a changed verified grand total. The previous total and the
+ * justification are kept in `moderations`; the per-part verified marks stay
+ * as the evaluators left them.
+ */
+export const moderateAppraisalFor = async (
+  userId: string,
+  cycle: ResolvedCycle,
+  actor: ReviewActor,
+  payload: { grandTotalVerified?: unknown; justification?: unknown }
+): Promise<ReviewActionResult> => {
+  const appraisal = await findAppraisalForCycle(userId, cycle);
+  const { grandTotalVerified, justification } = payload;
+
+  const rules = await resolveRubricRules(appraisal);
+  if (
+    typeof grandTotalVerified !== 'number' ||
+    !Number.isFinite(grandTotalVerified) ||
+    grandTotalVerified < 0 ||
+    grandTotalVerified > rules.grandTotalMax
+  ) {
+    throw new ApiError(
+      `"grandTotalVerified" must be a number between 0 and ${rules.grandTotalMax}`,
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const previousTotal = appraisal.summary.grandTotalVerified;
+  const reason = typeof justification === 'string' ? justification.trim() : '';
+  transitionAppraisal(appraisal, APPRAISAL_EVENTS.MODERATE, actor, {
+    justification: reason,
+    // The totals live in `moderations`; the history remark is read by more people
+    remark: `Verified total moderated: ${reason}`,
+  });
+
+  appraisal.moderations.push({
+    previousTotal,
+    moderatedTotal: grandTotalVerified,
+    justification: reason,
+    moderatedBy: actor.userId,
+    moderatedAt: new Date(),
+  });
+  appraisal.summary.grandTotalVerified = grandTotalVerified;
+  await appraisal.save();
+
+  return { appraisal, message: 'Appraisal moderated and approved' };
+};
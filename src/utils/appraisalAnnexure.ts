@@ -0,0 +1,354 @@
+/**
+ * appraisalAnnexure.ts
+ *
+ * Detail pages appended to the filled appraisal PDF. The template only has
+ * room for section totals; the annexure lists what they were computed from —
+ * Part A courses, Part B items with their entries and proof links, and the
+ * Part E contributions — so a printed copy can be audited line by line.
+ *
+ * Tables are drawn with pdf-lib's standard Helvetica, wrap inside their cells
+ * and continue on a new page (header repeated) when they run past the bottom
+ * margin. Every annexure page gets a footer with the faculty name, the cycle
+ * and its page number.
+ */
+
+import { PDFDocument, PDFFont, PDFPage, PageSizes, StandardFonts, rgb } from 'pdf-lib';
+import { formatAcademicYear } from './cycle';
+import { PART_B_ITEM_PATHS, getPartBItem } from './scoring';
+import { formatValue, type PrintableAppraisal } from './appraisalTemplateData';
+
+interface AnnexureColumn {
+  header: string;
+  /** Relative width; the columns of a table share the printable width. */
+  weight: number;
+  align?: 'left' | 'right';
+}
+
+interface RowLayout {
+  /** Wrapped lines, per cell. */
+  lines: string[][];
+  height: number;
+  header: boolean;
+}
+
+interface AnnexureTable {
+  title: string;
+  columns: AnnexureColumn[];
+  rows: string[][];
+  /** Printed instead of the table when there are no rows. */
+  emptyText: string;
+}
+
+const [PAGE_WIDTH, PAGE_HEIGHT] = PageSizes.A4;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+/** Tables stop here; the footer sits below. */
+const BOTTOM = MARGIN + 16;
+
+const FONT_SIZE = 7.5;
+const LINE_HEIGHT = 9;
+const CELL_PADDING = 3;
+const TITLE_SIZE = 11;
+/** Title line plus the gap before the table under it. */
+const TITLE_HEIGHT = TITLE_SIZE + 7;
+/** Tallest row that still fits on a page under a continued title and header. */
+const MAX_ROW_LINES = Math.floor((PAGE_HEIGHT - MARGIN - BOTTOM - 60) / LINE_HEIGHT);
+const SECTION_GAP = 14;
+
+const BORDER_COLOR = rgb(0.6, 0.6, 0.6);
+const HEADER_FILL = rgb(0.9, 0.9, 0.9);
+const MUTED_COLOR = rgb(0.35, 0.35, 0.35);
+
+/** Empty values print as a dash so a blank cell never looks like a missed field. */
+const cell = (value: unknown): string => formatValue(value) || '—';
+
+/** "patents_individualGranted" → "Patents: Individual Granted". */
+const partBItemLabel = (path: string): string =>
+  path
+    .split('_')
+    .map((part) => part.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, (char) => char.toUpperCase()))
+    .join(': ');
+
+// ── Tables ───────────────────────────────────────────────────────────────────
+
+const buildAnnexureTables = (appraisal: NonNullable<PrintableAppraisal['appraisal']>): AnnexureTable[] => {
+  const courses = appraisal.partA?.courses ?? [];
+
+  const items: string[][] = [];
+  const entries: string[][] = [];
+  for (const path of PART_B_ITEM_PATHS) {
+    const item = getPartBItem(appraisal.partB, path);
+    const itemEntries = item?.entries ?? [];
+    if (!item || (!item.count && !item.claimed && !item.verified && itemEntries.length === 0)) continue;
+
+    const label = partBItemLabel(path);
+    items.push([label, cell(item.count), cell(item.claimed), cell(item.verified), cell(item.proof)]);
+    for (const entry of itemEntries) {
+      entries.push([
+        label,
+        cell(entry.title),
+        cell((entry.authors ?? []).join(', ')),
+        cell([entry.venue, entry.year].filter(Boolean).join(', ')),
+        cell(entry.identifier),
+        cell(entry.indexing),
+        cell(entry.quantity),
+        cell(entry.verification?.status),
+        cell(entry.proof),
+      ]);
+    }
+  }
+
+  const contributions = (appraisal.partE?.bulletPoints ?? '')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => [line]);
+
+  return [
+    {
+      title: 'Part A — Course-wise metrics',
+      columns: [
+        { header: 'Course', weight: 1.1 },
+        { header: 'Semester', weight: 0.9 },
+        { header: '60% and above', weight: 0.7, align: 'right' },
+        { header: '50–59%', weight: 0.6, align: 'right' },
+        { header: '40–49%', weight: 0.6, align: 'right' },
+        { header: 'Total Students', weight: 0.7, align: 'right' },
+        { header: 'Result Marks', weight: 0.7, align: 'right' },
+        { header: 'CO Attainment %', weight: 0.8, align: 'right' },
+        { header: 'CO On Time', weight: 0.6 },
+        { header: 'CO Marks', weight: 0.6, align: 'right' },
+        { header: 'Present / Enrolled', weight: 0.9, align: 'right' },
+        { header: 'Engagement Marks', weight: 0.9, align: 'right' },
+        { header: 'Feedback %', weight: 0.7, align: 'right' },
+        { header: 'Feedback Marks', weight: 0.8, align: 'right' },
+      ],
+      rows: courses.map((course) => [
+        cell(course.code),
+        cell(course.semester),
+        cell(course.studentsAbove60),
+        cell(course.students50to59),
+        cell(course.students40to49),
+        cell(course.totalStudents),
+        cell(course.resultMarks),
+        cell(course.coAttainment),
+        cell(course.timelySubmissionCO),
+        cell(course.coMarks),
+        `${cell(course.studentsPresent)} / ${cell(course.totalEnrolledStudents)}`,
+        cell(course.engagementMarks),
+        cell(course.feedbackPercentage),
+        cell(course.feedbackMarks),
+      ]),
+      emptyText: 'No courses recorded.',
+    },
+    {
+      title: 'Part B — Items claimed',
+      columns: [
+        { header: 'Item', weight: 2.2 },
+        { header: 'Count', weight: 0.6, align: 'right' },
+        { header: 'Claimed', weight: 0.7, align: 'right' },
+        { header: 'Verified', weight: 0.7, align: 'right' },
+        { header: 'Proof', weight: 3.2 },
+      ],
+      rows: items,
+      emptyText: 'No Part B items claimed.',
+    },
+    {
+      title: 'Part B — Entries',
+      columns: [
+        { header: 'Item', weight: 1.4 },
+        { header: 'Title', weight: 2.2 },
+        { header: 'Authors', weight: 1.4 },
+        { header: 'Venue, Year', weight: 1.4 },
+        { header: 'Identifier', weight: 1.1 },
+        { header: 'Indexing', weight: 0.8 },
+        { header: 'Qty', weight: 0.4, align: 'right' },
+        { header: 'Status', weight: 0.8 },
+        { header: 'Proof', weight: 1.8 },
+      ],
+      rows: entries,
+      emptyText: 'No itemised Part B entries.',
+    },
+    {
+      title: 'Part E — Contributions',
+      columns: [{ header: 'Contribution', weight: 1 }],
+      rows: contributions,
+      emptyText: 'No contributions recorded.',
+    },
+  ];
+};
+
+// ── Layout ───────────────────────────────────────────────────────────────────
+
+/** Standard fonts are WinAnsi-encoded; anything else would make pdf-lib throw. */
+const toFontCharset = (text: string, charset: Set<number>): string =>
+  Array.from(text, (char) => (charset.has(char.codePointAt(0)!) ? char : '?')).join('');
+
+/**
+ * Split `text` into lines no wider than `maxWidth`. Words that do not fit on
+ * a line of their own (URLs, DOIs) are broken between characters.
+ */
+const wrapText = (text: string, font: PDFFont, size: number, maxWidth: number, charset: Set<number>): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean).map((w) => toFontCharset(w, charset))) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = '';
+      for (const char of word) {
+        if (line && font.widthOfTextAtSize(line + char, size) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+/**
+ * Append the annexure pages for `printable` to `pdfDoc`. Nothing is added
+ * when the faculty has no appraisal for the year.
+ */
+export const appendAppraisalAnnexure = async (pdfDoc: PDFDocument, printable: PrintableAppraisal): Promise<void> => {
+  if (!printable.appraisal) return;
+
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const bold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const charset = new Set(font.getCharacterSet());
+  const cycleLabel = formatAcademicYear(printable.appraisalYear);
+
+  const pages: PDFPage[] = [];
+  let page!: PDFPage;
+  let y = 0;
+
+  const newPage = (): void => {
+    page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    pages.push(page);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const drawLine = (text: string, size: number, withFont: PDFFont, color = rgb(0, 0, 0)): void => {
+    y -= size + 3;
+    page.drawText(toFontCharset(text, charset), { x: MARGIN, y, size, font: withFont, color });
+  };
+
+  const drawTitle = (title: string): void => {
+    drawLine(title, TITLE_SIZE, bold);
+    y -= TITLE_HEIGHT - TITLE_SIZE - 3;
+  };
+
+  /** Wrap each cell to its column; a row taller than a page is cut short. */
+  const layoutRow = (cells: string[], widths: number[], header: boolean): RowLayout => {
+    const rowFont = header ? bold : font;
+    const lines = cells.map((text, i) => {
+      const wrapped = wrapText(text, rowFont, FONT_SIZE, widths[i] - 2 * CELL_PADDING, charset);
+      return wrapped.length > MAX_ROW_LINES
+        ? [...wrapped.slice(0, MAX_ROW_LINES - 1), `${wrapped[MAX_ROW_LINES - 1]}…`]
+        : wrapped;
+    });
+    const height = Math.max(...lines.map((cellLines) => cellLines.length)) * LINE_HEIGHT + 2 * CELL_PADDING;
+    return { lines, height, header };
+  };
+
+  const drawRow = (row: RowLayout, columns: AnnexureColumn[], widths: number[]): void => {
+    const rowFont = row.header ? bold : font;
+    let x = MARGIN;
+    row.lines.forEach((cellLines, i) => {
+      page.drawRectangle({
+        x,
+        y: y - row.height,
+        width: widths[i],
+        height: row.height,
+        borderColor: BORDER_COLOR,
+        borderWidth: 0.5,
+        color: row.header ? HEADER_FILL : undefined,
+      });
+      cellLines.forEach((line, n) => {
+        const textX = columns[i].align === 'right' && !row.header
+          ? x + widths[i] - CELL_PADDING - rowFont.widthOfTextAtSize(line, FONT_SIZE)
+          : x + CELL_PADDING;
+        page.drawText(line, {
+          x: textX,
+          y: y - CELL_PADDING - (n + 1) * LINE_HEIGHT + 2,
+          size: FONT_SIZE,
+          font: rowFont,
+        });
+      });
+      x += widths[i];
+    });
+    y -= row.height;
+  };
+
+  const drawTable = (table: AnnexureTable): void => {
+    const totalWeight = table.columns.reduce((sum, column) => sum + column.weight, 0);
+    const widths = table.columns.map((column) => (column.weight / totalWeight) * CONTENT_WIDTH);
+    const header = layoutRow(table.columns.map((column) => column.header), widths, true);
+    const rows = table.rows.map((row) => layoutRow(row, widths, false));
+
+    // Keep the title with the header and at least one row
+    const firstRowHeight = rows.length > 0 ? rows[0].height : LINE_HEIGHT;
+    if (y - TITLE_HEIGHT - header.height - firstRowHeight < BOTTOM) newPage();
+
+    drawTitle(table.title);
+    if (rows.length === 0) {
+      drawLine(table.emptyText, FONT_SIZE + 1, font, MUTED_COLOR);
+      y -= SECTION_GAP;
+      return;
+    }
+    drawRow(header, table.columns, widths);
+
+    for (const row of rows) {
+      if (y - row.height < BOTTOM) {
+        newPage();
+        drawTitle(`${table.title} (continued)`);
+        drawRow(header, table.columns, widths);
+      }
+      drawRow(row, table.columns, widths);
+    }
+    y -= SECTION_GAP;
+  };
+
+  // ── 1. Heading ───────────────────────────────────────────────────────────
+  newPage();
+  drawLine('Annexure — Appraisal details', 14, bold);
+  drawLine(
+    [printable.name, printable.designation, printable.department, `Appraisal cycle ${cycleLabel}`]
+      .filter(Boolean)
+      .join('  |  '),
+    9,
+    font,
+    MUTED_COLOR,
+  );
+  y -= SECTION_GAP;
+
+  // ── 2. Tables ────────────────────────────────────────────────────────────
+  for (const table of buildAnnexureTables(printable.appraisal)) drawTable(table);
+
+  // ── 3. Footers, now that the page count is known ─────────────────────────
+  const footerLeft = toFontCharset(`${printable.name} — Appraisal cycle ${cycleLabel}`, charset);
+  pages.forEach((annexurePage, i) => {
+    const footerRight = `Annexure page ${i + 1} of ${pages.length}`;
+    annexurePage.drawLine({
+      start: { x: MARGIN, y: MARGIN },
+      end: { x: PAGE_WIDTH - MARGIN, y: MARGIN },
+      thickness: 0.5,
+      color: BORDER_COLOR,
+    });
+    annexurePage.drawText(footerLeft, { x: MARGIN, y: MARGIN - 12, size: FONT_SIZE, font, color: MUTED_COLOR });
+    annexurePage.drawText(footerRight, {
+      x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(footerRight, FONT_SIZE),
+      y: MARGIN - 12,
+      size: FONT_SIZE,
+      font,
+      color: MUTED_COLOR,
+    });
+  });
+};
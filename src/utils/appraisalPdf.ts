@@ -0,0 +1,28 @@
+import { getStorage, parseStorageRef } from './storage';
+
+/**
+ * Storage key of a faculty's generated appraisal PDF for a year: the copy the
+ * faculty may see, with verified marks withheld until results are published.
+ */
+export const appraisalPdfKey = (userId: string, appraisalYear: number): string =>
+  `${appraisalYear}/pdfs/${userId}.pdf`;
+
+/**
+ * Storage key of a reviewer's render of a faculty's appraisal PDF. It shows
+ * verified marks, so it never shares a key with the faculty's own copy.
+ */
+export const reviewerAppraisalPdfKey = (userId: string, appraisalYear: number, reviewerId: string): string =>
+  `${appraisalYear}/pdfs/reviewers/${reviewerId}/${userId}.pdf`;
+
+/**
+ * Signed view URL of the stored appraisal PDF. `pdfUrl` is the appraisal's
+ * stored reference ("driver:key"); older records hold the Cloudinary URL
+ * itself, which maps to the same key in the Cloudinary backend.
+ */
+export const getSignedAppraisalPdfUrl = (userId: string, appraisalYear: number, pdfUrl: string): string => {
+  const ref = parseStorageRef(pdfUrl);
+  return getStorage(ref?.driver ?? 'cloudinary').signedUrl(ref?.key ?? appraisalPdfKey(userId, appraisalYear), {
+    fileName: `${userId}.pdf`,
+    contentType: 'application/pdf',
+  });
+};
@@ -0,0 +1,248 @@
+import {
+  APPRAISAL_STATUS,
+  APPRAISAL_EVENTS,
+  REVIEW_STATUSES,
+  type AppraisalStatus,
+  type AppraisalEvent,
+} from '../constant/appraisal';
+import { type UserRole } from '../constant/userInfo';
+import { type IFacultyAppraisal } from '../models/detailedAppraisal';
+import { ApiError } from '../middleware/error.middleware';
+import { HttpStatus } from './response';
+import { setAppraisalStatus, type StatusActor } from './statusHistory';
+
+/**
+ * Who may fire a transition. "owner" is the faculty whose appraisal it is,
+ * whatever their system role; "verifier" is a Part B verification team member.
+ */
+type TransitionActor = UserRole | 'owner' | 'verifier';
+
+/** Facts a guard may need that are not stored on the appraisal itself. */
+export interface TransitionContext {
+  /** Owner's current system role; defaults to appraisal.role. */
+  targetRole?: string;
+  /** Set by the interaction handler once every evaluator has submitted. */
+  interactionComplete?: boolean;
+  /** Director's reason for changing the verified total when moderating. */
+  justification?: string;
+  /** Free-text note kept in the status history. */
+  remark?: string;
+}
+
+interface TransitionGuard {
+  reason: string;
+  check: (appraisal: IFacultyAppraisal, context: TransitionContext) => boolean;
+}
+
+interface Transition {
+  event: AppraisalEvent;
+  from: readonly AppraisalStatus[];
+  /** Fixed target, or derived from the appraisal (e.g. resume after revision). */
+  to: AppraisalStatus | ((appraisal: IFacultyAppraisal) => AppraisalStatus);
+  actors: readonly TransitionActor[];
+  guards?: readonly TransitionGuard[];
+}
+
+/**
+ * Whether every evaluator the appraisal needs has entered portfolio marks.
+ * HOD and Dean appraisals need only the Director; faculty need the HOD and/or
+ * Dean depending on portfolio type, and Associate Deans both unless the
+ * portfolio is institute-only.
+ */
+export const arePortfolioMarksComplete = (
+  appraisal: IFacultyAppraisal,
+  targetRole: string = appraisal.role
+): boolean => {
+  const { partD } = appraisal;
+
+  if (targetRole === 'hod' || targetRole === 'dean') return partD.isMarkDirector;
+
+  let requiresHOD = partD.portfolioType === 'both' || partD.portfolioType === 'department';
+  let requiresDean = partD.portfolioType === 'both' || partD.portfolioType === 'institute';
+
+  if (appraisal.designation === 'Associate Dean' && partD.portfolioType !== 'institute') {
+    requiresHOD = true;
+    requiresDean = true;
+  }
+
+  return (!requiresHOD || partD.isMarkHOD) && (!requiresDean || partD.isMarkDean);
+};
+
+const GUARDS = {
+  declarationAgreed: {
+    reason: 'You must agree to the declaration before submitting',
+    check: (appraisal) => appraisal.declaration.isAgreed,
+  },
+  portfolioMarksComplete: {
+    reason: 'All required portfolio marks have not been entered yet',
+    check: (appraisal, context) => arePortfolioMarksComplete(appraisal, context.targetRole),
+  },
+  interactionComplete: {
+    reason: 'Not every interaction evaluation has been submitted yet',
+    check: (_appraisal, context) => context.interactionComplete === true,
+  },
+  moderationJustified: {
+    reason: 'A justification is required to moderate the verified total',
+    check: (_appraisal, context) => !!context.justification?.trim(),
+  },
+} satisfies Record<string, TransitionGuard>;
+
+/**
+ * The whole appraisal workflow. An event may have several rows when different
+ * actors may fire it from different states; the first matching row applies.
+ */
+export const APPRAISAL_TRANSITIONS: readonly Transition[] = [
+  {
+    event: APPRAISAL_EVENTS.SUBMIT,
+    from: [APPRAISAL_STATUS.PEDING],
+    to: APPRAISAL_STATUS.VERIFICATION_PENDING,
+    actors: ['owner'],
+    guards: [GUARDS.declarationAgreed],
+  },
+  {
+    event: APPRAISAL_EVENTS.RESUBMIT,
+    from: [APPRAISAL_STATUS.REVISION_REQUESTED],
+    // Resume at the review stage that sent it back
+    to: (appraisal) =>
+      appraisal.revisions[appraisal.revisions.length - 1]?.fromStatus ??
+      APPRAISAL_STATUS.VERIFICATION_PENDING,
+    actors: ['owner'],
+    guards: [GUARDS.declarationAgreed],
+  },
+  {
+    event: APPRAISAL_EVENTS.VERIFY_PART_B,
+    from: [APPRAISAL_STATUS.VERIFICATION_PENDING],
+    to: APPRAISAL_STATUS.PORTFOLIO_MARKING_PENDING,
+    actors: ['verifier'],
+  },
+  {
+    event: APPRAISAL_EVENTS.COMPLETE_PORTFOLIO_MARKS,
+    from: [APPRAISAL_STATUS.PORTFOLIO_MARKING_PENDING],
+    to: APPRAISAL_STATUS.MARKS_VERIFICATION_PENDING,
+    actors: ['dean', 'hod', 'director'],
+    guards: [GUARDS.portfolioMarksComplete],
+  },
+  {
+    event: APPRAISAL_EVENTS.VERIFY_MARKS,
+    from: [APPRAISAL_STATUS.MARKS_VERIFICATION_PENDING],
+    to: APPRAISAL_STATUS.INTERACTION_PENDING,
+    actors: ['hod', 'director'],
+  },
+  {
+    event: APPRAISAL_EVENTS.COMPLETE_INTERACTION,
+    from: [APPRAISAL_STATUS.INTERACTION_PENDING],
+    to: APPRAISAL_STATUS.COMPLETED,
+    actors: ['hod', 'dean', 'external', 'director'],
+    guards: [GUARDS.interactionComplete],
+  },
+  {
+    event: APPRAISAL_EVENTS.SEND_TO_DIRECTOR,
+    from: [APPRAISAL_STATUS.COMPLETED],
+    to: APPRAISAL_STATUS.SENT_TO_DIRECTOR,
+    actors: ['hod'],
+  },
+  {
+    event: APPRAISAL_EVENTS.REQUEST_REVISION,
+    from: REVIEW_STATUSES,
+    to: APPRAISAL_STATUS.REVISION_REQUESTED,
+    actors: ['hod', 'dean', 'director'],
+  },
+  {
+    // The verification team only sees Part B, and only while verifying it
+    event: APPRAISAL_EVENTS.REQUEST_REVISION,
+    from: [APPRAISAL_STATUS.VERIFICATION_PENDING],
+    to: APPRAISAL_STATUS.REVISION_REQUESTED,
+    actors: ['verifier'],
+  },
+  {
+    event: APPRAISAL_EVENTS.APPROVE,
+    from: [APPRAISAL_STATUS.SENT_TO_DIRECTOR],
+    to: APPRAISAL_STATUS.APPROVED,
+    actors: ['director'],
+  },
+  {
+    // Moderation approves with a changed total; an approved appraisal may be re-moderated until published
+    event: APPRAISAL_EVENTS.MODERATE,
+    from: [APPRAISAL_STATUS.SENT_TO_DIRECTOR, APPRAISAL_STATUS.APPROVED],
+    to: APPRAISAL_STATUS.APPROVED,
+    actors: ['director'],
+    guards: [GUARDS.moderationJustified],
+  },
+  {
+    event: APPRAISAL_EVENTS.PUBLISH,
+    from: [APPRAISAL_STATUS.APPROVED],
+    to: APPRAISAL_STATUS.PUBLISHED,
+    actors: ['director'],
+  },
+];
+
+const actsAs = (appraisal: IFacultyAppraisal, actor: StatusActor, allowed: TransitionActor): boolean =>
+  allowed === 'owner' ? actor.userId === appraisal.userId : actor.role === allowed;
+
+/**
+ * Why `event` cannot fire for this actor right now, as a 409 ApiError, or
+ * null when it can. Use this to test a transition without applying it.
+ */
+export const findTransitionError = (
+  appraisal: IFacultyAppraisal,
+  event: AppraisalEvent,
+  actor: StatusActor,
+  context: TransitionContext = {}
+): ApiError | null => {
+  const rows = APPRAISAL_TRANSITIONS.filter((t) => t.event === event);
+  const fromState = rows.filter((t) => t.from.includes(appraisal.status));
+  const details = { event, status: appraisal.status };
+
+  if (fromState.length === 0) {
+    return new ApiError(
+      `Cannot ${event}: appraisal is in "${appraisal.status}" status`,
+      HttpStatus.CONFLICT,
+      { ...details, allowedFrom: [...new Set(rows.flatMap((t) => t.from))] }
+    );
+  }
+
+  const row = fromState.find((t) => t.actors.some((allowed) => actsAs(appraisal, actor, allowed)));
+  if (!row) {
+    return new ApiError(
+      `A ${actor.role} cannot ${event} an appraisal in "${appraisal.status}" status`,
+      HttpStatus.CONFLICT,
+      details
+    );
+  }
+
+  const failed = (row.guards ?? []).filter((guard) => !guard.check(appraisal, context));
+  if (failed.length > 0) {
+    return new ApiError(failed[0].reason, HttpStatus.CONFLICT, {
+      ...details,
+      unmetGuards: failed.map((guard) => guard.reason),
+    });
+  }
+
+  return null;
+};
+
+/**
+ * Fire `event`: move the appraisal to the row's target status and record it in
+ * the status history. Throws a 409 ApiError for illegal transitions. The
+ * caller saves the document.
+ */
+export const transitionAppraisal = (
+  appraisal: IFacultyAppraisal,
+  event: AppraisalEvent,
+  actor: StatusActor,
+  context: TransitionContext = {}
+): AppraisalStatus => {
+  const error = findTransitionError(appraisal, event, actor, context);
+  if (error) throw error;
+
+  const row = APPRAISAL_TRANSITIONS.find(
+    (t) =>
+      t.event === event &&
+      t.from.includes(appraisal.status) &&
+      t.actors.some((allowed) => actsAs(appraisal, actor, allowed))
+  )!;
+  const to = typeof row.to === 'function' ? row.to(appraisal) : row.to;
+
+  setAppraisalStatus(appraisal, to, actor, context.remark);
+  return to;
+};
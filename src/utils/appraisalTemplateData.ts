@@ -0,0 +1,431 @@
+/**
+ * appraisalTemplateData.ts
+ *
+ * The placeholder values for the appraisal templates. Both renderers — the
+ * PDF editor in pdf.handler and the DOCX generator in document.handler — fill
+ * their templates from this one map, so a printed appraisal reads the same
+ * whichever path produced it.
+ */
+
+import path from 'path';
+import { FacultyAppraisal, type IFacultyAppraisal } from '../models/detailedAppraisal';
+import { User } from '../models/user';
+import { ApiError } from '../middleware/error.middleware';
+import { HttpStatus } from './response';
+import { DEFAULT_RUBRIC_RULES, type RubricRules } from '../constant/scoring';
+import { computePartC, toAcademicCadre, resolveRubricRules } from './scoring';
+import { academicYearOf } from './cycle';
+import { redactUnpublishedScores } from './publication';
+
+export const APPRAISAL_PDF_TEMPLATE_PATH = path.join(__dirname, '../../pdf_template/test2.pdf');
+export const APPRAISAL_DOCX_TEMPLATE_PATH = path.join(__dirname, '../../pdf_template/template.docx');
+
+export function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return '';
+    const rounded = Math.round(value * 100) / 100;
+    return Number.isInteger(rounded) ? String(rounded) : rounded.toString();
+  }
+
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+
+  return String(value).trim();
+}
+
+/**
+ * Like formatValue for a mark, but a null mark — one withheld from the
+ * faculty until results are published (see redactUnpublishedScores) —
+ * prints as a dash rather than 0.
+ */
+const formatMark = (value: number | null | undefined): string =>
+  value === null ? '—' : formatValue(value ?? 0);
+
+/** Sum of marks, or null when any of them is withheld. */
+const sumMarks = (...marks: (number | null | undefined)[]): number | null =>
+  marks.some((mark) => mark === null) ? null : marks.reduce<number>((sum, mark) => sum + (mark ?? 0), 0);
+
+function getDesignationTotalSlots(
+  designation: string,
+  claimed: number,
+  verified?: number | null,
+): Record<string, string> {
+  const isProfessor = designation === 'Professor';
+  const isAssociateProfessor = designation === 'Associate Professor';
+  const isAssistantProfessor = designation === 'Assistant Professor';
+
+  return {
+    Prof: isProfessor ? formatValue(claimed) : '',
+    Assoc: isAssociateProfessor ? formatValue(claimed) : '',
+    Assis: isAssistantProfessor ? formatValue(claimed) : '',
+    ProfVerified: isProfessor ? formatMark(verified) : '',
+    AssocVerified: isAssociateProfessor ? formatMark(verified) : '',
+    AssisVerified: isAssistantProfessor ? formatMark(verified) : '',
+  };
+}
+
+// ── Variable map ─────────────────────────────────────────────────────────────
+/**
+ * Returns the placeholder map shared by test2.pdf and template.docx.
+ * Identity fields and appraisal marks come from the DB; factors, caps and
+ * maxima come from the rubric the appraisal is pinned to. Where the two
+ * templates name a field differently (test2.pdf abbreviates a few long
+ * names), both spellings are supplied.
+ */
+export function buildAppraisalTemplateData(
+  userName: string,
+  designation: string,
+  department: string,
+  rules: RubricRules,
+  appraisal?: any,
+): Record<string, string> {
+  const partA = appraisal?.partA ?? {};
+  const partB = appraisal?.partB ?? {};
+  const partC = appraisal?.partC ?? {};
+  const partD = appraisal?.partD ?? {};
+  const partE = appraisal?.partE ?? {};
+  const summary = appraisal?.summary ?? {};
+
+  const fromYear = Number.isFinite(appraisal?.appraisalYear)
+    ? Number(appraisal.appraisalYear)
+    : academicYearOf();
+  const toYear = fromYear + 1;
+  const academicYearRange = `1st April ${fromYear} to 31st March ${toYear}`;
+
+  const sectionAMarks = partA.sectionMarks ?? {};
+  const sectionARawTotal = Object.values(sectionAMarks).reduce(
+    (sum: number, value) => sum + (typeof value === 'number' ? value : 0),
+    0,
+  );
+
+  const partAFactorProfessor = rules.partA.roleFactor.Professor;
+  const partAFactorAssociate = rules.partA.roleFactor['Associate Professor'];
+  const partAFactorAssistant = rules.partA.roleFactor['Assistant Professor'];
+
+  const partAMaxProfessor = rules.partA.roleMax.Professor;
+  const partAMaxAssociate = rules.partA.roleMax['Associate Professor'];
+  const partAMaxAssistant = rules.partA.roleMax['Assistant Professor'];
+
+  const partBMaxProfessor = rules.partB.roleMax.Professor;
+  const partBMaxAssociate = rules.partB.roleMax['Associate Professor'];
+  const partBMaxAssistant = rules.partB.roleMax['Assistant Professor'];
+
+  const partCMaxProfessor = rules.partC.roleMax.Professor;
+  const partCMaxAssociate = rules.partC.roleMax['Associate Professor'];
+  const partCMaxAssistant = rules.partC.roleMax['Assistant Professor'];
+
+  const partBDesignationTotals = getDesignationTotalSlots(
+    designation,
+    partB.totalClaimed ?? 0,
+    partB.totalVerified,
+  );
+
+  // Part C is always recomputed from its inputs so the report matches updatePartC.
+  const partCScore = computePartC(partC, toAcademicCadre(designation), rules);
+
+  const partCDesignationTotals = getDesignationTotalSlots(
+    designation,
+    partCScore.totalClaimed,
+  );
+
+  const isAssociateDeanRole =
+    appraisal?.role === 'associate_dean' || partD.administrativeRole === 'associate_dean';
+
+  const deanAndHodMarks = sumMarks(partD.deanMarks, partD.hodMarks);
+  const partDSuperiorMarks: number | null | undefined = partD.isAdministrativeRole
+    ? isAssociateDeanRole
+      ? partD.adminDeanMarks
+      : partD.directorMarks
+    : partD.portfolioType === 'both'
+      ? (deanAndHodMarks === null ? null : deanAndHodMarks / 2)
+      : partD.portfolioType === 'institute'
+        ? partD.deanMarks
+        : partD.hodMarks;
+
+  // Stored grand totals already include administration weightage (see computeGrandTotal)
+  const grandTotal = summary.grandTotalClaimed ?? 0;
+  const grandVerifiedTotal = summary.grandTotalVerified;
+
+  return {
+    // ── Identity (live from DB) ──────────────────────────────────────────────
+    faculty_name:        userName,
+    faculty_designation: designation,
+    faculty_department:  department.replace(/\b\w/g, (ch) => ch.toUpperCase()),
+    from_year:           String(fromYear),
+    to_year:             String(toYear),
+    academic_year_range: academicYearRange,
+
+    // ── Part A ───────────────────────────────────────────────────────────────
+    result_analysis_marks:     formatValue(sectionAMarks.resultAnalysis ?? 0),
+    course_outcome_marks:      formatValue(sectionAMarks.courseOutcome ?? 0),
+    elearning_content_marks:   formatValue(sectionAMarks.eLearning ?? 0),
+    academic_engagement_marks: formatValue(sectionAMarks.academicEngagement ?? 0),
+    teaching_load_marks:       formatValue(sectionAMarks.teachingLoad ?? 0),
+    projects_guided_marks:     formatValue(sectionAMarks.projectsGuided ?? 0),
+    student_feedback_marks:    formatValue(sectionAMarks.studentFeedback ?? 0),
+    ptg_meetings_marks:        formatValue(sectionAMarks.ptgMeetings ?? 0),
+    section_a_total:           formatValue(sectionARawTotal),
+    Prof_A:                    formatValue(partAFactorProfessor),
+    Assoc_A:                   formatValue(partAFactorAssociate),
+    Assis_A:                   formatValue(partAFactorAssistant),
+    Prof_A_total_marks:        formatValue(partAMaxProfessor),
+    Assoc_A_total_marks:       formatValue(partAMaxAssociate),
+    Assis_A_total_marks:       formatValue(partAMaxAssistant),
+    total_for_A:               formatValue(partA.totalClaimed ?? 0),
+    total_for_A_verified:      formatMark(partA.totalVerified),
+
+    // ── Part B ───────────────────────────────────────────────────────────────
+    sci_papers_marks:                           formatValue(partB.papers?.sci?.claimed ?? 0),
+    sci_papers_verified_marks:                  formatMark(partB.papers?.sci?.verified),
+    esci_papers_marks:                          formatValue(partB.papers?.esci?.claimed ?? 0),
+    esci_papers_verified_marks:                 formatMark(partB.papers?.esci?.verified),
+    scopus_papers_marks:                        formatValue(partB.papers?.scopus?.claimed ?? 0),
+    scopus_papers_verified_marks:               formatMark(partB.papers?.scopus?.verified),
+    ugc_papers_marks:                           formatValue(partB.papers?.ugc?.claimed ?? 0),
+    ugc_papers_verified_marks:                  formatMark(partB.papers?.ugc?.verified),
+    other_papers_marks:                         formatValue(partB.papers?.other?.claimed ?? 0),
+    other_papers_verified_marks:                formatMark(partB.papers?.other?.verified),
+    scopus_conf_marks:                          formatValue(partB.conferences?.scopus?.claimed ?? 0),
+    scopus_conf_verified_marks:                 formatMark(partB.conferences?.scopus?.verified),
+    other_conf_marks:                           formatValue(partB.conferences?.other?.claimed ?? 0),
+    other_conf_verified_marks:                  formatMark(partB.conferences?.other?.verified),
+    scopus_chapter_marks:                       formatValue(partB.bookChapters?.scopus?.claimed ?? 0),
+    scopus_chapter_verified_marks:              formatMark(partB.bookChapters?.scopus?.verified),
+    other_chapter_marks:                        formatValue(partB.bookChapters?.other?.claimed ?? 0),
+    other_chapter_verified_marks:               formatMark(partB.bookChapters?.other?.verified),
+    scopus_books_marks:                         formatValue(partB.books?.intlIndexed?.claimed ?? 0),
+    scopus_books_verified_marks:                formatMark(partB.books?.intlIndexed?.verified),
+    national_books_marks:                       formatValue(partB.books?.intlNational?.claimed ?? 0),
+    national_books_verified_marks:              formatMark(partB.books?.intlNational?.verified),
+    local_books_marks:                          formatValue(partB.books?.local?.claimed ?? 0),
+    local_b_verified_marks:                 formatMark(partB.books?.local?.verified),
+    local_books_verified_marks:             formatMark(partB.books?.local?.verified),
+    wos_citations_marks:                        formatValue(partB.citations?.wos?.claimed ?? 0),
+    wos_citations_verified_marks:               formatMark(partB.citations?.wos?.verified),
+    scopus_citations_marks:                     formatValue(partB.citations?.scopus?.claimed ?? 0),
+    scopus_citations_verified_marks:            formatMark(partB.citations?.scopus?.verified),
+    google_citations_marks:                     formatValue(partB.citations?.googleScholar?.claimed ?? 0),
+    google_citations_verified_marks:            formatMark(partB.citations?.googleScholar?.verified),
+    individual_copyright_registered_marks:          formatValue(partB.copyrights?.individualRegistered?.claimed ?? 0),
+    individual_copyright_registered_verified_marks: formatMark(partB.copyrights?.individualRegistered?.verified),
+    individual_copyright_granted_marks:             formatValue(partB.copyrights?.individualGranted?.claimed ?? 0),
+    individual_copyright_granted_verified_marks:    formatMark(partB.copyrights?.individualGranted?.verified),
+    institute_copyright_registered_marks:           formatValue(partB.copyrights?.instituteRegistered?.claimed ?? 0),
+    institute_copyright_registered_verified_marks:  formatMark(partB.copyrights?.instituteRegistered?.verified),
+    institute_copyright_granted_marks:              formatValue(partB.copyrights?.instituteGranted?.claimed ?? 0),
+    institute_copyright_granted_verified_marks:     formatMark(partB.copyrights?.instituteGranted?.verified),
+    individual_patent_registered_marks:             formatValue(partB.patents?.individualRegistered?.claimed ?? 0),
+    individual_patent_registered_verified_marks:    formatMark(partB.patents?.individualRegistered?.verified),
+    individual_patent_published_marks:              formatValue(partB.patents?.individualPublished?.claimed ?? 0),
+    individual_patent_published_verified_marks:     formatMark(partB.patents?.individualPublished?.verified),
+    individual_granted_marks:                       formatValue(partB.patents?.individualGranted?.claimed ?? 0),
+    individual_granted_verified_marks:              formatMark(partB.patents?.individualGranted?.verified),
+    individual_comm_marks:                formatValue(partB.patents?.individualCommercialized?.claimed ?? 0),
+    individual_commercialized_marks:      formatValue(partB.patents?.individualCommercialized?.claimed ?? 0),
+    individual_comm_verified_marks:       formatMark(partB.patents?.individualCommercialized?.verified),
+    individual_commercialized_verified_marks: formatMark(partB.patents?.individualCommercialized?.verified),
+    college_patent_registered_marks:                formatValue(partB.patents?.instituteRegistered?.claimed ?? 0),
+    college_patent_registered_verified_marks:       formatMark(partB.patents?.instituteRegistered?.verified),
+    college_patent_published_marks:                 formatValue(partB.patents?.institutePublished?.claimed ?? 0),
+    college_patent_published_verified_marks:        formatMark(partB.patents?.institutePublished?.verified),
+    college_granted_marks:                          formatValue(partB.patents?.instituteGranted?.claimed ?? 0),
+    college_granted_verified_marks:                 formatMark(partB.patents?.instituteGranted?.verified),
+    college_commercialized_marks:                   formatValue(partB.patents?.instituteCommercialized?.claimed ?? 0),
+    college_commercialized_verified_marks:          formatMark(partB.patents?.instituteCommercialized?.verified),
+    research_grants_marks:                          formatValue(partB.grants?.research?.claimed ?? 0),
+    research_grants_verified_marks:                 formatMark(partB.grants?.research?.verified),
+    training_marks:                                 formatValue(partB.revenueTraining?.claimed ?? 0),
+    training_verified_marks:                        formatMark(partB.revenueTraining?.verified),
+    nonresearch_grants_marks:                       formatValue(partB.grants?.nonResearch?.claimed ?? 0),
+    nonresearch_grants_verified_marks:              formatMark(partB.grants?.nonResearch?.verified),
+    commercialized_products_marks:                  formatValue(partB.products?.commercialized?.claimed ?? 0),
+    commercialized_products_verified_marks:         formatMark(partB.products?.commercialized?.verified),
+    developed_products_marks:                       formatValue(partB.products?.developed?.claimed ?? 0),
+    developed_products_verified_marks:              formatMark(partB.products?.developed?.verified),
+    poc_products_marks:                             formatValue(partB.products?.poc?.claimed ?? 0),
+    poc_products_verified_marks:                    formatMark(partB.products?.poc?.verified),
+    startup_revenue_pccoe_marks:                    formatValue(partB.startup?.revenue?.claimed ?? 0),
+    startup_revenue_pccoe_verified_marks:           formatMark(partB.startup?.revenue?.verified),
+    startup_funding_pccoe_marks:                    formatValue(partB.startup?.funding?.claimed ?? 0),
+    startup_funding_pccoe_verified_marks:           formatMark(partB.startup?.funding?.verified),
+    startup_products_marks:                         formatValue(partB.startup?.product?.claimed ?? 0),
+    startup_products_verified_marks:                formatMark(partB.startup?.product?.verified),
+    startup_poc_marks:                              formatValue(partB.startup?.poc?.claimed ?? 0),
+    startup_poc_verified_marks:                     formatMark(partB.startup?.poc?.verified),
+    startup_registered_marks:                       formatValue(partB.startup?.registered?.claimed ?? 0),
+    startup_registered_verified_marks:              formatMark(partB.startup?.registered?.verified),
+    international_awards_marks:                     formatValue(partB.awards?.international?.claimed ?? 0),
+    international_awards_verified_marks:            formatMark(partB.awards?.international?.verified),
+    government_awards_marks:                        formatValue(partB.awards?.government?.claimed ?? 0),
+    government_awards_verified_marks:               formatMark(partB.awards?.government?.verified),
+    national_awards_marks:                          formatValue(partB.awards?.national?.claimed ?? 0),
+    national_awards_verified_marks:                 formatMark(partB.awards?.national?.verified),
+    international_fel_marks:                 formatValue(partB.awards?.intlFellowship?.claimed ?? 0),
+    international_fellowship_marks:          formatValue(partB.awards?.intlFellowship?.claimed ?? 0),
+    intern_fel_ver_marks:        formatMark(partB.awards?.intlFellowship?.verified),
+    international_fellowship_verified_marks: formatMark(partB.awards?.intlFellowship?.verified),
+    national_fellowship_marks:                      formatValue(partB.awards?.nationalFellowship?.claimed ?? 0),
+    national_fellowship_verified_marks:             formatMark(partB.awards?.nationalFellowship?.verified),
+    active_mou_marks:                               formatValue(partB.industryInteraction?.activeMou?.claimed ?? 0),
+    active_mou_verified_marks:                      formatMark(partB.industryInteraction?.activeMou?.verified),
+    lab_development_marks:                          formatValue(partB.industryInteraction?.collaboration?.claimed ?? 0),
+    lab_development_verified_marks:                 formatMark(partB.industryInteraction?.collaboration?.verified),
+    internships_placements_marks:                   formatValue(partB.placement?.claimed ?? 0),
+    internships_placements_verified_marks:          formatMark(partB.placement?.verified),
+    B_total_marks:           formatValue(rules.partB.roleMax[designation as keyof typeof rules.partB.roleMax] ?? 0),
+    section_b_total:         formatValue(partB.totalClaimed ?? 0),
+    Prof_B:                  partBDesignationTotals.Prof,
+    Assoc_B:                 partBDesignationTotals.Assoc,
+    Assis_B:                 partBDesignationTotals.Assis,
+    Prof_B_total_marks:      formatValue(partBMaxProfessor),
+    Assoc_B_total_marks:     formatValue(partBMaxAssociate),
+    Assis_B_total_marks:     formatValue(partBMaxAssistant),
+    Prof_B_total_verified:   partBDesignationTotals.ProfVerified,
+    Assoc_B_total_verified:  partBDesignationTotals.AssocVerified,
+    Assis_B_total_verified:  partBDesignationTotals.AssisVerified,
+    total_for_B:             formatValue(partB.totalClaimed ?? 0),
+    total_for_B_verified:    formatMark(partB.totalVerified),
+    verf_committee_name:     '',
+
+    // ── Part C ───────────────────────────────────────────────────────────────
+    Prof_qualification_marks:  formatValue(partCScore.sectionMarks.qualification),
+    qualification_marks:       formatValue(partCScore.sectionMarks.qualification),
+    training_attended_marks:   formatValue(partCScore.sectionMarks.trainingAttended),
+    training_organized_marks:  formatValue(partCScore.sectionMarks.trainingOrganized),
+    phd_guided_marks:          formatValue(partCScore.sectionMarks.phdGuided),
+    section_c_total:           formatValue(partCScore.totalClaimed),
+    Prof_C:                    partCDesignationTotals.Prof,
+    Assoc_C:                   partCDesignationTotals.Assoc,
+    Assis_C:                   partCDesignationTotals.Assis,
+    Prof_C_total_marks:        formatValue(partCMaxProfessor),
+    Assoc_C_total_marks:       formatValue(partCMaxAssociate),
+    Assis_C_total_marks:       formatValue(partCMaxAssistant),
+    total_for_C:               formatValue(partCScore.totalClaimed),
+    total_for_C_verified:      formatMark(partC.totalVerified),
+
+    // ── Part D ───────────────────────────────────────────────────────────────
+    Institute_Portfolio:   formatValue(partD.instituteLevelPortfolio ?? ''),
+    Department_portfolio:  formatValue(partD.departmentLevelPortfolio ?? ''),
+    deanMarks:             formatMark(partD.deanMarks),
+    hodMarks:              formatMark(partD.hodMarks),
+    self_awarded_marks:    formatValue(
+      partD.isAdministrativeRole
+        ? (partD.adminSelfAwardedMarks ?? 0)
+        : (partD.selfAwardedMarks ?? 0),
+    ),
+    section_d_total:       formatValue(partD.totalClaimed ?? 0),
+    total_for_D_verified:  formatMark(partD.totalVerified),
+    // assDeanHODMarks: formatValue(partD.directorMarks ?? 0),
+
+    // ── Part E / Summary ──────────────────────────────────────────────────────
+    assDeanHODMarks:      formatMark(partD.directorMarks),
+    assDeanDeanMarks:     formatMark(partD.adminDeanMarks ?? partD.deanMarks),
+    assSelfawardedmarks:  formatValue(partD.adminSelfAwardedMarks ?? partD.selfAwardedMarks ?? 0),
+    sumMarks_hod_dean:    formatMark(deanAndHodMarks),
+    assTotalMarks:        formatMark(
+      sumMarks(
+        partD.isAdministrativeRole ? partD.adminSelfAwardedMarks : partD.selfAwardedMarks,
+        partDSuperiorMarks,
+      ),
+    ),
+    extra_marks:          formatValue(partE.totalClaimed ?? 0),
+    section_E_total:      formatValue(rules.partE.max),
+    total_for_E_verified: formatMark(partE.totalVerified),
+    grand_total:          formatValue(grandTotal),
+    grand_verified_marks: formatMark(grandVerifiedTotal),
+  };
+}
+
+
+// ── Loading ──────────────────────────────────────────────────────────────────
+
+/**
+ * One faculty's identity and appraisal for a year, as a given viewer may print
+ * them. `appraisal` is null when none was started.
+ */
+export interface PrintableAppraisal {
+  userId: string;
+  name: string;
+  designation: string;
+  department: string;
+  appraisalYear: number;
+  rules: RubricRules;
+  appraisal: IFacultyAppraisal | null;
+}
+
+/**
+ * Load what the templates and the annexure print. When the viewer is the
+ * faculty themselves, verified marks stay hidden until results are
+ * published. Throws ApiError (404) when the user does not exist.
+ */
+export const loadPrintableAppraisal = async (
+  userId: string,
+  appraisalYear: number,
+  viewerUserId?: string,
+): Promise<PrintableAppraisal> => {
+  const user = await User.findOne({ userId }).lean();
+  if (!user) throw new ApiError('User not found', HttpStatus.NOT_FOUND);
+
+  const appraisal = await FacultyAppraisal.findOne({ userId, appraisalYear }).lean<IFacultyAppraisal>();
+
+  // Faculty printing their own appraisal see verified marks only once results are published.
+  const visibleAppraisal = appraisal && viewerUserId === userId
+    ? redactUnpublishedScores(appraisal)
+    : appraisal;
+
+  return {
+    userId,
+    name: user.name,
+    designation: user.designation as string,
+    department: user.department as string,
+    appraisalYear,
+    rules: await resolveRubricRules(appraisal),
+    appraisal: visibleAppraisal,
+  };
+};
+
+/** The placeholder map for an appraisal loaded by loadPrintableAppraisal. */
+export const toAppraisalTemplateData = (printable: PrintableAppraisal): Record<string, string> =>
+  buildAppraisalTemplateData(
+    printable.name,
+    printable.designation,
+    printable.department,
+    printable.rules,
+    printable.appraisal ?? { appraisalYear: printable.appraisalYear },
+  );
+
+/**
+ * The placeholder map for one faculty and appraisal year, with the same
+ * redaction as loadPrintableAppraisal. Throws ApiError (404) when the user
+ * does not exist.
+ */
+export const loadAppraisalTemplateData = async (
+  userId: string,
+  appraisalYear: number,
+  viewerUserId?: string,
+): Promise<Record<string, string>> =>
+  toAppraisalTemplateData(await loadPrintableAppraisal(userId, appraisalYear, viewerUserId));
+
+/**
+ * Placeholder values for previewing a template without a real appraisal:
+ * a made-up Professor with nothing claimed yet.
+ */
+export const buildSampleTemplateData = (
+  appraisalYear: number,
+  rules: RubricRules = DEFAULT_RUBRIC_RULES,
+): Record<string, string> =>
+  buildAppraisalTemplateData('Sample Faculty', 'Professor', 'computer', rules, { appraisalYear });
+
+// ── Coverage check ───────────────────────────────────────────────────────────
+
+/** Every placeholder name the builder supplies, whatever the appraisal holds. */
+export const APPRAISAL_TEMPLATE_KEYS: ReadonlySet<string> = new Set(
+  Object.keys(buildAppraisalTemplateData('', '', '', DEFAULT_RUBRIC_RULES)),
+);
+
+/** Placeholders a template uses that the builder would leave unfilled, sorted. */
+export const findUnsuppliedPlaceholders = (placeholders: Iterable<string>): string[] =>
+  [...new Set(placeholders)].filter((name) => !APPRAISAL_TEMPLATE_KEYS.has(name)).sort();
@@ -0,0 +1,31 @@
+import { type IFacultyAppraisal } from '../models/detailedAppraisal';
+
+/** Plain-object view of a stored appraisal (e.g. from `.lean()` or `.toObject()`). */
+type StoredAppraisal = Pick<IFacultyAppraisal, 'appraisalYear' | 'partA' | 'partC' | 'partD'>;
+
+/**
+ * Structural data that survives into the next cycle's draft: course codes and
+ * semesters, portfolio names and ongoing PhD scholars. Everything else — counts,
+ * proofs, claimed/verified marks, evaluator marks and the declaration — is left
+ * to the schema defaults, so the faculty starts from zero on what they did
+ * this year. Marks are derived again as each part is saved.
+ */
+export const buildCarryForwardDraft = (previous: StoredAppraisal) => ({
+  carriedForwardFrom: previous.appraisalYear,
+  partA: {
+    courses: (previous.partA?.courses ?? []).map((course) => ({
+      code: course.code,
+      semester: course.semester,
+    })),
+  },
+  partC: {
+    phdGuided: { ongoing: previous.partC?.phdGuided?.ongoing ?? 0 },
+  },
+  partD: {
+    portfolioType: previous.partD?.portfolioType,
+    instituteLevelPortfolio: previous.partD?.instituteLevelPortfolio ?? '',
+    departmentLevelPortfolio: previous.partD?.departmentLevelPortfolio ?? '',
+    isAdministrativeRole: previous.partD?.isAdministrativeRole ?? false,
+    administrativeRole: previous.partD?.administrativeRole ?? '',
+  },
+});
@@ -0,0 +1,57 @@
+import { type IPartBEntry } from '../models/detailedAppraisal';
+
+/** Titles shorter than this (normalised) are too generic to match on. */
+const MIN_TITLE_KEY_LENGTH = 20;
+
+/**
+ * Identifiers that are neither a DOI nor an ISBN only count as a patent or
+ * registration number when at least this long (alphanumerics only) and
+ * holding a digit; "N/A", "Pending" or "IEEE" would otherwise collide.
+ */
+const MIN_ID_KEY_LENGTH = 6;
+
+const isbn10To13 = (isbn10: string): string => {
+  const body = `978${isbn10.slice(0, 9)}`;
+  const sum = [...body].reduce((total, digit, i) => total + Number(digit) * (i % 2 === 0 ? 1 : 3), 0);
+  return `${body}${(10 - (sum % 10)) % 10}`;
+};
+
+/**
+ * Normalise a DOI, ISBN or patent/registration number so that formatting
+ * differences ("https://doi.org/" prefixes, hyphens, case, ISBN-10 vs -13)
+ * do not hide a duplicate. Returns null when nothing usable is left.
+ */
+export const normalizeIdentifier = (raw: string): string | null => {
+  const value = raw.trim().toLowerCase();
+  if (!value) return null;
+
+  const doi = value.replace(/^(?:https?:\/\/(?:dx\.)?doi\.org\/|doi:\s*)/, '');
+  if (/^10\.\d{4,9}\/\S+$/.test(doi)) return `doi:${doi}`;
+
+  const isbn = value.replace(/^isbn(?:-?1[03])?:?/, '').replace(/[\s-]/g, '');
+  if (/^\d{9}[\dx]$/.test(isbn)) return `isbn:${isbn10To13(isbn)}`;
+  if (/^97[89]\d{10}$/.test(isbn)) return `isbn:${isbn}`;
+
+  const compact = value.replace(/[^a-z0-9]/g, '');
+  return compact.length >= MIN_ID_KEY_LENGTH && /\d/.test(compact) ? `id:${compact}` : null;
+};
+
+/**
+ * Lower-case a title and strip accents, punctuation and extra spaces.
+ * Returns null for titles too short to identify a work.
+ */
+export const normalizeTitle = (raw: string): string | null => {
+  const title = raw
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+  return title.length >= MIN_TITLE_KEY_LENGTH ? `title:${title}` : null;
+};
+
+/** Every key an entry can collide on: its identifier and its title. */
+export const claimKeys = (entry: Pick<IPartBEntry, 'identifier' | 'title'>): string[] =>
+  [normalizeIdentifier(entry.identifier ?? ''), normalizeTitle(entry.title ?? '')].filter(
+    (key): key is string => key !== null
+  );
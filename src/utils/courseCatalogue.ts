@@ -0,0 +1,145 @@
+import { Course } from '../models/course';
+import { User } from '../models/user';
+import { type ICourseMetric } from '../models/detailedAppraisal';
+import { DEPARTMENT, type DepartmentValue } from '../constant/department';
+import { courseKey } from './courseResults';
+
+/** Fields an HOD sets on a catalogue course. */
+export interface CourseInput {
+  code: string;
+  title: string;
+  semester: string;
+  credits: number;
+  instructors: string[];
+}
+
+/** A Part A course row that does not line up with the catalogue. */
+export interface CourseCatalogueIssue {
+  /** Index into partA.courses. */
+  index: number;
+  code: string;
+  semester: string;
+  message: string;
+}
+
+/** "cs 301" → "CS301", the form codes are stored in. */
+export const normalizeCourseCode = (code: string): string => code.replace(/\s+/g, '').toUpperCase();
+
+export const isDepartment = (value: unknown): value is DepartmentValue =>
+  DEPARTMENT.some((option) => option.value === value);
+
+/**
+ * Validate a create (all of code, title, semester required) or update (only
+ * the fields present) body. Instructors must be existing users.
+ */
+export const parseCourseInput = async (
+  body: Record<string, unknown>,
+  partial = false
+): Promise<{ value: Partial<CourseInput>; errors: string[] }> => {
+  const value: Partial<CourseInput> = {};
+  const errors: string[] = [];
+
+  for (const field of ['code', 'title', 'semester'] as const) {
+    const raw = body[field];
+    if (raw === undefined && partial) continue;
+    if (typeof raw !== 'string' || !raw.trim()) {
+      errors.push(`"${field}" is required`);
+      continue;
+    }
+    value[field] = field === 'code' ? normalizeCourseCode(raw) : raw.trim().replace(/\s+/g, ' ');
+  }
+
+  if (body.credits !== undefined) {
+    const credits = Number(body.credits);
+    if (!Number.isFinite(credits) || credits < 0) errors.push('"credits" must be a non-negative number');
+    else value.credits = credits;
+  }
+
+  if (body.instructors !== undefined) {
+    if (!Array.isArray(body.instructors) || body.instructors.some((id) => typeof id !== 'string' || !id.trim())) {
+      errors.push('"instructors" must be an array of userIds');
+    } else {
+      const instructors = [...new Set(body.instructors.map((id: string) => id.trim()))];
+      const found = await User.find({ userId: { $in: instructors } }, { userId: 1, _id: 0 }).lean();
+      const known = new Set(found.map((user) => user.userId));
+      const unknown = instructors.filter((id) => !known.has(id));
+      if (unknown.length > 0) errors.push(`Unknown instructor userId(s): ${unknown.join(', ')}`);
+      else value.instructors = instructors;
+    }
+  }
+
+  return { value, errors };
+};
+
+/**
+ * Check Part A course rows against the catalogue for the appraisal year.
+ *
+ * Only applies once the faculty's department has a catalogue for that year;
+ * until then every row passes. Rows are matched on code + semester across all
+ * departments (faculty also teach other departments' courses) and rewritten
+ * to the catalogue's spelling so they aggregate. When several departments
+ * list the same code, the course the faculty is assigned to wins, then the
+ * faculty's own department's. One the faculty is not assigned to is a
+ * warning. A course missing from the catalogue is an error, unless it may
+ * belong to a department that has no catalogue for the year yet (no
+ * department lists the code in any semester, and some department has none):
+ * that is a warning, as it cannot be checked.
+ */
+export const checkCoursesAgainstCatalogue = async (
+  userId: string,
+  department: string | undefined,
+  appraisalYear: number,
+  courses: Partial<ICourseMetric>[]
+): Promise<{ courses: Partial<ICourseMetric>[]; errors: CourseCatalogueIssue[]; warnings: CourseCatalogueIssue[] }> => {
+  const errors: CourseCatalogueIssue[] = [];
+  const warnings: CourseCatalogueIssue[] = [];
+
+  if (!department || !(await Course.exists({ appraisalYear, department }))) {
+    return { courses, errors, warnings };
+  }
+
+  const codes = [...new Set(courses.map((course) => normalizeCourseCode(String(course.code ?? ''))))];
+  const [catalogue, cataloguedDepartments] = await Promise.all([
+    Course.find({ appraisalYear, code: { $in: codes } }).lean(),
+    Course.distinct('department', { appraisalYear }),
+  ]);
+  const someDepartmentUncatalogued = cataloguedDepartments.length < DEPARTMENT.length;
+  const listedCodes = new Set(catalogue.map((course) => course.code));
+  const byKey = new Map<string, typeof catalogue>();
+  for (const course of catalogue) {
+    const key = courseKey(course.code, course.semester);
+    byKey.set(key, [...(byKey.get(key) ?? []), course]);
+  }
+  const rank = (course: (typeof catalogue)[number]) =>
+    (course.instructors.includes(userId) ? 0 : 2) + (course.department === department ? 0 : 1);
+
+  const checked = courses.map((course, index) => {
+    const code = String(course.code ?? '');
+    const semester = String(course.semester ?? '');
+    const listed = [...(byKey.get(courseKey(code, semester)) ?? [])].sort((a, b) => rank(a) - rank(b))[0];
+
+    if (!listed) {
+      const uncheckable = someDepartmentUncatalogued && !listedCodes.has(normalizeCourseCode(code));
+      (uncheckable ? warnings : errors).push({
+        index,
+        code,
+        semester,
+        message: uncheckable
+          ? `${code || '(no code)'} in ${semester || '(no semester)'} is not in the ${appraisalYear} course catalogue; its department may not have published one yet`
+          : `${code || '(no code)'} in ${semester || '(no semester)'} is not in the ${appraisalYear} course catalogue`,
+      });
+      return course;
+    }
+    if (!listed.instructors.includes(userId)) {
+      warnings.push({
+        index,
+        code: listed.code,
+        semester: listed.semester,
+        message: `You are not an assigned instructor of ${listed.code} (${listed.title}) in ${listed.semester}`,
+      });
+    }
+    return { ...course, code: listed.code, semester: listed.semester };
+  });
+
+  return { courses: checked, errors, warnings };
+};
@@ -0,0 +1,151 @@
+import { type ICourseMetric } from '../models/detailedAppraisal';
+import { parseCsvRecords } from './csv';
+
+/**
+ * Raw course metrics the exam section / ERP exports. Marks (resultMarks,
+ * coMarks, ...) are never imported — they are recomputed from these.
+ */
+export const COURSE_RESULT_FIELDS = [
+  'studentsAbove60',
+  'students50to59',
+  'students40to49',
+  'totalStudents',
+  'coAttainment',
+  'timelySubmissionCO',
+  'studentsPresent',
+  'totalEnrolledStudents',
+  'feedbackPercentage',
+] as const;
+
+export type CourseResultField = typeof COURSE_RESULT_FIELDS[number];
+export type CourseResultValues = Partial<Pick<ICourseMetric, CourseResultField>>;
+
+/** One usable row of the ERP export. `row` is the 1-based line in the file. */
+export interface CourseResultRow {
+  row: number;
+  userId: string;
+  code: string;
+  semester: string;
+  values: CourseResultValues;
+}
+
+/** A row that could not be applied, and why. */
+export interface UnmatchedCourseResult {
+  row: number;
+  userId: string;
+  code: string;
+  semester: string;
+  reason: string;
+}
+
+/** A value the faculty entered that differs from the ERP value. */
+export interface CourseResultConflict {
+  field: CourseResultField;
+  facultyValue: number | boolean;
+  erpValue: number | boolean;
+}
+
+const PERCENT_FIELDS: readonly CourseResultField[] = ['coAttainment', 'feedbackPercentage'];
+
+/**
+ * Match key for a course: code and semester, case- and space-insensitive
+ * ("CS 301" / "cs301", "Sem 5" / "SEM5").
+ */
+export const courseKey = (code: string, semester: string): string =>
+  `${code.replace(/\s+/g, '').toUpperCase()}|${semester.replace(/\s+/g, '').toUpperCase()}`;
+
+const parseBoolean = (value: string): boolean | null => {
+  const normalized = value.toLowerCase();
+  if (['yes', 'y', 'true', '1'].includes(normalized)) return true;
+  if (['no', 'n', 'false', '0'].includes(normalized)) return false;
+  return null;
+};
+
+/**
+ * Parse the exam-section CSV. Required columns: `userId`, `courseCode` (or
+ * `code`) and `semester`; any of COURSE_RESULT_FIELDS may follow, matched
+ * case-insensitively. Empty cells leave the faculty's value alone. Rows with
+ * missing keys, bad values or a repeated key are returned as unmatched.
+ */
+export const parseCourseResultsCsv = (
+  text: string
+): { rows: CourseResultRow[]; unmatched: UnmatchedCourseResult[]; errors: string[] } => {
+  const { headers, records } = parseCsvRecords(text);
+  const rows: CourseResultRow[] = [];
+  const unmatched: UnmatchedCourseResult[] = [];
+
+  const missing = ['userid', 'semester'].filter((column) => !headers.includes(column));
+  if (!headers.includes('coursecode') && !headers.includes('code')) missing.push('courseCode');
+  if (missing.length > 0) {
+    return { rows, unmatched, errors: [`CSV is missing column(s): ${missing.join(', ')}`] };
+  }
+  const fields = COURSE_RESULT_FIELDS.filter((field) => headers.includes(field.toLowerCase()));
+  if (fields.length === 0) {
+    return { rows, unmatched, errors: [`CSV has none of the result columns: ${COURSE_RESULT_FIELDS.join(', ')}`] };
+  }
+
+  const seen = new Set<string>();
+  records.forEach((record, index) => {
+    const row = index + 2;
+    const userId = record.userid;
+    const code = record.coursecode || record.code || '';
+    const semester = record.semester;
+    const fail = (reason: string) => unmatched.push({ row, userId, code, semester, reason });
+
+    if (!userId || !code || !semester) return fail('userId, course code and semester are required');
+
+    const key = `${userId}|${courseKey(code, semester)}`;
+    if (seen.has(key)) return fail('Repeats an earlier row for the same faculty and course');
+    seen.add(key);
+
+    const values: CourseResultValues = {};
+    const invalid: string[] = [];
+    for (const field of fields) {
+      const raw = record[field.toLowerCase()];
+      if (raw === '') continue;
+
+      if (field === 'timelySubmissionCO') {
+        const flag = parseBoolean(raw);
+        if (flag === null) invalid.push(field);
+        else values[field] = flag;
+        continue;
+      }
+
+      const number = Number(raw.replace(/%$/, ''));
+      const max = PERCENT_FIELDS.includes(field) ? 100 : Infinity;
+      if (!Number.isFinite(number) || number < 0 || number > max) invalid.push(field);
+      else values[field] = number;
+    }
+
+    if (invalid.length > 0) return fail(`Invalid value for ${invalid.join(', ')}`);
+    if (Object.keys(values).length === 0) return fail('No result values on this row');
+    rows.push({ row, userId, code, semester, values });
+  });
+
+  return { rows, unmatched, errors: [] };
+};
+
+/**
+ * Values that would change on a course row, and which of those overwrite
+ * something the faculty entered (a non-zero / true value that differs).
+ */
+export const reconcileCourseResult = (
+  course: Partial<ICourseMetric>,
+  values: CourseResultValues
+): { changed: CourseResultField[]; conflicts: CourseResultConflict[] } => {
+  const changed: CourseResultField[] = [];
+  const conflicts: CourseResultConflict[] = [];
+
+  for (const field of Object.keys(values) as CourseResultField[]) {
+    const erpValue = values[field]!;
+    const facultyValue = course[field] ?? (field === 'timelySubmissionCO' ? false : 0);
+    if (facultyValue === erpValue) continue;
+
+    changed.push(field);
+    if (facultyValue !== 0 && facultyValue !== false) {
+      conflicts.push({ field, facultyValue, erpValue });
+    }
+  }
+
+  return { changed, conflicts };
+};
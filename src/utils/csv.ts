@@ -0,0 +1,74 @@
+/**
+ * Split CSV text into rows of cells (RFC 4180: quoted cells may contain
+ * commas, newlines and doubled quotes). A leading BOM and blank lines are
+ * dropped; cells are not trimmed.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+};
+
+/**
+ * Parse CSV with a header row into objects keyed by the lower-cased, trimmed
+ * header names. Cell values are trimmed; missing cells become ''.
+ */
+export const parseCsvRecords = (text: string): { headers: string[]; records: Record<string, string>[] } => {
+  const [headerRow, ...rows] = parseCsv(text);
+  const headers = (headerRow ?? []).map((header) => header.trim().toLowerCase());
+  const records = rows.map((cells) =>
+    Object.fromEntries(headers.map((header, i) => [header, (cells[i] ?? '').trim()]))
+  );
+  return { headers, records };
+};
+
+/**
+ * Quote a value for a CSV cell when it contains a comma, quote or newline.
+ */
+export const toCsvCell = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialise rows (header row first) as CSV with CRLF line endings.
+ */
+export const toCsv = (rows: unknown[][]): string =>
+  rows.map((row) => row.map(toCsvCell).join(',')).join('\r\n') + '\r\n';
@@ -0,0 +1,94 @@
+import {
+  AppraisalCycle,
+  type IAppraisalCycle,
+  type CycleWindow,
+} from '../models/appraisalCycle';
+import { ApiError } from '../middleware/error.middleware';
+import { HttpStatus } from './response';
+
+/**
+ * The appraisal cycle a request operates on. `record` is null only for the
+ * current academic year when no AppraisalCycle document exists for it (e.g.
+ * before an admin has set one up); every window is then treated as open.
+ */
+export interface ResolvedCycle {
+  year: number;
+  label: string;
+  record: IAppraisalCycle | null;
+}
+
+/**
+ * Academic years run April–March: January–March belong to the previous year.
+ */
+export const academicYearOf = (date: Date = new Date()): number =>
+  date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+
+/**
+ * "2025" → "2025-26".
+ */
+export const formatAcademicYear = (year: number): string =>
+  `${year}-${String((year + 1) % 100).padStart(2, '0')}`;
+
+/** 1st April of `year` to the last millisecond of 31st March the year after. */
+export const academicYearBounds = (year: number): { startDate: Date; endDate: Date } => ({
+  startDate: new Date(year, 3, 1),
+  endDate: new Date(year + 1, 3, 1, 0, 0, 0, -1),
+});
+
+/**
+ * Accepts "2025" or "2025-26" and returns the start year, or null if invalid.
+ */
+export const parseCycleParam = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isInteger(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const match = /^(\d{4})(?:-(\d{2}))?$/.exec(value.trim());
+  if (!match) return null;
+  const year = Number(match[1]);
+  if (match[2] !== undefined && Number(match[2]) !== (year + 1) % 100) return null;
+  return year;
+};
+
+/**
+ * Resolve the cycle for a request: the named one if `cycleParam` is given,
+ * otherwise the active cycle, otherwise the current academic year.
+ * Returns null only when `cycleParam` is present but malformed. A named year
+ * needs an AppraisalCycle record — otherwise any year could be opened by
+ * asking for it — except the current academic year, which resolves as it
+ * would without `cycleParam`.
+ */
+export const resolveCycle = async (cycleParam?: unknown): Promise<ResolvedCycle | null> => {
+  if (cycleParam !== undefined && cycleParam !== '') {
+    const year = parseCycleParam(cycleParam);
+    if (year === null) return null;
+    const record = await AppraisalCycle.findOne({ year });
+    if (!record && year !== academicYearOf()) {
+      throw new ApiError(`No appraisal cycle has been set up for ${formatAcademicYear(year)}`, HttpStatus.NOT_FOUND);
+    }
+    return { year, label: formatAcademicYear(year), record };
+  }
+
+  const active = await AppraisalCycle.findOne({ isActive: true });
+  if (active) return { year: active.year, label: active.label, record: active };
+
+  const year = academicYearOf();
+  return { year, label: formatAcademicYear(year), record: null };
+};
+
+/**
+ * Returns a user-facing reason when `window` of the cycle is not open right
+ * now, or null when it is. Unconfigured bounds never close a window.
+ */
+export const getClosedWindowReason = (
+  cycle: ResolvedCycle,
+  window: CycleWindow,
+  now: Date = new Date()
+): string | null => {
+  const bounds = cycle.record?.[`${window}Window`];
+  if (bounds?.opensAt && now < bounds.opensAt) {
+    return `The ${window} window for ${cycle.label} opens on ${bounds.opensAt.toDateString()}`;
+  }
+  if (bounds?.closesAt && now > bounds.closesAt) {
+    return `The ${window} window for ${cycle.label} closed on ${bounds.closesAt.toDateString()}`;
+  }
+  return null;
+};
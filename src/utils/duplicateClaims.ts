@@ -0,0 +1,220 @@
+import { FacultyAppraisal, type IPartBEntry } from '../models/detailedAppraisal';
+import { type PartBItemPath } from '../constant/scoring';
+import { config } from '../config';
+import { PART_B_ITEM_PATHS, getPartBItem } from './scoring';
+import { claimKeys } from './claimKeys';
+
+/**
+ * How a work claimed by several faculty is treated:
+ * - "full":      every co-author may claim it in full (collisions are informational)
+ * - "split":     co-authors share the marks, so each collision is flagged with the share
+ * - "exclusive": only one faculty may claim it
+ * The same person claiming one work more than once is flagged under every policy.
+ */
+export const SHARING_POLICIES = ['full', 'split', 'exclusive'] as const;
+export type SharingPolicy = typeof SHARING_POLICIES[number];
+
+export const getSharingPolicy = (): SharingPolicy =>
+  (SHARING_POLICIES as readonly string[]).includes(config.coAuthorSharingPolicy)
+    ? (config.coAuthorSharingPolicy as SharingPolicy)
+    : 'full';
+
+/** Part B sections whose entries are individual works (citations, grants, awards, ... are not). */
+const WORK_SECTIONS = ['papers', 'conferences', 'bookChapters', 'books', 'copyrights', 'patents'];
+
+export const WORK_ITEM_PATHS = PART_B_ITEM_PATHS.filter((path) =>
+  WORK_SECTIONS.some((section) => path.startsWith(`${section}_`))
+);
+
+/** Stored key field of a work item's entries, e.g. "partB.papers.sci.entries.matchKeys". */
+export const matchKeysField = (item: PartBItemPath): string => `partB.${item.replace(/_/g, '.')}.entries.matchKeys`;
+
+/** One Part B entry as seen by the duplicate detector. */
+export interface PartBClaim {
+  userId: string;
+  item: PartBItemPath;
+  entryId: string;
+  title: string;
+  identifier: string;
+  quantity: number;
+}
+
+export interface DuplicateClaimGroup {
+  /** Normalised key of the work, e.g. "doi:10.1109/access.2024.1" or "title:...". */
+  key: string;
+  /** "co-author" when more than one faculty claims the work, else "self". */
+  kind: 'self' | 'co-author';
+  userIds: string[];
+  /** Faculty who list the work more than once themselves. */
+  repeatedBy: string[];
+  /** Whether a verifier must act on this group under the sharing policy. */
+  flagged: boolean;
+  reasons: string[];
+  /** Under "split", the fraction of the marks each co-author may claim. */
+  sharePerFaculty?: number;
+  claims: PartBClaim[];
+}
+
+/**
+ * The work-type entries of one appraisal's Part B.
+ */
+export const collectPartBClaims = (userId: string, partB: unknown): PartBClaim[] =>
+  WORK_ITEM_PATHS.flatMap((item) =>
+    (getPartBItem(partB, item)?.entries ?? []).map((entry) => ({
+      userId,
+      item,
+      entryId: String(entry._id),
+      title: entry.title ?? '',
+      identifier: entry.identifier ?? '',
+      quantity: entry.quantity ?? 1,
+    }))
+  );
+
+/**
+ * Group claims that share a key, directly or through another claim (e.g. one
+ * matches on DOI, a third only on title). Each group is labelled with an
+ * identifier key when its claims have one.
+ */
+export const findDuplicateClaims = (
+  claims: PartBClaim[],
+  policy: SharingPolicy = getSharingPolicy()
+): DuplicateClaimGroup[] => {
+  // Union-find over claim indexes: claims sharing any key end up with one root
+  const parent = claims.map((_claim, index) => index);
+  const root = (index: number): number => {
+    while (parent[index] !== index) index = parent[index] = parent[parent[index]];
+    return index;
+  };
+
+  const firstWithKey = new Map<string, number>();
+  claims.forEach((claim, index) => {
+    for (const key of claimKeys(claim)) {
+      const other = firstWithKey.get(key);
+      if (other === undefined) firstWithKey.set(key, index);
+      else parent[root(index)] = root(other);
+    }
+  });
+
+  const components = new Map<number, PartBClaim[]>();
+  claims.forEach((claim, index) => {
+    const id = root(index);
+    components.set(id, [...(components.get(id) ?? []), claim]);
+  });
+
+  const groups: DuplicateClaimGroup[] = [];
+  for (const group of components.values()) {
+    if (group.length < 2) continue;
+
+    const keys = group.flatMap((claim) => claimKeys(claim));
+    const key = keys.find((k) => !k.startsWith('title:')) ?? keys[0];
+
+    const userIds = [...new Set(group.map((claim) => claim.userId))];
+    const repeatedBy = userIds.filter((id) => group.filter((claim) => claim.userId === id).length > 1);
+    const reasons: string[] = [];
+    let sharePerFaculty: number | undefined;
+
+    if (repeatedBy.length > 0) {
+      reasons.push(`Claimed more than once by ${repeatedBy.join(', ')}`);
+    }
+    if (userIds.length > 1) {
+      if (policy === 'split') {
+        sharePerFaculty = Math.round((1 / userIds.length) * 10000) / 10000;
+        reasons.push(`Co-authored by ${userIds.length} faculty; each may claim 1/${userIds.length} of the marks`);
+      } else if (policy === 'exclusive') {
+        reasons.push(`Claimed by ${userIds.length} faculty; only one may claim this work`);
+      }
+    }
+
+    groups.push({
+      key,
+      kind: userIds.length > 1 ? 'co-author' : 'self',
+      userIds,
+      repeatedBy,
+      flagged: reasons.length > 0,
+      reasons,
+      ...(sharePerFaculty !== undefined ? { sharePerFaculty } : {}),
+      claims: group,
+    });
+  }
+
+  return groups;
+};
+
+/** Keys of the cycle that more than one entry claims, counted from the stored matchKeys. */
+const findSharedKeys = async (appraisalYear: number): Promise<string[]> => {
+  const shared = await FacultyAppraisal.aggregate<{ _id: string }>([
+    { $match: { appraisalYear } },
+    {
+      // One array per work item, each holding one key array per entry
+      $project: {
+        keys: { $concatArrays: WORK_ITEM_PATHS.map((item) => ({ $ifNull: [`$${matchKeysField(item)}`, []] })) },
+      },
+    },
+    { $unwind: '$keys' },
+    { $unwind: '$keys' },
+    { $group: { _id: '$keys', claims: { $sum: 1 } } },
+    { $match: { claims: { $gt: 1 } } },
+  ]);
+  return shared.map((key) => key._id);
+};
+
+/**
+ * Appraisals with an entry carrying any of `keys`, optionally limited to
+ * those not already loaded.
+ */
+const findAppraisalsWithKeys = (appraisalYear: number, keys: string[], excludeUserIds: string[] = []) =>
+  FacultyAppraisal.find({
+    appraisalYear,
+    userId: { $nin: excludeUserIds },
+    $or: WORK_ITEM_PATHS.map((item) => ({ [matchKeysField(item)]: { $in: keys } })),
+  })
+    .select('userId partB')
+    .lean();
+
+/**
+ * Duplicate groups across every appraisal of a cycle. Only appraisals that
+ * share a key with another entry are loaded. Pass `userId` to get just the
+ * groups that involve that faculty: their keys are followed from appraisal to
+ * appraisal until the groups are complete.
+ */
+export const findCycleDuplicateClaims = async (
+  appraisalYear: number,
+  userId?: string
+): Promise<DuplicateClaimGroup[]> => {
+  if (!userId) {
+    const keys = await findSharedKeys(appraisalYear);
+    if (keys.length === 0) return [];
+    const appraisals = await findAppraisalsWithKeys(appraisalYear, keys);
+    return findDuplicateClaims(
+      appraisals.flatMap((appraisal) => collectPartBClaims(appraisal.userId, appraisal.partB))
+    );
+  }
+
+  const own = await FacultyAppraisal.findOne({ userId, appraisalYear }).select('userId partB').lean();
+  if (!own) return [];
+
+  const claims = collectPartBClaims(userId, own.partB);
+  const loaded = [userId];
+  const keys = new Set(claims.flatMap((claim) => claimKeys(claim)));
+  let frontier = [...keys];
+
+  while (frontier.length > 0) {
+    for (const appraisal of await findAppraisalsWithKeys(appraisalYear, frontier, loaded)) {
+      loaded.push(appraisal.userId);
+      claims.push(...collectPartBClaims(appraisal.userId, appraisal.partB));
+    }
+    // Keys of loaded claims that are linked to the faculty's works but not yet searched for
+    frontier = [];
+    for (const claim of claims) {
+      const claimed = claimKeys(claim);
+      if (!claimed.some((key) => keys.has(key))) continue;
+      for (const key of claimed) {
+        if (keys.has(key)) continue;
+        keys.add(key);
+        frontier.push(key);
+      }
+    }
+  }
+
+  return findDuplicateClaims(claims).filter((group) => group.userIds.includes(userId));
+};
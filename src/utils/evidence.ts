@@ -0,0 +1,97 @@
+import { createHash } from 'crypto';
+import { User } from '../models/user';
+import { VerificationTeam } from '../models/verificationTeam';
+import { type EvidencePart } from '../models/evidence';
+import { type UserRole } from '../constant/userInfo';
+import { PART_B_ITEM_PATHS } from './scoring';
+
+/**
+ * Proof file types, recognised by their leading bytes rather than the
+ * Content-Type the client sends.
+ */
+export const EVIDENCE_FILE_TYPES = {
+  'application/pdf': {
+    extension: 'pdf',
+    signature: (bytes: Buffer) => bytes.subarray(0, 5).toString('latin1') === '%PDF-',
+  },
+  'image/png': {
+    extension: 'png',
+    signature: (bytes: Buffer) =>
+      bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  },
+  'image/jpeg': {
+    extension: 'jpg',
+    signature: (bytes: Buffer) => bytes.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+  },
+  'image/webp': {
+    extension: 'webp',
+    signature: (bytes: Buffer) =>
+      bytes.subarray(0, 4).toString('latin1') === 'RIFF' && bytes.subarray(8, 12).toString('latin1') === 'WEBP',
+  },
+} as const;
+
+export type EvidenceContentType = keyof typeof EVIDENCE_FILE_TYPES;
+
+export const EVIDENCE_CONTENT_TYPES = Object.keys(EVIDENCE_FILE_TYPES) as EvidenceContentType[];
+
+/** The file type the bytes actually are, or null if not an accepted one. */
+export const detectEvidenceType = (bytes: Buffer): EvidenceContentType | null =>
+  EVIDENCE_CONTENT_TYPES.find((type) => EVIDENCE_FILE_TYPES[type].signature(bytes)) ?? null;
+
+export const sha256Of = (bytes: Buffer): string => createHash('sha256').update(bytes).digest('hex');
+
+/** Part C fields a proof can be attached to. */
+export const PART_C_EVIDENCE_ITEMS = [
+  'pdfCompleted',
+  'pdfOngoing',
+  'phdAwarded',
+  ...['twoWeek', 'oneWeek', 'twoToFiveDays', 'oneDay'].flatMap((length) => [
+    `trainingAttended.${length}`,
+    `trainingOrganized.${length}`,
+  ]),
+  'phdGuided.awarded',
+  'phdGuided.submitted',
+  'phdGuided.ongoing',
+];
+
+export const isEvidenceItem = (part: EvidencePart, item: string): boolean =>
+  part === 'partB'
+    ? (PART_B_ITEM_PATHS as readonly string[]).includes(item)
+    : PART_C_EVIDENCE_ITEMS.includes(item);
+
+/** Content-addressed, so re-uploading the same file reuses the stored object. */
+export const evidenceStorageKey = (
+  appraisalYear: number,
+  userId: string,
+  sha256: string,
+  contentType: EvidenceContentType
+): string =>
+  `evidence/${appraisalYear}/${encodeURIComponent(userId)}/${sha256}.${EVIDENCE_FILE_TYPES[contentType].extension}`;
+
+/**
+ * Whether someone may open a faculty's proofs: the faculty themselves, the
+ * director and deans, the HOD of their department, a verifier assigned to
+ * them, or an external assigned to interview them.
+ */
+export const canAccessEvidence = async (
+  actor: { userId: string; role: UserRole },
+  ownerUserId: string
+): Promise<boolean> => {
+  if (actor.userId === ownerUserId) return true;
+  if (actor.role === 'director' || actor.role === 'dean') return true;
+
+  if (actor.role === 'hod') {
+    const [hod, owner] = await Promise.all([
+      User.findOne({ userId: actor.userId }, { department: 1 }).lean(),
+      User.findOne({ userId: ownerUserId }, { department: 1 }).lean(),
+    ]);
+    if (hod?.department && hod.department === owner?.department) return true;
+  }
+
+  if (actor.role === 'external') {
+    const external = await User.findOne({ userId: actor.userId }, { assignedFaculties: 1 }).lean();
+    if (external?.assignedFaculties?.includes(ownerUserId)) return true;
+  }
+
+  return !!(await VerificationTeam.exists({ userId: actor.userId, faculties: ownerUserId }));
+};
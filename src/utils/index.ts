@@ -2,3 +2,29 @@ export * from './jwt';
 export * from './password';
 export * from './response';
 export * from './mail';
+export * from './scoring';
+export * from './cycle';
+export * from './carryForward';
+export * from './revision';
+export * from './statusHistory';
+export * from './appraisalStateMachine';
+export * from './publication';
+export * from './appraisalActions';
+export * from './partBVerification';
+export * from './claimKeys';
+export * from './duplicateClaims';
+export * from './csv';
+export * from './publicationImport';
+export * from './courseResults';
+export * from './courseCatalogue';
+export * from './storage';
+export * from './evidence';
+export * from './appraisalPdf';
+export * from './appraisalTemplateData';
+export * from './appraisalAnnexure';
+export * from './templatePlaceholders';
+export * from './reportTemplates';
+export * from './jobQueue';
+export * from './zipStream';
+export * from './xlsx';
+export * from './migrations';
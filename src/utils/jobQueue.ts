@@ -0,0 +1,192 @@
+import os from 'os';
+import {
+  GenerationJob,
+  GENERATION_JOB_STATUS,
+  type GenerationJobType,
+  type IGenerationJob,
+  type IGenerationJobResult,
+} from '../models/generationJob';
+import { type UserRole } from '../constant/userInfo';
+import { ApiError } from '../middleware/error.middleware';
+import { config } from '../config';
+
+/** What a processor gets: the claimed job and a way to report progress. */
+export interface JobContext {
+  job: IGenerationJob;
+  /** Record progress (0–100) and the current step; also keeps the job's lock fresh. */
+  report(progress: number, stage: string): Promise<void>;
+}
+
+/** Renders one job and says where the file went. Throwing fails the attempt. */
+export type JobProcessor = (context: JobContext) => Promise<IGenerationJobResult>;
+
+export type JobProcessors = Record<GenerationJobType, JobProcessor>;
+
+const ACTIVE_STATUSES = [GENERATION_JOB_STATUS.QUEUED, GENERATION_JOB_STATUS.RUNNING];
+
+/**
+ * Queue a job, or hand back the one already waiting or running for the same
+ * report and requester so repeated clicks do not pile up work.
+ */
+export const enqueueGenerationJob = async (request: {
+  type: GenerationJobType;
+  userId: string;
+  appraisalYear: number;
+  department?: string | null;
+  includeUnverified?: boolean;
+  requestedBy: string;
+  requestedByRole: UserRole;
+}): Promise<{ job: IGenerationJob; reused: boolean }> => {
+  const existing = await GenerationJob.findOne({
+    type: request.type,
+    userId: request.userId,
+    appraisalYear: request.appraisalYear,
+    department: request.department ?? null,
+    includeUnverified: request.includeUnverified ?? false,
+    requestedBy: request.requestedBy,
+    status: { $in: ACTIVE_STATUSES },
+  });
+  if (existing) return { job: existing, reused: true };
+
+  const job = await GenerationJob.create({ ...request, maxAttempts: Math.max(1, config.jobs.maxAttempts) });
+  return { job, reused: false };
+};
+
+/** Where the requester polls for the job (see job.routes). */
+export const jobStatusPath = (job: IGenerationJob): string => `/jobs/${job._id}`;
+
+/** Wait before retry `attempt` (1-based): retryBaseMs, then doubling. */
+export const retryDelayMs = (attempt: number): number => config.jobs.retryBaseMs * 2 ** (attempt - 1);
+
+/**
+ * Client errors (the user or appraisal is gone, the request is not allowed)
+ * will not go away on a retry; anything else might.
+ */
+const isPermanentJobError = (error: unknown): boolean =>
+  error instanceof ApiError && error.statusCode < 500;
+
+/**
+ * Atomically take the oldest due job, or a running one whose worker has gone
+ * quiet for longer than lockTimeoutMs.
+ */
+const claimNextJob = async (workerId: string): Promise<IGenerationJob | null> => {
+  const now = new Date();
+  return GenerationJob.findOneAndUpdate(
+    {
+      $or: [
+        { status: GENERATION_JOB_STATUS.QUEUED, runAfter: { $lte: now } },
+        { status: GENERATION_JOB_STATUS.RUNNING, lockedAt: { $lt: new Date(now.getTime() - config.jobs.lockTimeoutMs) } },
+      ],
+    },
+    {
+      $set: { status: GENERATION_JOB_STATUS.RUNNING, lockedBy: workerId, lockedAt: now, progress: 0, stage: 'Starting' },
+      $inc: { attempts: 1 },
+    },
+    { sort: { runAfter: 1 }, new: true }
+  );
+};
+
+const runJob = async (job: IGenerationJob, processors: JobProcessors, workerId: string): Promise<void> => {
+  // Updates only land while this worker still holds the job
+  const owned = { _id: job._id, lockedBy: workerId };
+  const release = { lockedBy: null, lockedAt: null };
+
+  if (job.attempts > job.maxAttempts) {
+    // Taken over from a worker that died on the last attempt
+    await GenerationJob.updateOne(owned, {
+      ...release,
+      status: GENERATION_JOB_STATUS.FAILED,
+      stage: 'Failed',
+      lastError: job.lastError || 'Worker stopped responding',
+      finishedAt: new Date(),
+    });
+    return;
+  }
+
+  const report = async (progress: number, stage: string): Promise<void> => {
+    await GenerationJob.updateOne(owned, { progress, stage, lockedAt: new Date() });
+  };
+
+  try {
+    const result = await processors[job.type]({ job, report });
+    await GenerationJob.updateOne(owned, {
+      ...release,
+      status: GENERATION_JOB_STATUS.SUCCEEDED,
+      progress: 100,
+      stage: 'Done',
+      lastError: '',
+      result,
+      finishedAt: new Date(),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (isPermanentJobError(error) || job.attempts >= job.maxAttempts) {
+      console.error(`Job ${job._id} (${job.type}) failed after ${job.attempts} attempt(s):`, error);
+      await GenerationJob.updateOne(owned, {
+        ...release,
+        status: GENERATION_JOB_STATUS.FAILED,
+        stage: 'Failed',
+        lastError: message,
+        finishedAt: new Date(),
+      });
+      return;
+    }
+
+    const delay = retryDelayMs(job.attempts);
+    console.warn(`Job ${job._id} (${job.type}) attempt ${job.attempts} failed; retrying in ${delay} ms:`, message);
+    await GenerationJob.updateOne(owned, {
+      ...release,
+      status: GENERATION_JOB_STATUS.QUEUED,
+      stage: `Retrying after a failed attempt (${job.attempts}/${job.maxAttempts})`,
+      lastError: message,
+      runAfter: new Date(Date.now() + delay),
+    });
+  }
+};
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+let stopping = false;
+let running: Promise<void>[] = [];
+
+const workerLoop = async (workerId: string, processors: JobProcessors): Promise<void> => {
+  while (!stopping) {
+    let job: IGenerationJob | null = null;
+    try {
+      job = await claimNextJob(workerId);
+    } catch (error) {
+      console.error(`Job worker ${workerId} could not claim a job:`, error);
+    }
+    if (!job) {
+      await sleep(config.jobs.pollIntervalMs);
+      continue;
+    }
+    try {
+      await runJob(job, processors, workerId);
+    } catch (error) {
+      // Only reachable when recording the outcome failed; the stale lock lets another worker retry
+      console.error(`Job worker ${workerId} lost track of job ${job._id}:`, error);
+    }
+  }
+};
+
+/**
+ * Start `concurrency` workers in this process. Each renders one job at a time,
+ * so at most that many reports are generated at once per server.
+ */
+export const startJobWorkers = (processors: JobProcessors, concurrency = config.jobs.concurrency): void => {
+  if (running.length > 0) return;
+  stopping = false;
+  const count = Math.max(1, concurrency);
+  running = Array.from({ length: count }, (_, index) =>
+    workerLoop(`${os.hostname()}:${process.pid}:${index + 1}`, processors)
+  );
+  console.log(`🧾 Started ${count} report generation worker(s)`);
+};
+
+/** Stop claiming jobs and wait for the ones in progress to finish. */
+export const stopJobWorkers = async (): Promise<void> => {
+  stopping = true;
+  await Promise.all(running);
+  running = [];
+};
@@ -0,0 +1,181 @@
+import { FacultyAppraisal } from '../models/detailedAppraisal';
+import InteractionEvaluation from '../models/interactionEvaluation';
+import { AppraisalCycle } from '../models/appraisalCycle';
+import { APPRAISAL_STATUS } from '../constant/appraisal';
+import { academicYearOf } from './cycle';
+import { getPartBItem } from './scoring';
+import { claimKeys } from './claimKeys';
+import { WORK_ITEM_PATHS } from './duplicateClaims';
+import { DEFAULT_RUBRIC_RULES } from '../constant/scoring';
+
+/**
+ * Data fixes run at startup, after the database connection and before the
+ * server takes requests. Every step must be idempotent: it runs on each boot
+ * and should find nothing to do once it has been applied.
+ */
+interface Migration {
+  name: string;
+  /** Returns how many documents (or indexes) it changed. */
+  up(): Promise<number>;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    // Before rubricPinned existed, a null id / version 0 could mean either
+    // "pinned to the built-in rules" or "never pinned". Only records created
+    // before rubrics existed lack rubricVersion; anything else, and anything
+    // already submitted (the scores it was submitted with came from the
+    // built-in rules), was pinned.
+    name: 'pin-rubric-versions',
+    async up() {
+      const result = await FacultyAppraisal.updateMany(
+        {
+          rubricPinned: { $ne: true },
+          $or: [
+            { rubricId: { $ne: null } },
+            { rubricVersion: { $exists: true } },
+            { status: { $ne: APPRAISAL_STATUS.PEDING } },
+          ],
+        },
+        { $set: { rubricPinned: true } }
+      );
+      return result.modifiedCount;
+    },
+  },
+  {
+    // Appraisals pinned to the built-in rules used to read them from
+    // constant/scoring at scoring time; freeze the current set on each so
+    // later changes to the defaults leave them alone.
+    name: 'snapshot-built-in-rubric-pins',
+    async up() {
+      const result = await FacultyAppraisal.updateMany(
+        { rubricPinned: true, rubricId: null, rubricRules: null },
+        { $set: { rubricRules: DEFAULT_RUBRIC_RULES } }
+      );
+      return result.modifiedCount;
+    },
+  },
+  {
+    // Before cycles, appraisals took the calendar year they were created in,
+    // so one started in January–March got the year after its April–March
+    // academic year. Move those back. The same year can also come from a
+    // draft for a cycle opened early; where that cycle exists, only records
+    // from before rubrics (no stored rubricVersion) are moved. Runs before the
+    // interaction backfill, which reads these years.
+    name: 'shift-early-calendar-year-appraisals',
+    async up() {
+      const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const candidates = await FacultyAppraisal.find(
+        {
+          $expr: {
+            $and: [
+              { $eq: ['$appraisalYear', { $year: { date: '$createdAt', timezone } }] },
+              { $lte: [{ $month: { date: '$createdAt', timezone } }, 3] },
+            ],
+          },
+        },
+        { userId: 1, appraisalYear: 1, rubricVersion: 1 }
+      ).lean();
+
+      const cycleYears = new Set(
+        (await AppraisalCycle.find({}, { year: 1 }).lean()).map((cycle) => cycle.year)
+      );
+
+      let changed = 0;
+      for (const appraisal of candidates) {
+        if (cycleYears.has(appraisal.appraisalYear) && appraisal.rubricVersion !== undefined) continue;
+
+        const target = appraisal.appraisalYear - 1;
+        if (await FacultyAppraisal.exists({ userId: appraisal.userId, appraisalYear: target })) {
+          console.warn(
+            `Migration shift-early-calendar-year-appraisals: ${appraisal.userId} already has a ${target} appraisal; ` +
+              `left ${appraisal._id} at ${appraisal.appraisalYear}`
+          );
+          continue;
+        }
+        const result = await FacultyAppraisal.updateOne(
+          { _id: appraisal._id, appraisalYear: appraisal.appraisalYear },
+          { $set: { appraisalYear: target } }
+        );
+        changed += result.modifiedCount;
+      }
+      return changed;
+    },
+  },
+  {
+    // Interaction evaluations created before cycles have no appraisalYear:
+    // give them the year of the faculty's appraisal they were made for — the
+    // latest one not after the cycle they were created in.
+    name: 'backfill-interaction-evaluation-years',
+    async up() {
+      const legacy = await InteractionEvaluation.find(
+        { appraisalYear: null },
+        { facultyId: 1, createdAt: 1 }
+      ).lean();
+
+      let changed = 0;
+      for (const evaluation of legacy) {
+        const createdIn = academicYearOf(evaluation.createdAt ?? new Date());
+        const appraisal = await FacultyAppraisal.findOne(
+          { userId: evaluation.facultyId, appraisalYear: { $lte: createdIn } },
+          { appraisalYear: 1 }
+        )
+          .sort({ appraisalYear: -1 })
+          .lean();
+        const result = await InteractionEvaluation.updateOne(
+          { _id: evaluation._id, appraisalYear: null },
+          { $set: { appraisalYear: appraisal?.appraisalYear ?? createdIn } }
+        );
+        changed += result.modifiedCount;
+      }
+      return changed;
+    },
+  },
+  {
+    // Replaces the year-less facultyId_1_externalId_1_department_1 unique
+    // index, which would refuse the same pair in the next cycle, with the
+    // schema's per-cycle one. Runs after the backfill so no year is missing.
+    name: 'sync-interaction-evaluation-indexes',
+    async up() {
+      const dropped = await InteractionEvaluation.syncIndexes();
+      return dropped.length;
+    },
+  },
+  {
+    // Duplicate detection queries the entries' stored matchKeys; entries saved
+    // before they existed get them computed here.
+    name: 'backfill-part-b-match-keys',
+    async up() {
+      const entriesField = (item: string) => `partB.${item.replace(/_/g, '.')}.entries`;
+      const legacy = await FacultyAppraisal.find(
+        {
+          $or: WORK_ITEM_PATHS.map((item) => ({
+            [entriesField(item)]: { $elemMatch: { matchKeys: { $exists: false } } },
+          })),
+        },
+        { partB: 1 }
+      ).lean();
+
+      let changed = 0;
+      for (const appraisal of legacy) {
+        const update: Record<string, unknown> = {};
+        for (const item of WORK_ITEM_PATHS) {
+          const entries = getPartBItem(appraisal.partB, item)?.entries;
+          if (!entries?.length) continue;
+          update[entriesField(item)] = entries.map((entry) => ({ ...entry, matchKeys: claimKeys(entry) }));
+        }
+        const result = await FacultyAppraisal.updateOne({ _id: appraisal._id }, { $set: update });
+        changed += result.modifiedCount;
+      }
+      return changed;
+    },
+  },
+];
+
+/** Apply every migration in order; throws (and so stops startup) if one fails. */
+export async function runMigrations(): Promise<void> {
+  for (const migration of MIGRATIONS) {
+    const changed = await migration.up();
+    if (changed > 0) console.log(`🛠️ Migration ${migration.name}: ${changed} change(s) applied`);
+  }
+}
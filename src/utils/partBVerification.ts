@@ -0,0 +1,100 @@
+import { type IFacultyAppraisal, type IPartBEntry } from '../models/detailedAppraisal';
+import { type PartBEntryStatus } from '../constant/appraisal';
+import { PART_B_ITEM_PATHS, getPartBItem } from './scoring';
+
+type PartB = IFacultyAppraisal['partB'];
+
+/** A verifier's decision on one Part B entry, as sent to finalizeVerification. */
+export interface PartBEntryDecision {
+  entryId: string;
+  status: Exclude<PartBEntryStatus, 'pending'>;
+  remark: string;
+}
+
+/** A Part B entry nobody has accepted or rejected yet. */
+export interface UndecidedPartBEntry {
+  item: string;
+  entryId: string;
+  title: string;
+}
+
+/**
+ * Validate `decisions: [{ entryId, status: 'accepted' | 'rejected', remark }]`.
+ * A rejection needs a remark so the faculty knows what was wrong. Returns the
+ * cleaned decisions plus one message per problem.
+ */
+export const parseEntryDecisions = (raw: unknown): { decisions: PartBEntryDecision[]; errors: string[] } => {
+  const decisions: PartBEntryDecision[] = [];
+  const errors: string[] = [];
+
+  if (raw === undefined) return { decisions, errors };
+  if (!Array.isArray(raw)) {
+    errors.push('"decisions" must be an array of { entryId, status, remark }');
+    return { decisions, errors };
+  }
+
+  raw.forEach((value, index) => {
+    const { entryId, status, remark } = (value ?? {}) as Record<string, unknown>;
+    if (typeof entryId !== 'string' || !entryId) {
+      errors.push(`decisions[${index}].entryId is required`);
+      return;
+    }
+    if (status !== 'accepted' && status !== 'rejected') {
+      errors.push(`decisions[${index}].status must be "accepted" or "rejected"`);
+      return;
+    }
+    const note = typeof remark === 'string' ? remark.trim() : '';
+    if (status === 'rejected' && !note) {
+      errors.push(`decisions[${index}] rejects entry ${entryId} without a remark`);
+      return;
+    }
+    decisions.push({ entryId, status, remark: note });
+  });
+
+  return { decisions, errors };
+};
+
+/**
+ * Record each decision on the matching entry of a plain Part B object (as
+ * from `toObject()`). Returns the ids that match no entry.
+ */
+export const applyEntryDecisions = (
+  partB: Partial<PartB>,
+  decisions: PartBEntryDecision[],
+  verifierId: string
+): string[] => {
+  const entries = new Map<string, IPartBEntry>();
+  for (const path of PART_B_ITEM_PATHS) {
+    for (const entry of getPartBItem(partB, path)?.entries ?? []) {
+      if (entry._id) entries.set(String(entry._id), entry);
+    }
+  }
+
+  const unknown: string[] = [];
+  const decidedAt = new Date();
+  for (const decision of decisions) {
+    const entry = entries.get(decision.entryId);
+    if (!entry) {
+      unknown.push(decision.entryId);
+      continue;
+    }
+    entry.verification = {
+      status: decision.status,
+      remark: decision.remark,
+      verifiedBy: verifierId,
+      verifiedAt: decidedAt,
+    };
+  }
+  return unknown;
+};
+
+/**
+ * Entries still "pending" — verification cannot be finalised until every
+ * entry has been accepted or rejected.
+ */
+export const findUndecidedEntries = (partB: Partial<PartB>): UndecidedPartBEntry[] =>
+  PART_B_ITEM_PATHS.flatMap((path) =>
+    (getPartBItem(partB, path)?.entries ?? [])
+      .filter((entry) => entry.verification?.status !== 'accepted' && entry.verification?.status !== 'rejected')
+      .map((entry) => ({ item: path, entryId: String(entry._id), title: entry.title }))
+  );
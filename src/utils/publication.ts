@@ -0,0 +1,74 @@
+import { APPRAISAL_STATUS, APPRAISAL_PARTS } from '../constant/appraisal';
+
+/** Evaluator-entered Part D fields that add up to its verified total. */
+const PART_D_EVALUATOR_MARKS = ['deanMarks', 'hodMarks', 'directorMarks', 'adminDeanMarks'] as const;
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Whether a status-history remark is withheld from the faculty: the
+ * director's approve / moderate remarks speak to the final score, so they
+ * stay hidden until results are published.
+ */
+export const isRemarkWithheld = (entry: { to?: unknown }, status: unknown): boolean =>
+  entry.to === APPRAISAL_STATUS.APPROVED && status !== APPRAISAL_STATUS.PUBLISHED;
+
+/**
+ * Whether Part B is reopened by the open revision request: the faculty then
+ * needs the verifier's per-entry decisions to know what to fix.
+ */
+const isPartBRevisionOpen = (appraisal: Record<string, any>): boolean => {
+  if (appraisal.status !== APPRAISAL_STATUS.REVISION_REQUESTED || !Array.isArray(appraisal.revisions)) return false;
+  const open = appraisal.revisions[appraisal.revisions.length - 1];
+  return Array.isArray(open?.parts) && open.parts.some((entry: { part?: unknown }) => entry?.part === 'partB');
+};
+
+/**
+ * Null out every `verified` mark in a Part B tree (items sit one or two
+ * levels deep), and the entry decisions too unless `keepDecisions`.
+ */
+const redactPartBVerified = (node: Record<string, any>, keepDecisions: boolean): void => {
+  for (const value of Object.values(node)) {
+    if (!isPlainObject(value)) continue;
+    if ('verified' in value) {
+      value.verified = null;
+      if (!keepDecisions && Array.isArray(value.entries)) {
+        for (const entry of value.entries) if (isPlainObject(entry)) entry.verification = null;
+      }
+    } else redactPartBVerified(value, keepDecisions);
+  }
+};
+
+/**
+ * The owner's view of their appraisal before the director publishes results:
+ * verified marks, evaluator marks, moderation and the director's approval
+ * remarks are withheld. Part B entry decisions are withheld too, except while
+ * a revision has Part B reopened. Returns the input unchanged once the appraisal is
+ * published. Expects a plain object (`toObject()` / `lean()`) and returns a
+ * redacted copy in its JSON form.
+ */
+export const redactUnpublishedScores = <T extends Record<string, any>>(appraisal: T): T => {
+  if (appraisal.status === APPRAISAL_STATUS.PUBLISHED) return appraisal;
+
+  // JSON round-trip rather than structuredClone: ObjectIds must serialise as strings
+  const copy = JSON.parse(JSON.stringify(appraisal)) as Record<string, any>;
+
+  for (const part of APPRAISAL_PARTS) {
+    if (isPlainObject(copy[part])) copy[part].totalVerified = null;
+  }
+  if (isPlainObject(copy.partB)) redactPartBVerified(copy.partB, isPartBRevisionOpen(copy));
+  if (isPlainObject(copy.partD)) {
+    for (const field of PART_D_EVALUATOR_MARKS) copy.partD[field] = null;
+  }
+  if (isPlainObject(copy.summary)) copy.summary.grandTotalVerified = null;
+  copy.moderations = [];
+  if (Array.isArray(copy.statusHistory)) {
+    for (const entry of copy.statusHistory) {
+      if (isPlainObject(entry) && isRemarkWithheld(entry, copy.status)) entry.remark = '';
+    }
+  }
+  copy.resultsPublished = false;
+
+  return copy as T;
+};
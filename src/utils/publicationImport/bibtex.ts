@@ -0,0 +1,145 @@
+import { type ImportedPublication, type PublicationParseResult } from './types';
+import { parseYear, normalizeAuthorName, proofLink } from './common';
+
+/** Entry types that carry no publication. */
+const SKIPPED_TYPES = ['comment', 'preamble', 'string'];
+
+/**
+ * Strip LaTeX markup from a field value: accent commands, escaped
+ * characters, formatting commands and grouping braces.
+ */
+const cleanLatex = (value: string): string =>
+  value
+    .replace(/\\[`'^"~=.uvHtcdbk]\s*\{?([a-zA-Z])\}?/g, '$1')
+    .replace(/\\(?:textit|textbf|textsc|emph|mathrm|url)\s*/g, '')
+    .replace(/\\([&%$#_])/g, '$1')
+    .replace(/[{}]/g, '')
+    .replace(/~/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Index of the character that closes the group opened at `start`
+ * ("{" or "("), honouring nested braces. -1 if it is never closed.
+ */
+const findGroupEnd = (text: string, start: number): number => {
+  const close = text[start] === '(' ? ')' : '}';
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}') depth--;
+    if (close === ')' && text[i] === ')' && depth === 0) return i;
+    if (close === '}' && depth === 0) return i;
+  }
+  return -1;
+};
+
+/**
+ * Read `name = value, ...` pairs from an entry body. Values may be braced,
+ * quoted, bare numbers or @string macros, joined with "#".
+ */
+const parseFields = (body: string, macros: Record<string, string>): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  let i = 0;
+
+  while (i < body.length) {
+    const nameMatch = /^\s*,?\s*([\w-]+)\s*=\s*/.exec(body.slice(i));
+    if (!nameMatch) break;
+    const name = nameMatch[1].toLowerCase();
+    i += nameMatch[0].length;
+
+    let value = '';
+    for (;;) {
+      if (body[i] === '{') {
+        const end = findGroupEnd(body, i);
+        if (end === -1) return fields;
+        value += body.slice(i + 1, end);
+        i = end + 1;
+      } else if (body[i] === '"') {
+        let end = i + 1;
+        let depth = 0;
+        while (end < body.length && !(body[end] === '"' && depth === 0)) {
+          if (body[end] === '{') depth++;
+          else if (body[end] === '}') depth--;
+          end++;
+        }
+        value += body.slice(i + 1, end);
+        i = end + 1;
+      } else {
+        const bare = /^[^,#\s}]+/.exec(body.slice(i))?.[0] ?? '';
+        value += macros[bare.toLowerCase()] ?? bare;
+        i += bare.length;
+      }
+
+      const concat = /^\s*#\s*/.exec(body.slice(i));
+      if (!concat) break;
+      i += concat[0].length;
+    }
+
+    fields[name] = value;
+  }
+
+  return fields;
+};
+
+const toPublication = (type: string, fields: Record<string, string>): ImportedPublication => {
+  const field = (name: string): string => cleanLatex(fields[name] ?? '');
+  const doi = field('doi');
+
+  return {
+    sourceType: type,
+    title: field('title'),
+    authors: (fields.author ?? '')
+      .split(/\s+and\s+/i)
+      .map((name) => normalizeAuthorName(cleanLatex(name)))
+      .filter(Boolean),
+    venue: field('journal') || field('booktitle') || field('publisher') || field('series'),
+    year: parseYear(field('year') || field('date')),
+    identifier: doi || field('isbn') || (type === 'patent' ? field('number') : ''),
+    indexing: [field('source'), field('note'), field('keywords')].filter(Boolean).join('; '),
+    proof: proofLink(field('url'), doi),
+  };
+};
+
+/**
+ * Parse a BibTeX file (Scopus, Google Scholar, Zotero exports) into
+ * publication records. Malformed entries are reported and skipped.
+ */
+export const parseBibtex = (text: string): PublicationParseResult => {
+  const records: ImportedPublication[] = [];
+  const errors: string[] = [];
+  const macros: Record<string, string> = {};
+
+  let i = text.indexOf('@');
+  while (i !== -1) {
+    const header = /^@\s*(\w+)\s*([{(])/.exec(text.slice(i));
+    if (!header) {
+      i = text.indexOf('@', i + 1);
+      continue;
+    }
+
+    const type = header[1].toLowerCase();
+    const open = i + header[0].length - 1;
+    const end = findGroupEnd(text, open);
+    if (end === -1) {
+      errors.push(`Unterminated @${type} entry near character ${i}`);
+      break;
+    }
+    const body = text.slice(open + 1, end);
+
+    if (type === 'string') {
+      for (const [name, value] of Object.entries(parseFields(body, macros))) macros[name] = value;
+    } else if (!SKIPPED_TYPES.includes(type)) {
+      // Skip the citation key before the first comma
+      const comma = body.indexOf(',');
+      const key = (comma === -1 ? body : body.slice(0, comma)).trim();
+      const fields = parseFields(comma === -1 ? '' : body.slice(comma + 1), macros);
+      if (!fields.title) errors.push(`@${type}{${key}} has no title`);
+      else records.push(toPublication(type, fields));
+    }
+
+    i = text.indexOf('@', end + 1);
+  }
+
+  return { records, errors };
+};
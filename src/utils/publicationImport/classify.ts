@@ -0,0 +1,87 @@
+import { type PartBItemPath } from '../../constant/scoring';
+import { PART_B_ITEM_PATHS } from '../scoring';
+import { type ImportedPublication } from './types';
+
+/** Part B sections an imported publication can land in. */
+export const IMPORT_SECTIONS = ['papers', 'conferences', 'bookChapters', 'books'] as const;
+export type ImportSection = typeof IMPORT_SECTIONS[number];
+
+/** Whether `item` is a Part B item in one of the import sections ("papers_scopus"). */
+export const isImportItem = (item: unknown): item is PartBItemPath =>
+  (PART_B_ITEM_PATHS as readonly unknown[]).includes(item) &&
+  IMPORT_SECTIONS.some((section) => (item as string).startsWith(`${section}_`));
+
+/** BibTeX, RIS and CSV-template record types, lower-cased. */
+const SECTION_BY_TYPE: Record<string, ImportSection> = {
+  article: 'papers',
+  jour: 'papers',
+  jfull: 'papers',
+  ejour: 'papers',
+  journal: 'papers',
+  paper: 'papers',
+  inproceedings: 'conferences',
+  conference: 'conferences',
+  proceedings: 'conferences',
+  conf: 'conferences',
+  cpaper: 'conferences',
+  incollection: 'bookChapters',
+  inbook: 'bookChapters',
+  chap: 'bookChapters',
+  echap: 'bookChapters',
+  chapter: 'bookChapters',
+  book: 'books',
+  ebook: 'books',
+  edbook: 'books',
+};
+
+/**
+ * Item within the section implied by the indexing hint, or null when the
+ * hint does not decide it (e.g. a non-Scopus conference may still be "other").
+ */
+const itemFromIndexing = (section: ImportSection, indexing: string): PartBItemPath | null => {
+  const hint = indexing.toLowerCase();
+  const scopus = hint.includes('scopus');
+
+  switch (section) {
+    case 'papers':
+      if (/\besci\b|emerging sources/.test(hint)) return 'papers_esci';
+      if (/\bscie?\b|science citation index/.test(hint)) return 'papers_sci';
+      if (scopus) return 'papers_scopus';
+      if (/\bugc\b/.test(hint)) return 'papers_ugc';
+      return null;
+    case 'conferences':
+      return scopus ? 'conferences_scopus' : null;
+    case 'bookChapters':
+      return scopus ? 'bookChapters_scopus' : null;
+    case 'books':
+      return null;
+  }
+};
+
+/**
+ * Work out where an imported publication belongs in Part B. The section
+ * comes from the record type and the item from the indexing hint; a CSV
+ * row may name the item directly ("papers_scopus"). Whatever cannot be
+ * decided is left null with a warning for the faculty to resolve.
+ */
+export const classifyPublication = (
+  record: ImportedPublication
+): { section: ImportSection | null; item: PartBItemPath | null; warnings: string[] } => {
+  const type = record.sourceType.trim();
+  const warnings: string[] = [];
+
+  if (isImportItem(type)) {
+    const section = IMPORT_SECTIONS.find((s) => type.startsWith(`${s}_`))!;
+    return { section, item: type, warnings };
+  }
+
+  const section = SECTION_BY_TYPE[type.toLowerCase()] ?? null;
+  if (!section) {
+    warnings.push(`Could not tell whether "${type || 'untyped'}" is a paper, conference, chapter or book`);
+    return { section, item: null, warnings };
+  }
+
+  const item = itemFromIndexing(section, record.indexing);
+  if (!item) warnings.push('Choose the Part B item: the indexing could not be determined');
+  return { section, item, warnings };
+};
@@ -0,0 +1,22 @@
+/**
+ * First plausible publication year (1900–2099) in a date-like string:
+ * "2024", "2024/03/01/", "March 2024".
+ */
+export const parseYear = (value: string): number | null => {
+  const match = value.match(/\b(19|20)\d{2}\b/);
+  return match ? Number(match[0]) : null;
+};
+
+/**
+ * "Last, First" → "First Last"; other forms are only trimmed.
+ */
+export const normalizeAuthorName = (name: string): string => {
+  const [last, first] = name.split(',').map((part) => part.trim());
+  return first ? `${first} ${last}` : name.trim();
+};
+
+/**
+ * Proof link for an imported work: its URL, else its DOI as a doi.org link.
+ */
+export const proofLink = (url: string, doi: string): string =>
+  url || (doi ? `https://doi.org/${doi.replace(/^https?:\/\/(?:dx\.)?doi\.org\//i, '')}` : '');
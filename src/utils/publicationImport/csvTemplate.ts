@@ -0,0 +1,54 @@
+import { parseCsvRecords } from '../csv';
+import { type ImportedPublication, type PublicationParseResult } from './types';
+import { parseYear, normalizeAuthorName, proofLink } from './common';
+
+/**
+ * Columns of the CSV template faculty can fill in by hand. Only `title` is
+ * required; `type` is paper / conference / chapter / book (or a BibTeX or
+ * RIS type) and `authors` is separated by semicolons.
+ */
+export const PUBLICATION_CSV_COLUMNS = [
+  'type',
+  'title',
+  'authors',
+  'venue',
+  'year',
+  'identifier',
+  'indexing',
+  'proof',
+] as const;
+
+/**
+ * Parse the publication CSV template. `doi`, `isbn` and `url` columns are
+ * accepted as aliases for `identifier` and `proof`.
+ */
+export const parsePublicationCsv = (text: string): PublicationParseResult => {
+  const { headers, records: rows } = parseCsvRecords(text);
+  const records: ImportedPublication[] = [];
+  const errors: string[] = [];
+
+  if (!headers.includes('title')) {
+    errors.push(`CSV must have a header row with at least a "title" column (${PUBLICATION_CSV_COLUMNS.join(', ')})`);
+    return { records, errors };
+  }
+
+  rows.forEach((row, index) => {
+    if (!row.title) {
+      errors.push(`Row ${index + 2} has no title`);
+      return;
+    }
+    const doi = row.doi ?? '';
+    records.push({
+      sourceType: row.type ?? '',
+      title: row.title,
+      authors: (row.authors ?? '').split(';').map(normalizeAuthorName).filter(Boolean),
+      venue: row.venue ?? '',
+      year: parseYear(row.year ?? ''),
+      identifier: row.identifier || doi || row.isbn || '',
+      indexing: row.indexing ?? '',
+      proof: row.proof || proofLink(row.url ?? '', doi),
+    });
+  });
+
+  return { records, errors };
+};
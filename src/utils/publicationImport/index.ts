@@ -0,0 +1,91 @@
+import { type PartBItemPath } from '../../constant/scoring';
+import { claimKeys } from '../claimKeys';
+import { collectPartBClaims } from '../duplicateClaims';
+import { parseBibtex } from './bibtex';
+import { parseRis } from './ris';
+import { parsePublicationCsv } from './csvTemplate';
+import { classifyPublication, type ImportSection } from './classify';
+import {
+  PUBLICATION_FORMATS,
+  type PublicationFormat,
+  type PublicationParseResult,
+  type ImportedPublication,
+} from './types';
+
+export * from './types';
+export * from './classify';
+export { PUBLICATION_CSV_COLUMNS } from './csvTemplate';
+
+/** A parsed publication as shown in the import preview. */
+export interface ImportCandidate {
+  index: number;
+  section: ImportSection | null;
+  item: PartBItemPath | null;
+  entry: Omit<ImportedPublication, 'sourceType'>;
+  warnings: string[];
+  /** Same DOI/ISBN or title as an entry already in the draft's Part B. */
+  alreadyClaimed: boolean;
+  /** Index of an earlier candidate in the same file describing the same work. */
+  duplicateOf: number | null;
+}
+
+/**
+ * Format named by the client, else implied by the file extension, else
+ * sniffed from the content. Null when none of these decide it.
+ */
+export const detectPublicationFormat = (
+  content: string,
+  fileName = '',
+  format?: unknown
+): PublicationFormat | null => {
+  if ((PUBLICATION_FORMATS as readonly unknown[]).includes(format)) return format as PublicationFormat;
+
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'bib' || extension === 'bibtex') return 'bibtex';
+  if (extension === 'ris') return 'ris';
+  if (extension === 'csv') return 'csv';
+
+  if (/^\s*@\w+\s*[{(]/m.test(content)) return 'bibtex';
+  if (/^TY  - /m.test(content)) return 'ris';
+  if (/^[^\n]*\btitle\b[^\n]*,/i.test(content)) return 'csv';
+  return null;
+};
+
+export const parsePublications = (content: string, format: PublicationFormat): PublicationParseResult => {
+  switch (format) {
+    case 'bibtex':
+      return parseBibtex(content);
+    case 'ris':
+      return parseRis(content);
+    case 'csv':
+      return parsePublicationCsv(content);
+  }
+};
+
+/**
+ * Classify parsed records and mark the ones already in the draft's Part B
+ * or repeated within the file, so the preview can leave them unticked.
+ */
+export const buildImportCandidates = (
+  records: ImportedPublication[],
+  existingPartB: unknown
+): ImportCandidate[] => {
+  const existingKeys = new Set(
+    collectPartBClaims('', existingPartB).flatMap((claim) => claimKeys(claim))
+  );
+  const seen = new Map<string, number>();
+
+  return records.map(({ sourceType, ...entry }, index) => {
+    const keys = claimKeys(entry);
+    const duplicateOf = keys.map((key) => seen.get(key)).find((i) => i !== undefined) ?? null;
+    for (const key of keys) if (!seen.has(key)) seen.set(key, index);
+
+    return {
+      index,
+      ...classifyPublication({ sourceType, ...entry }),
+      entry,
+      alreadyClaimed: keys.some((key) => existingKeys.has(key)),
+      duplicateOf,
+    };
+  });
+};
@@ -0,0 +1,69 @@
+import { type ImportedPublication, type PublicationParseResult } from './types';
+import { parseYear, normalizeAuthorName, proofLink } from './common';
+
+/** "TY  - JOUR": a two-character tag, two spaces, a hyphen and the value. */
+const RIS_LINE = /^([A-Z][A-Z0-9])  -\s?(.*)$/;
+
+const toPublication = (tags: Record<string, string[]>): ImportedPublication => {
+  const first = (...names: string[]): string =>
+    names.map((name) => tags[name]?.[0]?.trim() ?? '').find(Boolean) ?? '';
+  const type = first('TY');
+  const doi = first('DO');
+  // SN holds an ISSN for journals; only books and chapters carry an ISBN there
+  const isbn = ['BOOK', 'EBOOK', 'EDBOOK', 'CHAP', 'ECHAP'].includes(type) ? first('SN') : '';
+
+  return {
+    sourceType: type,
+    title: first('TI', 'T1', 'CT'),
+    authors: [...(tags.AU ?? []), ...(tags.A1 ?? [])].map(normalizeAuthorName).filter(Boolean),
+    venue: first('T2', 'JO', 'JF', 'JA', 'BT', 'PB'),
+    year: parseYear(first('PY', 'Y1', 'DA')),
+    identifier: doi || isbn || (type === 'PAT' ? first('IS', 'M1') : ''),
+    indexing: [first('DB'), first('DP'), ...(tags.KW ?? [])].filter(Boolean).join('; '),
+    proof: proofLink(first('UR', 'L1'), doi),
+  };
+};
+
+/**
+ * Parse an RIS file (Scopus, Web of Science, Mendeley exports) into
+ * publication records. Records run from "TY  -" to "ER  -".
+ */
+export const parseRis = (text: string): PublicationParseResult => {
+  const records: ImportedPublication[] = [];
+  const errors: string[] = [];
+  let tags: Record<string, string[]> | null = null;
+  let lastTag = '';
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const match = RIS_LINE.exec(line.replace(/^\uFEFF/, ''));
+
+    if (!match) {
+      // Continuation of a long value
+      if (tags && lastTag && line.trim()) {
+        const values = tags[lastTag];
+        values[values.length - 1] += ` ${line.trim()}`;
+      }
+      return;
+    }
+
+    const [, tag, value] = match;
+    if (tag === 'TY') {
+      if (tags) errors.push(`Record before line ${index + 1} has no "ER  -" line`);
+      tags = { TY: [value] };
+    } else if (!tags) {
+      errors.push(`Line ${index + 1}: "${tag}" appears outside a record`);
+      return;
+    } else if (tag === 'ER') {
+      const record = toPublication(tags);
+      if (record.title) records.push(record);
+      else errors.push(`Record ending on line ${index + 1} has no title`);
+      tags = null;
+    } else {
+      (tags[tag] ??= []).push(value);
+    }
+    lastTag = tag;
+  });
+
+  if (tags) errors.push('The last record has no "ER  -" line');
+  return { records, errors };
+};
@@ -0,0 +1,27 @@
+/**
+ * One record read from a BibTeX, RIS or CSV export, before it is classified
+ * into a Part B item.
+ */
+export interface ImportedPublication {
+  /** Record type as written in the source ("article", "JOUR", "chapter", ...). */
+  sourceType: string;
+  title: string;
+  authors: string[];
+  venue: string;
+  year: number | null;
+  /** DOI, or ISBN / patent number when there is no DOI. */
+  identifier: string;
+  /** Indexing hint from the source, e.g. "Scopus". */
+  indexing: string;
+  /** URL of the work, used as the proof link. */
+  proof: string;
+}
+
+export interface PublicationParseResult {
+  records: ImportedPublication[];
+  /** One message per record that could not be read. */
+  errors: string[];
+}
+
+export const PUBLICATION_FORMATS = ['bibtex', 'ris', 'csv'] as const;
+export type PublicationFormat = typeof PUBLICATION_FORMATS[number];
@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+import { Types } from 'mongoose';
+import {
+  ReportTemplate,
+  REPORT_TEMPLATE_STATUS,
+  type IReportTemplate,
+  type ReportTemplateFormat,
+} from '../models/reportTemplate';
+import { getStorage } from './storage';
+import { sha256Of } from './evidence';
+import { APPRAISAL_DOCX_TEMPLATE_PATH, APPRAISAL_PDF_TEMPLATE_PATH } from './appraisalTemplateData';
+
+/** Content types template uploads are accepted with, by format. */
+export const REPORT_TEMPLATE_CONTENT_TYPES: Record<ReportTemplateFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+/** The files in pdf_template/ used while no version is published for a cycle. */
+export const BUNDLED_REPORT_TEMPLATES: Record<ReportTemplateFormat, string> = {
+  pdf: APPRAISAL_PDF_TEMPLATE_PATH,
+  docx: APPRAISAL_DOCX_TEMPLATE_PATH,
+};
+
+/**
+ * The template format the bytes actually are, from their leading bytes. A
+ * .docx is a ZIP; whether it really holds a Word document is found out when
+ * its placeholders are read.
+ */
+export const detectReportTemplateFormat = (bytes: Buffer): ReportTemplateFormat | null => {
+  if (bytes.subarray(0, 5).toString('latin1') === '%PDF-') return 'pdf';
+  if (bytes.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))) return 'docx';
+  return null;
+};
+
+/** Content-addressed, so re-uploading the same file reuses the stored object. */
+export const reportTemplateStorageKey = (
+  appraisalYear: number,
+  format: ReportTemplateFormat,
+  sha256: string
+): string => `templates/${appraisalYear}/${format}/${sha256}.${format}`;
+
+/** Latest published version of a format for a year, or null. */
+export const getPublishedReportTemplate = async (
+  appraisalYear: number,
+  format: ReportTemplateFormat
+): Promise<IReportTemplate | null> =>
+  ReportTemplate.findOne({ appraisalYear, format, status: REPORT_TEMPLATE_STATUS.PUBLISHED })
+    .sort({ version: -1 })
+    .lean<IReportTemplate>();
+
+/**
+ * An uploaded template's bytes. Throws when the file is gone from storage or
+ * no longer matches the hash recorded at upload.
+ */
+export const loadReportTemplateFile = async (template: IReportTemplate): Promise<Buffer> => {
+  const file = await getStorage(template.storageDriver).get(template.storageKey);
+  if (!file) throw new Error(`Report template ${template.storageKey} is missing from storage`);
+  if (sha256Of(file) !== template.sha256) {
+    throw new Error(`Report template ${template.storageKey} failed its integrity check`);
+  }
+  return file;
+};
+
+/** A template ready to fill, and the version to record against what it produced. */
+export interface ResolvedReportTemplate {
+  /** Null for the bundled file. */
+  templateId: Types.ObjectId | null;
+  /** 0 for the bundled file. */
+  version: number;
+  fileName: string;
+  bytes: Buffer;
+}
+
+/**
+ * The template a cycle's reports are filled from: the latest published
+ * version of `format`, else the bundled file. Null when neither exists.
+ */
+export const resolveReportTemplate = async (
+  appraisalYear: number,
+  format: ReportTemplateFormat
+): Promise<ResolvedReportTemplate | null> => {
+  const published = await getPublishedReportTemplate(appraisalYear, format);
+  if (published) {
+    return {
+      templateId: published._id as Types.ObjectId,
+      version: published.version,
+      fileName: published.fileName,
+      bytes: await loadReportTemplateFile(published),
+    };
+  }
+
+  const bundled = BUNDLED_REPORT_TEMPLATES[format];
+  if (!fs.existsSync(bundled)) return null;
+  return { templateId: null, version: 0, fileName: path.basename(bundled), bytes: fs.readFileSync(bundled) };
+};
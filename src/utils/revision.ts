@@ -0,0 +1,76 @@
+import {
+  APPRAISAL_STATUS,
+  APPRAISAL_EVENTS,
+  APPRAISAL_PARTS,
+  type AppraisalPart,
+  type ReviewStatus,
+} from '../constant/appraisal';
+import { type IFacultyAppraisal, type IRevisionRequest } from '../models/detailedAppraisal';
+import { transitionAppraisal } from './appraisalStateMachine';
+
+/**
+ * The open revision request, or null when the appraisal is not in
+ * "Revision Requested".
+ */
+export const getOpenRevision = (appraisal: IFacultyAppraisal): IRevisionRequest | null => {
+  if (appraisal.status !== APPRAISAL_STATUS.REVISION_REQUESTED) return null;
+  return appraisal.revisions[appraisal.revisions.length - 1] ?? null;
+};
+
+/**
+ * Validate a reviewer's `{ parts, reason }` payload. `parts` is a list of
+ * `{ part, comment }` objects (or bare part names). Returns the cleaned parts
+ * and reason, plus one message per problem.
+ */
+export const parseRevisionRequest = (
+  body: unknown
+): { parts: IRevisionRequest['parts']; reason: string; errors: string[] } => {
+  const { parts: rawParts, reason: rawReason } = (body ?? {}) as Record<string, unknown>;
+  const errors: string[] = [];
+  const parts: IRevisionRequest['parts'] = [];
+
+  const reason = typeof rawReason === 'string' ? rawReason.trim() : '';
+  if (!reason) errors.push('"reason" is required');
+
+  if (!Array.isArray(rawParts) || rawParts.length === 0) {
+    errors.push(`"parts" must list at least one of ${APPRAISAL_PARTS.join(', ')}`);
+    return { parts, reason, errors };
+  }
+
+  for (const raw of rawParts) {
+    const entry = typeof raw === 'string' ? { part: raw } : (raw as Record<string, unknown>);
+    const part = entry?.part;
+    if (!APPRAISAL_PARTS.includes(part as AppraisalPart)) {
+      errors.push(`Unknown part "${String(part)}"`);
+      continue;
+    }
+    if (parts.some((p) => p.part === part)) continue;
+    parts.push({
+      part: part as AppraisalPart,
+      comment: typeof entry.comment === 'string' ? entry.comment.trim() : '',
+    });
+  }
+
+  return { parts, reason, errors };
+};
+
+/**
+ * Return an appraisal in a review stage to the faculty. Fires the
+ * requestRevision transition (throwing its 409 if the reviewer may not),
+ * records the request and clears the declaration so it must be re-confirmed.
+ * The caller saves.
+ */
+export const openRevision = (
+  appraisal: IFacultyAppraisal,
+  request: Pick<IRevisionRequest, 'parts' | 'reason' | 'requestedBy' | 'requestedByRole'>
+): void => {
+  const fromStatus = appraisal.status as ReviewStatus;
+  transitionAppraisal(
+    appraisal,
+    APPRAISAL_EVENTS.REQUEST_REVISION,
+    { userId: request.requestedBy, role: request.requestedByRole },
+    { remark: request.reason }
+  );
+  appraisal.revisions.push({ ...request, fromStatus, requestedAt: new Date() });
+  appraisal.declaration.isAgreed = false;
+};
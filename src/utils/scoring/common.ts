@@ -0,0 +1,56 @@
+import { ACADEMIC_CADRES, type AcademicCadre } from '../../constant/appraisal';
+import { SCORE_TOLERANCE } from '../../constant/scoring';
+
+/**
+ * A claimed mark that does not match what the server computed from the inputs.
+ */
+export interface ScoreDiscrepancy {
+  field: string;
+  claimed: number;
+  computed: number;
+}
+
+/**
+ * Coerce a client-supplied value to a non-negative finite number (0 otherwise).
+ */
+export const toCount = (value: unknown): number => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : 0;
+};
+
+/**
+ * Round to two decimals so stored marks match what the PDF prints.
+ */
+export const roundMarks = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Clamp a mark to [0, max].
+ */
+export const capMarks = (value: number, max: number): number =>
+  Math.min(max, Math.max(0, value));
+
+/**
+ * Narrow an arbitrary designation string to an academic cadre.
+ * Unknown values fall back to Assistant Professor (factor 1, no reduction).
+ */
+export const toAcademicCadre = (designation: unknown): AcademicCadre =>
+  (ACADEMIC_CADRES as readonly string[]).includes(designation as string)
+    ? (designation as AcademicCadre)
+    : 'Assistant Professor';
+
+/**
+ * Compare a claimed value against the computed one.
+ * Fields the client did not send (undefined/null) are not compared.
+ */
+export const checkClaim = (
+  discrepancies: ScoreDiscrepancy[],
+  field: string,
+  claimed: unknown,
+  computed: number
+): void => {
+  if (claimed === undefined || claimed === null) return;
+  const claimedNumber = Number(claimed);
+  if (!Number.isFinite(claimedNumber) || Math.abs(claimedNumber - computed) > SCORE_TOLERANCE) {
+    discrepancies.push({ field, claimed: claimedNumber, computed });
+  }
+};
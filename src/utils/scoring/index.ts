@@ -0,0 +1,6 @@
+export * from './common';
+export * from './partA';
+export * from './partB';
+export * from './partC';
+export * from './summary';
+export * from './rubric';
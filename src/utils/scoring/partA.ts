@@ -0,0 +1,165 @@
+import { type ICourseMetric, type IFacultyAppraisal } from '../../models/detailedAppraisal';
+import { type AcademicCadre } from '../../constant/appraisal';
+import { type RubricRules } from '../../constant/scoring';
+import { toCount, roundMarks, capMarks, checkClaim, type ScoreDiscrepancy } from './common';
+
+type PartA = IFacultyAppraisal['partA'];
+
+export interface PartAScore {
+  /** Courses as submitted, with the per-course mark fields recomputed. */
+  courses: ICourseMetric[];
+  eLearningInstances: number;
+  weeklyLoadSem1: number;
+  weeklyLoadSem2: number;
+  phdScholar: boolean;
+  projectsGuided: number;
+  ptgMeetings: number;
+  sectionMarks: PartA['sectionMarks'];
+  /** Sum of section marks before the designation factor. */
+  rawTotal: number;
+  /** rawTotal × designation factor, capped at the designation maximum. */
+  totalClaimed: number;
+}
+
+const ratio = (part: number, whole: number): number =>
+  whole > 0 ? Math.min(1, part / whole) : 0;
+
+const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+/**
+ * Recompute the per-course marks of a single course row from its raw metrics.
+ */
+export const scoreCourse = (input: Partial<ICourseMetric>, rules: RubricRules): ICourseMetric => {
+  const { sectionMax, resultBandWeight } = rules.partA;
+  const studentsAbove60 = toCount(input.studentsAbove60);
+  const students50to59 = toCount(input.students50to59);
+  const students40to49 = toCount(input.students40to49);
+  const totalStudents = toCount(input.totalStudents);
+  const coAttainment = Math.min(100, toCount(input.coAttainment));
+  const timelySubmissionCO = input.timelySubmissionCO === true;
+  const studentsPresent = toCount(input.studentsPresent);
+  const totalEnrolledStudents = toCount(input.totalEnrolledStudents);
+  const feedbackPercentage = Math.min(100, toCount(input.feedbackPercentage));
+
+  const weightedPasses =
+    studentsAbove60 * resultBandWeight.above60 +
+    students50to59 * resultBandWeight.from50to59 +
+    students40to49 * resultBandWeight.from40to49;
+
+  return {
+    code: String(input.code ?? '').trim(),
+    semester: String(input.semester ?? '').trim(),
+    studentsAbove60,
+    students50to59,
+    students40to49,
+    totalStudents,
+    resultMarks: roundMarks(ratio(weightedPasses, totalStudents) * sectionMax.resultAnalysis),
+    coAttainment,
+    timelySubmissionCO,
+    coMarks: roundMarks(
+      (coAttainment / 100) * rules.partA.coAttainmentMax +
+        (timelySubmissionCO ? rules.partA.coTimelySubmissionMarks : 0)
+    ),
+    studentsPresent,
+    totalEnrolledStudents,
+    engagementMarks: roundMarks(
+      ratio(studentsPresent, totalEnrolledStudents) * sectionMax.academicEngagement
+    ),
+    feedbackPercentage,
+    feedbackMarks: roundMarks((feedbackPercentage / 100) * sectionMax.studentFeedback),
+  };
+};
+
+/**
+ * Derive every Part A mark from the raw inputs.
+ *
+ * Course-level sections (result analysis, course outcome, engagement and
+ * feedback) are the average over all courses taught. The remaining sections
+ * are per-unit counts capped at their section maximum. The raw total is then
+ * scaled by the designation factor and capped at the designation maximum.
+ */
+export const computePartA = (
+  input: Partial<PartA>,
+  designation: AcademicCadre,
+  rules: RubricRules
+): PartAScore => {
+  const { sectionMax } = rules.partA;
+  const courses = (Array.isArray(input.courses) ? input.courses : []).map((course) =>
+    scoreCourse(course, rules)
+  );
+
+  const eLearningInstances = toCount(input.eLearningInstances);
+  const weeklyLoadSem1 = toCount(input.weeklyLoadSem1);
+  const weeklyLoadSem2 = toCount(input.weeklyLoadSem2);
+  const phdScholar = input.phdScholar === true;
+  const projectsGuided = toCount(input.projectsGuided);
+  const ptgMeetings = toCount(input.ptgMeetings);
+
+  const loadNorm =
+    rules.partA.weeklyLoadNorm[designation] -
+    (phdScholar ? rules.partA.phdScholarLoadRelaxation : 0);
+
+  const sectionMarks: PartA['sectionMarks'] = {
+    resultAnalysis: roundMarks(average(courses.map((c) => c.resultMarks))),
+    courseOutcome: roundMarks(average(courses.map((c) => c.coMarks))),
+    eLearning: capMarks(eLearningInstances * rules.partA.perELearningInstance, sectionMax.eLearning),
+    academicEngagement: roundMarks(average(courses.map((c) => c.engagementMarks))),
+    teachingLoad: roundMarks(
+      ratio((weeklyLoadSem1 + weeklyLoadSem2) / 2, loadNorm) * sectionMax.teachingLoad
+    ),
+    projectsGuided: capMarks(projectsGuided * rules.partA.perProjectGuided, sectionMax.projectsGuided),
+    studentFeedback: roundMarks(average(courses.map((c) => c.feedbackMarks))),
+    ptgMeetings: roundMarks(capMarks(ptgMeetings * rules.partA.perPtgMeeting, sectionMax.ptgMeetings)),
+  };
+
+  const rawTotal = roundMarks(
+    Object.values(sectionMarks).reduce((sum, value) => sum + value, 0)
+  );
+
+  return {
+    courses,
+    eLearningInstances,
+    weeklyLoadSem1,
+    weeklyLoadSem2,
+    phdScholar,
+    projectsGuided,
+    ptgMeetings,
+    sectionMarks,
+    rawTotal,
+    totalClaimed: roundMarks(
+      Math.min(
+        rules.partA.roleMax[designation],
+        rawTotal * rules.partA.roleFactor[designation]
+      )
+    ),
+  };
+};
+
+/**
+ * List every mark in the client payload that disagrees with the computed score.
+ * Only fields the client actually sent are compared.
+ */
+export const findPartADiscrepancies = (
+  claimed: Partial<PartA>,
+  computed: PartAScore
+): ScoreDiscrepancy[] => {
+  const discrepancies: ScoreDiscrepancy[] = [];
+
+  computed.courses.forEach((course, index) => {
+    const sent = (claimed.courses?.[index] ?? {}) as Partial<ICourseMetric>;
+    checkClaim(discrepancies, `courses[${index}].resultMarks`, sent.resultMarks, course.resultMarks);
+    checkClaim(discrepancies, `courses[${index}].coMarks`, sent.coMarks, course.coMarks);
+    checkClaim(discrepancies, `courses[${index}].engagementMarks`, sent.engagementMarks, course.engagementMarks);
+    checkClaim(discrepancies, `courses[${index}].feedbackMarks`, sent.feedbackMarks, course.feedbackMarks);
+  });
+
+  const sentSections = (claimed.sectionMarks ?? {}) as Partial<PartA['sectionMarks']>;
+  (Object.keys(computed.sectionMarks) as Array<keyof PartA['sectionMarks']>).forEach((key) => {
+    checkClaim(discrepancies, `sectionMarks.${key}`, sentSections[key], computed.sectionMarks[key]);
+  });
+
+  checkClaim(discrepancies, 'totalClaimed', claimed.totalClaimed, computed.totalClaimed);
+
+  return discrepancies;
+};
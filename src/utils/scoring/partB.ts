@@ -0,0 +1,253 @@
+import { Types } from 'mongoose';
+import {
+  type IFacultyAppraisal,
+  type IVerifiedMark,
+  type IPartBEntry,
+} from '../../models/detailedAppraisal';
+import { PART_B_ENTRY_STATUSES, type AcademicCadre, type PartBEntryStatus } from '../../constant/appraisal';
+import {
+  PART_B_ITEM_RULES,
+  PART_B_GROUPS,
+  type PartBGroup,
+  type PartBItemPath,
+  type PartBItemRule,
+  type RubricRules,
+} from '../../constant/scoring';
+import { toCount, roundMarks, capMarks, checkClaim, type ScoreDiscrepancy } from './common';
+import { claimKeys } from '../claimKeys';
+
+type PartB = IFacultyAppraisal['partB'];
+
+export interface PartBScore {
+  /** Full Part B structure with counts sanitised and claimed/verified recomputed. */
+  partB: PartB;
+  /** Claimed total, capped at the designation maximum. */
+  totalClaimed: number;
+  /** Verified total, capped at the designation maximum. */
+  totalVerified: number;
+}
+
+export const PART_B_ITEM_PATHS = Object.keys(PART_B_ITEM_RULES) as PartBItemPath[];
+
+/**
+ * Read a Part B item by its key ("papers_sci", "placement").
+ */
+export const getPartBItem = (partB: unknown, path: string): Partial<IVerifiedMark> | undefined => {
+  const item = path
+    .split('_')
+    .reduce<any>((node, key) => (node && typeof node === 'object' ? node[key] : undefined), partB);
+  return item && typeof item === 'object' ? item : undefined;
+};
+
+/**
+ * Write a Part B item by its key, creating the parent section if needed.
+ */
+export const setPartBItem = (partB: Record<string, any>, path: string, item: IVerifiedMark): void => {
+  const keys = path.split('_');
+  const last = keys.pop()!;
+  const parent = keys.reduce<Record<string, any>>((node, key) => {
+    if (!node[key] || typeof node[key] !== 'object') node[key] = {};
+    return node[key];
+  }, partB);
+  parent[last] = item;
+};
+
+const trimmed = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const PENDING_VERIFICATION: IPartBEntry['verification'] = { status: 'pending', remark: '', verifiedBy: '' };
+
+/**
+ * Clean one client-supplied Part B entry. `authors` may be an array or a
+ * semicolon-separated string; `quantity` defaults to 1. An unknown or missing
+ * verification status becomes "pending". `matchKeys` is always recomputed
+ * from the title and identifier.
+ */
+export const sanitizePartBEntry = (raw: unknown): IPartBEntry => {
+  const sent = (raw && typeof raw === 'object' ? raw : {}) as Record<string, any>;
+
+  const authors = (Array.isArray(sent.authors) ? sent.authors : trimmed(sent.authors).split(';'))
+    .map(trimmed)
+    .filter(Boolean);
+  const year = Number(sent.year);
+  const status = sent.verification?.status as PartBEntryStatus;
+  const title = trimmed(sent.title);
+  const identifier = trimmed(sent.identifier);
+
+  return {
+    ...(Types.ObjectId.isValid(sent._id) ? { _id: new Types.ObjectId(String(sent._id)) } : {}),
+    title,
+    authors,
+    venue: trimmed(sent.venue),
+    year: Number.isInteger(year) && year >= 1900 && year <= 2100 ? year : null,
+    identifier,
+    indexing: trimmed(sent.indexing),
+    proof: trimmed(sent.proof),
+    quantity: sent.quantity === undefined || sent.quantity === null ? 1 : toCount(sent.quantity),
+    matchKeys: claimKeys({ title, identifier }),
+    verification: PART_B_ENTRY_STATUSES.includes(status)
+      ? {
+          status,
+          remark: trimmed(sent.verification.remark),
+          verifiedBy: trimmed(sent.verification.verifiedBy),
+          ...(sent.verification.verifiedAt ? { verifiedAt: new Date(sent.verification.verifiedAt) } : {}),
+        }
+      : { ...PENDING_VERIFICATION },
+  };
+};
+
+const sumQuantity = (entries: IPartBEntry[]): number =>
+  entries.reduce((sum, entry) => sum + entry.quantity, 0);
+
+/**
+ * Claimed marks for a single item: count (or complete blocks of it) × per-unit
+ * weight, capped per item.
+ */
+export const scorePartBItem = (path: PartBItemPath, count: number, rules: RubricRules): number => {
+  const rule: PartBItemRule = rules.partB.items[path];
+  const units = rule.blockSize ? Math.floor(count / rule.blockSize) : count;
+  const marks = units * rule.perUnit;
+  return roundMarks(rule.max !== undefined ? capMarks(marks, rule.max) : marks);
+};
+
+/** Item → the PART_B_GROUPS row whose maximum it shares. */
+const GROUP_OF = new Map<PartBItemPath, PartBGroup>(
+  (Object.entries(PART_B_GROUPS) as [PartBGroup, readonly PartBItemPath[]][]).flatMap(([group, items]) =>
+    items.map((item): [PartBItemPath, PartBGroup] => [item, group])
+  )
+);
+
+/**
+ * Sum item marks with each grouped row capped at its maximum. Rubrics
+ * published before group maxima existed have none and leave rows uncapped.
+ */
+const sumWithGroupCaps = (marks: Map<PartBItemPath, number>, rules: RubricRules): number => {
+  const groupSums = new Map<PartBGroup, number>();
+  let total = 0;
+  for (const [path, value] of marks) {
+    const group = GROUP_OF.get(path);
+    if (group) groupSums.set(group, (groupSums.get(group) ?? 0) + value);
+    else total += value;
+  }
+  for (const [group, sum] of groupSums) {
+    const max = rules.partB.groupMax?.[group];
+    total += max !== undefined ? capMarks(sum, max) : sum;
+  }
+  return total;
+};
+
+/**
+ * Derive every claimed Part B mark from the item entries.
+ *
+ * An item's count is the sum of its entries' quantities, and its verified
+ * marks score only the entries a verifier accepted. Items without entries
+ * (records that predate them) keep their stored count and verified marks.
+ * Verified marks never exceed the claimed marks for the same item. Both
+ * totals cap each grouped row (PART_B_GROUPS) at its maximum and the whole
+ * at the designation maximum.
+ */
+export const computePartB = (
+  input: Partial<PartB>,
+  designation: AcademicCadre,
+  rules: RubricRules
+): PartBScore => {
+  const partB: Record<string, any> = {};
+  const claimedMarks = new Map<PartBItemPath, number>();
+  const verifiedMarks = new Map<PartBItemPath, number>();
+
+  for (const path of PART_B_ITEM_PATHS) {
+    const sent = getPartBItem(input, path) ?? {};
+    const entries = Array.isArray(sent.entries) ? sent.entries.map(sanitizePartBEntry) : [];
+
+    const count = entries.length > 0 ? sumQuantity(entries) : toCount(sent.count);
+    const claimed = scorePartBItem(path, count, rules);
+    const acceptedEntries = entries.filter((entry) => entry.verification.status === 'accepted');
+    const accepted =
+      entries.length > 0 ? scorePartBItem(path, sumQuantity(acceptedEntries), rules) : toCount(sent.verified);
+    const verified = roundMarks(capMarks(accepted, claimed));
+
+    setPartBItem(partB, path, {
+      count,
+      proof: trimmed(sent.proof),
+      claimed,
+      verified,
+      entries,
+    });
+
+    claimedMarks.set(path, claimed);
+    verifiedMarks.set(path, verified);
+  }
+
+  const roleMax = rules.partB.roleMax[designation];
+  const totalClaimed = roundMarks(Math.min(roleMax, sumWithGroupCaps(claimedMarks, rules)));
+  const totalVerified = roundMarks(Math.min(roleMax, sumWithGroupCaps(verifiedMarks, rules)));
+
+  return {
+    partB: { ...partB, totalClaimed, totalVerified } as PartB,
+    totalClaimed,
+    totalVerified,
+  };
+};
+
+/**
+ * List every claimed mark in the client payload that disagrees with the computed score.
+ */
+export const findPartBDiscrepancies = (claimed: Partial<PartB>, computed: PartBScore): ScoreDiscrepancy[] => {
+  const discrepancies: ScoreDiscrepancy[] = [];
+
+  for (const path of PART_B_ITEM_PATHS) {
+    checkClaim(
+      discrepancies,
+      `${path}.count`,
+      getPartBItem(claimed, path)?.count,
+      getPartBItem(computed.partB, path)?.count ?? 0
+    );
+    checkClaim(
+      discrepancies,
+      `${path}.claimed`,
+      getPartBItem(claimed, path)?.claimed,
+      getPartBItem(computed.partB, path)?.claimed ?? 0
+    );
+  }
+  checkClaim(discrepancies, 'totalClaimed', claimed.totalClaimed, computed.totalClaimed);
+
+  return discrepancies;
+};
+
+/** Fields whose change sends an accepted/rejected entry back to the verifier. */
+const isSameClaim = (a: IPartBEntry, b: IPartBEntry): boolean =>
+  a.title === b.title && a.identifier === b.identifier && a.proof === b.proof && a.quantity === b.quantity;
+
+/**
+ * Copy of a client Part B payload whose verification is taken from the stored
+ * Part B, so faculty edits can never change verifier decisions. Entries are
+ * matched by `_id`; new entries, and entries whose title, identifier, proof or
+ * quantity changed, go back to "pending". Counts are derived from the
+ * entries, so the client's `count` only stands for items without entries
+ * (records that predate them); when it is left out the stored count is kept.
+ */
+export const withStoredVerification = (input: Partial<PartB>, stored: Partial<PartB>): Partial<PartB> => {
+  const merged: Record<string, any> = {};
+  for (const path of PART_B_ITEM_PATHS) {
+    const { count: sentCount, ...sent } = getPartBItem(input, path) ?? {};
+    const storedItem = getPartBItem(stored, path);
+    const storedEntries = (storedItem?.entries ?? []).map(sanitizePartBEntry);
+
+    const entries = (Array.isArray(sent.entries) ? sent.entries : []).map((raw) => {
+      const entry = sanitizePartBEntry(raw);
+      const previous = entry._id && storedEntries.find((e) => e._id?.equals(entry._id!));
+      return {
+        ...entry,
+        verification:
+          previous && isSameClaim(previous, entry) ? previous.verification : { ...PENDING_VERIFICATION },
+      };
+    });
+
+    setPartBItem(merged, path, {
+      ...sent,
+      count: entries.length > 0 ? undefined : sentCount ?? storedItem?.count ?? 0,
+      verified: storedItem?.verified ?? 0,
+      entries,
+    } as IVerifiedMark);
+  }
+  return { ...merged, totalClaimed: input.totalClaimed } as Partial<PartB>;
+};
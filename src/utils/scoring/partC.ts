@@ -0,0 +1,103 @@
+import { type IFacultyAppraisal } from '../../models/detailedAppraisal';
+import { type AcademicCadre } from '../../constant/appraisal';
+import { type RubricRules } from '../../constant/scoring';
+import { toCount, roundMarks, capMarks, checkClaim, type ScoreDiscrepancy } from './common';
+
+type PartC = IFacultyAppraisal['partC'];
+type TrainingCounts = PartC['trainingAttended'];
+
+export interface PartCScore {
+  pdfCompleted: boolean;
+  pdfOngoing: boolean;
+  phdAwarded: boolean;
+  trainingAttended: TrainingCounts;
+  trainingOrganized: TrainingCounts;
+  phdGuided: PartC['phdGuided'];
+  sectionMarks: PartC['sectionMarks'];
+  /** Sum of the subsection marks, capped at the designation maximum. */
+  totalClaimed: number;
+}
+
+const toTrainingCounts = (input: Partial<TrainingCounts> | undefined): TrainingCounts => ({
+  twoWeek: toCount(input?.twoWeek),
+  oneWeek: toCount(input?.oneWeek),
+  twoToFiveDays: toCount(input?.twoToFiveDays),
+  oneDay: toCount(input?.oneDay),
+});
+
+const scoreTraining = (
+  counts: TrainingCounts,
+  rule: { perProgramme: TrainingCounts; max: number }
+): number =>
+  capMarks(
+    (Object.keys(counts) as Array<keyof TrainingCounts>).reduce(
+      (sum, key) => sum + counts[key] * rule.perProgramme[key],
+      0
+    ),
+    rule.max
+  );
+
+/**
+ * Derive every Part C mark from the qualification flags and programme/scholar counts.
+ * Used both when saving Part C and when rendering the PDF.
+ */
+export const computePartC = (
+  input: Partial<PartC>,
+  designation: AcademicCadre,
+  rules: RubricRules
+): PartCScore => {
+  const { qualificationMarks, phdGuided: phdGuidedMarks } = rules.partC;
+  const pdfCompleted = input.pdfCompleted === true;
+  const pdfOngoing = input.pdfOngoing === true;
+  const phdAwarded = input.phdAwarded === true;
+  const trainingAttended = toTrainingCounts(input.trainingAttended);
+  const trainingOrganized = toTrainingCounts(input.trainingOrganized);
+  const phdGuided = {
+    awarded: toCount(input.phdGuided?.awarded),
+    submitted: toCount(input.phdGuided?.submitted),
+    ongoing: toCount(input.phdGuided?.ongoing),
+  };
+
+  const sectionMarks: PartC['sectionMarks'] = {
+    qualification: pdfCompleted || phdAwarded
+      ? qualificationMarks.completed
+      : pdfOngoing
+        ? qualificationMarks.ongoing
+        : 0,
+    trainingAttended: roundMarks(scoreTraining(trainingAttended, rules.partC.trainingAttended)),
+    trainingOrganized: roundMarks(scoreTraining(trainingOrganized, rules.partC.trainingOrganized)),
+    phdGuided: roundMarks(
+      phdGuided.awarded * phdGuidedMarks.awarded +
+        phdGuided.submitted * phdGuidedMarks.submitted +
+        phdGuided.ongoing * phdGuidedMarks.ongoing
+    ),
+  };
+
+  const total = Object.values(sectionMarks).reduce((sum, value) => sum + value, 0);
+
+  return {
+    pdfCompleted,
+    pdfOngoing,
+    phdAwarded,
+    trainingAttended,
+    trainingOrganized,
+    phdGuided,
+    sectionMarks,
+    totalClaimed: roundMarks(Math.min(rules.partC.roleMax[designation], total)),
+  };
+};
+
+/**
+ * List every mark in the client payload that disagrees with the computed score.
+ */
+export const findPartCDiscrepancies = (claimed: Partial<PartC>, computed: PartCScore): ScoreDiscrepancy[] => {
+  const discrepancies: ScoreDiscrepancy[] = [];
+
+  const sentSections = (claimed.sectionMarks ?? {}) as Partial<PartC['sectionMarks']>;
+  (Object.keys(computed.sectionMarks) as Array<keyof PartC['sectionMarks']>).forEach((key) => {
+    checkClaim(discrepancies, `sectionMarks.${key}`, sentSections[key], computed.sectionMarks[key]);
+  });
+  checkClaim(discrepancies, 'totalClaimed', claimed.totalClaimed, computed.totalClaimed);
+
+  return discrepancies;
+};
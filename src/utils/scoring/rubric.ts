@@ -0,0 +1,111 @@
+import { Types } from 'mongoose';
+import { Rubric, RUBRIC_STATUS, type IRubric } from '../../models/rubric';
+import { DEFAULT_RUBRIC_RULES, type RubricRules } from '../../constant/scoring';
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Deep-merge a partial rules patch over a complete base. Arrays and scalars
+ * in the patch replace the base value; nested objects are merged key by key.
+ */
+export const mergeRubricRules = (base: RubricRules, patch: unknown): RubricRules => {
+  const merge = (target: any, source: any): any => {
+    if (!isPlainObject(source)) return source === undefined ? target : source;
+    const out: Record<string, any> = isPlainObject(target) ? { ...target } : {};
+    for (const [key, value] of Object.entries(source)) {
+      out[key] = merge(out[key], value);
+    }
+    return out;
+  };
+  return merge(base, patch);
+};
+
+/**
+ * Check a rules object against the shape of the built-in rubric.
+ * Every number must be finite and non-negative. Part B items may add an
+ * optional per-item `max` and `blockSize`. Returns one message per problem; empty when valid.
+ */
+export const findRubricErrors = (rules: unknown): string[] => {
+  const errors: string[] = [];
+
+  const walk = (template: unknown, value: unknown, path: string): void => {
+    if (isPlainObject(template)) {
+      if (!isPlainObject(value)) {
+        errors.push(`${path || 'rules'} must be an object`);
+        return;
+      }
+      for (const key of Object.keys(template)) {
+        walk(template[key], value[key], path ? `${path}.${key}` : key);
+      }
+      for (const key of Object.keys(value)) {
+        if (key in template) continue;
+        const isItemOption = (key === 'max' || key === 'blockSize') && path.startsWith('partB.items.');
+        if (isItemOption) walk(0, value[key], `${path}.${key}`);
+        else errors.push(`${path ? `${path}.${key}` : key} is not a rubric field`);
+      }
+      return;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      errors.push(`${path} must be a non-negative number`);
+    }
+  };
+
+  walk(DEFAULT_RUBRIC_RULES, rules, '');
+  return errors;
+};
+
+/**
+ * Latest published rubric for an appraisal year, or null if none exists.
+ */
+export const getPublishedRubric = async (appraisalYear: number): Promise<IRubric | null> =>
+  Rubric.findOne({ appraisalYear, status: RUBRIC_STATUS.PUBLISHED }).sort({ version: -1 });
+
+/**
+ * The rules an appraisal must be scored with: its pinned rubric if it has one,
+ * the copy of the built-in rules taken when it was pinned to them (version 0),
+ * otherwise the latest published rubric for its year, otherwise the built-in
+ * rules.
+ */
+export const resolveRubricRules = async (appraisal: {
+  rubricId?: Types.ObjectId | null;
+  rubricRules?: RubricRules | null;
+  rubricPinned?: boolean;
+  appraisalYear?: number;
+} | null | undefined): Promise<RubricRules> => {
+  if (appraisal?.rubricId) {
+    const pinned = await Rubric.findById(appraisal.rubricId).lean<IRubric>();
+    if (pinned) return pinned.rules;
+  } else if (appraisal?.rubricPinned) {
+    return appraisal.rubricRules ?? DEFAULT_RUBRIC_RULES;
+  }
+  if (appraisal?.appraisalYear !== undefined) {
+    const published = await getPublishedRubric(appraisal.appraisalYear);
+    if (published) return published.rules;
+  }
+  return DEFAULT_RUBRIC_RULES;
+};
+
+/**
+ * Fields that pin an appraisal to the current rubric for its year.
+ * Version 0 with a null id means the built-in rules, copied into the
+ * appraisal so they stay fixed.
+ */
+export const rubricPinFor = async (
+  appraisalYear: number
+): Promise<{
+  rubricId: Types.ObjectId | null;
+  rubricVersion: number;
+  rubricRules: RubricRules | null;
+  rubricPinned: true;
+}> => {
+  const published = await getPublishedRubric(appraisalYear);
+  return published
+    ? {
+        rubricId: published._id as Types.ObjectId,
+        rubricVersion: published.version,
+        rubricRules: null,
+        rubricPinned: true,
+      }
+    : { rubricId: null, rubricVersion: 0, rubricRules: structuredClone(DEFAULT_RUBRIC_RULES), rubricPinned: true };
+};
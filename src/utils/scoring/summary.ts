@@ -0,0 +1,30 @@
+import { type RubricRules } from '../../constant/scoring';
+import { roundMarks } from './common';
+
+/** The fields that decide whether an appraisal carries administration weightage. */
+export interface AdministrativePostFields {
+  role?: string;
+  partD?: { administrativeRole?: string } | null;
+}
+
+/**
+ * Administration weightage for an appraisal, from the faculty's role or the
+ * administrative post recorded in Part D. Rules pinned before Dean / HoD
+ * weightage existed give none.
+ */
+export const administrationWeightage = (appraisal: AdministrativePostFields, rules: RubricRules): number => {
+  const posts = [appraisal.role, appraisal.partD?.administrativeRole];
+  if (posts.includes('dean') || posts.includes('hod')) return rules.deanHodExtraMarks ?? 0;
+  if (posts.includes('associate_dean')) return rules.associateDeanExtraMarks;
+  return 0;
+};
+
+/**
+ * Grand total from the sum of the five parts: administration weightage is
+ * added, then the whole is capped at the rubric's maximum.
+ */
+export const computeGrandTotal = (
+  partsTotal: number,
+  appraisal: AdministrativePostFields,
+  rules: RubricRules
+): number => roundMarks(Math.min(rules.grandTotalMax, partsTotal + administrationWeightage(appraisal, rules)));
@@ -0,0 +1,46 @@
+import { type AppraisalStatus } from '../constant/appraisal';
+import { type IFacultyAppraisal, type IStatusChange } from '../models/detailedAppraisal';
+
+/** Who made a status change: a user id plus their role (or "verifier"). */
+export interface StatusActor {
+  userId: string;
+  role: string;
+}
+
+/**
+ * First history entry, recorded when an appraisal is created.
+ */
+export const initialStatusEntry = (
+  status: AppraisalStatus,
+  actor: StatusActor,
+  remark = ''
+): IStatusChange => ({
+  from: null,
+  to: status,
+  actorId: actor.userId,
+  actorRole: actor.role,
+  remark,
+  at: new Date(),
+});
+
+/**
+ * Move an appraisal to `to` and append the change to its status history.
+ * Only the state machine calls this — handlers fire events through
+ * transitionAppraisal. The caller saves the document.
+ */
+export const setAppraisalStatus = (
+  appraisal: IFacultyAppraisal,
+  to: AppraisalStatus,
+  actor: StatusActor,
+  remark = ''
+): void => {
+  appraisal.statusHistory.push({
+    from: appraisal.status,
+    to,
+    actorId: actor.userId,
+    actorRole: actor.role,
+    remark,
+    at: new Date(),
+  });
+  appraisal.status = to;
+};
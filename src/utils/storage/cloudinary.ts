@@ -0,0 +1,99 @@
+import path from 'path';
+import { createReadStream } from 'fs';
+import cloudinary from '../../config/cloudinary';
+import { assertSafeKey, DEFAULT_SIGNED_URL_TTL_SECONDS, type StorageAdapter } from './types';
+
+/** Extensions Cloudinary stores as "image" assets (PDFs included); anything else is "raw". */
+const IMAGE_EXTENSIONS = ['pdf', 'png', 'jpg', 'jpeg', 'webp', 'gif'];
+
+/**
+ * Files in Cloudinary under `folder`. Key "2025/pdfs/F001.pdf" becomes the
+ * image asset "<folder>/2025/pdfs/F001" with format "pdf" — the layout the
+ * appraisal PDFs have always used — and keys of other types become raw assets.
+ */
+export const createCloudinaryStorage = (folder: string): StorageAdapter => {
+  const locate = (key: string) => {
+    assertSafeKey(key);
+    const extension = path.posix.extname(key).slice(1).toLowerCase();
+    const isImage = IMAGE_EXTENSIONS.includes(extension);
+    const stem = isImage ? key.slice(0, -(extension.length + 1)) : key;
+    return {
+      resourceType: isImage ? ('image' as const) : ('raw' as const),
+      format: isImage ? extension : '',
+      publicId: `${folder}/${stem}`,
+      assetFolder: path.posix.dirname(`${folder}/${key}`),
+      baseName: path.posix.basename(stem),
+    };
+  };
+
+  const signedUrl: StorageAdapter['signedUrl'] = (key, { expiresInSeconds = DEFAULT_SIGNED_URL_TTL_SECONDS } = {}) => {
+    const { publicId, format, resourceType } = locate(key);
+    return cloudinary.utils.private_download_url(publicId, format, {
+      resource_type: resourceType,
+      type: 'upload',
+      attachment: false,
+      expires_at: Math.floor(Date.now() / 1000) + expiresInSeconds,
+    });
+  };
+
+  /** Upload `source` (bytes, or a file path streamed from disk) under `key`. */
+  const upload = async (key: string, source: Buffer | string): Promise<void> => {
+    const { publicId, resourceType, assetFolder, baseName } = locate(key);
+
+    // Clean up legacy raw uploads of PDFs from the earlier implementation if they exist.
+    if (resourceType === 'image') {
+      await Promise.allSettled([
+        cloudinary.uploader.destroy(publicId, { resource_type: 'raw', invalidate: true }),
+        cloudinary.uploader.destroy(`${publicId}.pdf`, { resource_type: 'raw', invalidate: true }),
+      ]);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const destination = cloudinary.uploader
+        .upload_stream(
+          {
+            resource_type: resourceType,
+            asset_folder: assetFolder,
+            use_asset_folder_as_public_id_prefix: true,
+            public_id: baseName,
+            filename_override: path.posix.basename(key),
+            display_name: path.posix.basename(key),
+            overwrite: true,
+            invalidate: true,
+          },
+          (error, result) => {
+            if (error || !result) return reject(error ?? new Error('No result from Cloudinary'));
+            resolve();
+          },
+        );
+      if (Buffer.isBuffer(source)) destination.end(source);
+      else createReadStream(source).on('error', reject).pipe(destination);
+    });
+  };
+
+  return {
+    driver: 'cloudinary',
+
+    async put(key, body) {
+      await upload(key, body);
+    },
+
+    async putFile(key, filePath) {
+      await upload(key, filePath);
+    },
+
+    async get(key) {
+      const response = await fetch(signedUrl(key, { expiresInSeconds: 60 }));
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error(`Cloudinary download of ${key} failed with ${response.status}`);
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    async delete(key) {
+      const { publicId, resourceType } = locate(key);
+      await cloudinary.uploader.destroy(publicId, { resource_type: resourceType, invalidate: true });
+    },
+
+    signedUrl,
+  };
+};
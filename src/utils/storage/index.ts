@@ -0,0 +1,49 @@
+import { config } from '../../config';
+import { createLocalStorage } from './local';
+import { createS3Storage } from './s3';
+import { createCloudinaryStorage } from './cloudinary';
+import { STORAGE_DRIVERS, type StorageAdapter, type StorageDriver } from './types';
+
+export * from './types';
+export { createLocalStorage, verifyLocalSignedUrl, type LocalStorageOptions, type LocalSignedFile } from './local';
+export { createS3Storage, type S3StorageOptions } from './s3';
+export { createCloudinaryStorage } from './cloudinary';
+
+/** Route that serves local signed URLs (see routes/storage.routes). */
+export const LOCAL_SIGNED_URL_PATH = '/storage/files';
+
+const adapters = new Map<StorageDriver, StorageAdapter>();
+
+/** The driver new files are written with (STORAGE_DRIVER). */
+export const getDefaultStorageDriver = (): StorageDriver =>
+  (STORAGE_DRIVERS as readonly string[]).includes(config.storageDriver)
+    ? (config.storageDriver as StorageDriver)
+    : 'local';
+
+const createStorage = (driver: StorageDriver): StorageAdapter => {
+  switch (driver) {
+    case 's3':
+      return createS3Storage(config.s3);
+    case 'cloudinary':
+      return createCloudinaryStorage(config.cloudinaryFolder);
+    default:
+      return createLocalStorage({
+        rootDir: config.localStorageDir,
+        signedUrlBase: `${config.publicBaseUrl.replace(/\/$/, '')}${LOCAL_SIGNED_URL_PATH}`,
+        secret: config.storageUrlSecret,
+      });
+  }
+};
+
+/**
+ * The adapter for a driver, created on first use. Records keep the driver
+ * they were written with, so files stay readable after STORAGE_DRIVER changes.
+ */
+export const getStorage = (driver: StorageDriver = getDefaultStorageDriver()): StorageAdapter => {
+  let adapter = adapters.get(driver);
+  if (!adapter) {
+    adapter = createStorage(driver);
+    adapters.set(driver, adapter);
+  }
+  return adapter;
+};
@@ -0,0 +1,102 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { assertSafeKey, DEFAULT_SIGNED_URL_TTL_SECONDS, type StorageAdapter } from './types';
+
+export interface LocalStorageOptions {
+  rootDir: string;
+  /** Absolute URL of the route that serves signed files, e.g. "https://api.example.edu/storage/files". */
+  signedUrlBase: string;
+  /** HMAC key for signed URLs. */
+  secret: string;
+}
+
+/** What a valid local signed URL grants access to. */
+export interface LocalSignedFile {
+  key: string;
+  fileName: string;
+  contentType: string;
+}
+
+const sign = (secret: string, key: string, expires: number, fileName: string, contentType: string): string =>
+  createHmac('sha256', secret).update([key, expires, fileName, contentType].join('\n')).digest('base64url');
+
+/**
+ * Check the query of a URL made by a local adapter's signedUrl. Returns the
+ * file it grants, or null when it is expired, tampered with or incomplete.
+ */
+export const verifyLocalSignedUrl = (
+  secret: string,
+  query: Record<string, unknown>
+): LocalSignedFile | null => {
+  const { key, expires, name = '', type = '', signature } = query;
+  if (typeof key !== 'string' || typeof signature !== 'string') return null;
+  if (typeof name !== 'string' || typeof type !== 'string') return null;
+
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || expiresAt < Math.floor(Date.now() / 1000)) return null;
+
+  const expected = Buffer.from(sign(secret, key, expiresAt, name, type));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+
+  return { key, fileName: name, contentType: type };
+};
+
+/**
+ * Files under a directory on this server. Writes go to a temporary file and
+ * are renamed into place, so a reader never sees half an object. Signed URLs
+ * point at our own route (see storage.handler), which checks the HMAC.
+ */
+export const createLocalStorage = ({ rootDir, signedUrlBase, secret }: LocalStorageOptions): StorageAdapter => {
+  const root = path.resolve(rootDir);
+  const resolve = (key: string): string => {
+    assertSafeKey(key);
+    return path.join(root, ...key.split('/'));
+  };
+
+  return {
+    driver: 'local',
+
+    async put(key, body) {
+      const file = resolve(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      const temp = `${file}.${randomUUID()}.tmp`;
+      await fs.writeFile(temp, body);
+      await fs.rename(temp, file);
+    },
+
+    async putFile(key, filePath) {
+      const file = resolve(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      const temp = `${file}.${randomUUID()}.tmp`;
+      await fs.copyFile(filePath, temp);
+      await fs.rename(temp, file);
+    },
+
+    async get(key) {
+      try {
+        return await fs.readFile(resolve(key));
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await fs.rm(resolve(key), { force: true });
+    },
+
+    signedUrl(key, { expiresInSeconds = DEFAULT_SIGNED_URL_TTL_SECONDS, fileName = '', contentType = '' } = {}) {
+      assertSafeKey(key);
+      const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+      const url = new URL(signedUrlBase);
+      url.searchParams.set('key', key);
+      url.searchParams.set('expires', String(expires));
+      if (fileName) url.searchParams.set('name', fileName);
+      if (contentType) url.searchParams.set('type', contentType);
+      url.searchParams.set('signature', sign(secret, key, expires, fileName, contentType));
+      return url.toString();
+    },
+  };
+};
@@ -0,0 +1,209 @@
+import { createHash, createHmac } from 'crypto';
+import { promises as fs } from 'fs';
+import { assertSafeKey, DEFAULT_SIGNED_URL_TTL_SECONDS, type StorageAdapter } from './types';
+
+export interface S3StorageOptions {
+  /** e.g. "https://minio.internal:9000"; empty means AWS for `region`. */
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Address the bucket as a path ("host/bucket/key") rather than a subdomain. */
+  forcePathStyle: boolean;
+}
+
+const sha256Hex = (data: string | Buffer): string => createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: string | Buffer, data: string): Buffer => createHmac('sha256', key).update(data).digest();
+
+/** RFC 3986 encoding, as SigV4 expects. */
+const encodeRfc3986 = (value: string): string =>
+  encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const encodeKey = (key: string): string => key.split('/').map(encodeRfc3986).join('/');
+
+/** Files up to this size go up in one PUT; larger ones as a multipart upload of parts this big. */
+const MULTIPART_PART_BYTES = 8 * 1024 * 1024;
+
+/** Sorted, RFC 3986-encoded query string, identical in the canonical request and the URL. */
+const canonicalQuery = (params: Record<string, string>): string =>
+  Object.keys(params)
+    .sort()
+    .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(params[name])}`)
+    .join('&');
+
+/** Presigned URLs may live at most seven days. */
+const MAX_PRESIGN_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Objects in an S3-compatible bucket, using plain HTTPS requests signed with
+ * AWS Signature Version 4 (no SDK needed). Signed URLs are SigV4 presigned GETs.
+ */
+export const createS3Storage = (options: S3StorageOptions): StorageAdapter => {
+  const { region, bucket, accessKeyId, secretAccessKey, forcePathStyle } = options;
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error('S3 storage needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+  }
+  const endpoint = new URL(options.endpoint || `https://s3.${region}.amazonaws.com`);
+
+  const objectUrl = (key: string): URL => {
+    assertSafeKey(key);
+    const url = new URL(endpoint.toString());
+    if (forcePathStyle) {
+      url.pathname = `${url.pathname.replace(/\/$/, '')}/${bucket}/${encodeKey(key)}`;
+    } else {
+      url.hostname = `${bucket}.${url.hostname}`;
+      url.pathname = `/${encodeKey(key)}`;
+    }
+    return url;
+  };
+
+  /** Timestamp, credential scope and signature for one canonical request. */
+  const signRequest = (amzDate: string, canonicalRequest: string) => {
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region), 's3'), 'aws4_request');
+    return { scope, signature: createHmac('sha256', signingKey).update(stringToSign).digest('hex') };
+  };
+
+  const now = (): string => new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+
+  const send = async (
+    method: 'PUT' | 'GET' | 'DELETE' | 'POST',
+    key: string,
+    body?: Buffer,
+    contentType?: string,
+    params: Record<string, string> = {},
+  ) => {
+    const url = objectUrl(key);
+    const query = canonicalQuery(params);
+    url.search = query;
+    const amzDate = now();
+    const payloadHash = sha256Hex(body ?? '');
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...(contentType ? { 'content-type': contentType } : {}),
+    };
+    const names = Object.keys(headers).sort();
+    const signedHeaders = names.join(';');
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      query,
+      names.map((name) => `${name}:${headers[name]}\n`).join(''),
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+
+    const { scope, signature } = signRequest(amzDate, canonicalRequest);
+
+    // fetch sets Host itself, from the same URL that was signed
+    const { host: _host, ...sent } = headers;
+    return fetch(url, {
+      method,
+      headers: {
+        ...sent,
+        authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  };
+
+  const fail = async (action: string, key: string, response: Response): Promise<never> => {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`S3 ${action} ${key} failed with ${response.status}: ${detail.slice(0, 200)}`);
+  };
+
+  const put: StorageAdapter['put'] = async (key, body, contentType) => {
+    const response = await send('PUT', key, body, contentType);
+    if (!response.ok) await fail('PUT', key, response);
+  };
+
+  /** Upload a large file part by part, so only one part is in memory at a time. */
+  const putMultipart = async (key: string, filePath: string, size: number, contentType: string) => {
+    const created = await send('POST', key, undefined, contentType, { uploads: '' });
+    if (!created.ok) await fail('multipart upload of', key, created);
+    const uploadId = /<UploadId>([^<]+)<\/UploadId>/.exec(await created.text())?.[1];
+    if (!uploadId) throw new Error(`S3 multipart upload of ${key} returned no UploadId`);
+
+    const file = await fs.open(filePath, 'r');
+    try {
+      const parts: string[] = [];
+      for (let offset = 0; offset < size; offset += MULTIPART_PART_BYTES) {
+        const chunk = Buffer.alloc(Math.min(MULTIPART_PART_BYTES, size - offset));
+        await file.read(chunk, 0, chunk.length, offset);
+        const partNumber = String(parts.length + 1);
+        const response = await send('PUT', key, chunk, undefined, { partNumber, uploadId });
+        if (!response.ok) await fail(`part ${partNumber} of`, key, response);
+        parts.push(response.headers.get('etag') ?? '');
+      }
+
+      const manifest = Buffer.from(
+        `<CompleteMultipartUpload>${parts
+          .map((etag, index) => `<Part><PartNumber>${index + 1}</PartNumber><ETag>${etag}</ETag></Part>`)
+          .join('')}</CompleteMultipartUpload>`,
+      );
+      const completed = await send('POST', key, manifest, 'application/xml', { uploadId });
+      // S3 can answer 200 and still report the failure in the body
+      const detail = await completed.text();
+      if (!completed.ok || detail.includes('<Error>')) {
+        throw new Error(`S3 completing multipart upload of ${key} failed with ${completed.status}: ${detail.slice(0, 200)}`);
+      }
+    } catch (error) {
+      await send('DELETE', key, undefined, undefined, { uploadId }).catch(() => undefined);
+      throw error;
+    } finally {
+      await file.close();
+    }
+  };
+
+  return {
+    driver: 's3',
+
+    put,
+
+    async putFile(key, filePath, contentType) {
+      const { size } = await fs.stat(filePath);
+      if (size <= MULTIPART_PART_BYTES) return put(key, await fs.readFile(filePath), contentType);
+      await putMultipart(key, filePath, size, contentType);
+    },
+
+    async get(key) {
+      const response = await send('GET', key);
+      if (response.status === 404) return null;
+      if (!response.ok) await fail('GET', key, response);
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    async delete(key) {
+      const response = await send('DELETE', key);
+      if (!response.ok && response.status !== 404) await fail('DELETE', key, response);
+    },
+
+    signedUrl(key, { expiresInSeconds = DEFAULT_SIGNED_URL_TTL_SECONDS, fileName, contentType } = {}) {
+      const url = objectUrl(key);
+      const amzDate = now();
+      const credentialScope = `${amzDate.slice(0, 8)}/${region}/s3/aws4_request`;
+
+      const params: Record<string, string> = {
+        'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+        'X-Amz-Credential': `${accessKeyId}/${credentialScope}`,
+        'X-Amz-Date': amzDate,
+        'X-Amz-Expires': String(Math.min(expiresInSeconds, MAX_PRESIGN_SECONDS)),
+        'X-Amz-SignedHeaders': 'host',
+        ...(fileName ? { 'response-content-disposition': `inline; filename="${fileName.replace(/"/g, '')}"` } : {}),
+        ...(contentType ? { 'response-content-type': contentType } : {}),
+      };
+      const query = canonicalQuery(params);
+
+      const canonicalRequest = ['GET', url.pathname, query, `host:${url.host}\n`, 'host', 'UNSIGNED-PAYLOAD'].join('\n');
+      const { signature } = signRequest(amzDate, canonicalRequest);
+      return `${url.origin}${url.pathname}?${query}&X-Amz-Signature=${signature}`;
+    },
+  };
+};
@@ -0,0 +1,53 @@
+export const STORAGE_DRIVERS = ['local', 's3', 'cloudinary'] as const;
+export type StorageDriver = typeof STORAGE_DRIVERS[number];
+
+export interface SignedUrlOptions {
+  /** Default one hour. */
+  expiresInSeconds?: number;
+  /** Name the browser should show / save the file as. */
+  fileName?: string;
+  contentType?: string;
+}
+
+/**
+ * Where uploaded and generated files live. Keys are '/'-separated paths
+ * chosen by the caller (e.g. "evidence/2025/F001/<sha256>.pdf"); adapters
+ * never invent them.
+ */
+export interface StorageAdapter {
+  readonly driver: StorageDriver;
+  /** Store `body` under `key`, replacing any object already there. */
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  /** Store the file at `filePath` under `key` without reading it all into memory. */
+  putFile(key: string, filePath: string, contentType: string): Promise<void>;
+  /** The object's bytes, or null when there is nothing under `key`. */
+  get(key: string): Promise<Buffer | null>;
+  /** Remove the object; a missing key is not an error. */
+  delete(key: string): Promise<void>;
+  /** A time-limited URL anyone holding it can open the object with. */
+  signedUrl(key: string, options?: SignedUrlOptions): string;
+}
+
+export const DEFAULT_SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+/**
+ * Reject keys that could escape the storage root or bucket prefix.
+ */
+export const assertSafeKey = (key: string): void => {
+  if (!key || key.startsWith('/') || key.split('/').some((part) => part === '' || part === '.' || part === '..')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+};
+
+/**
+ * Records remember where a file went as "driver:key", so they stay readable
+ * after STORAGE_DRIVER changes.
+ */
+export const toStorageRef = (driver: StorageDriver, key: string): string => `${driver}:${key}`;
+
+export const parseStorageRef = (ref: string): { driver: StorageDriver; key: string } | null => {
+  const separator = ref.indexOf(':');
+  const driver = ref.slice(0, separator);
+  if (separator < 0 || !(STORAGE_DRIVERS as readonly string[]).includes(driver)) return null;
+  return { driver: driver as StorageDriver, key: ref.slice(separator + 1) };
+};
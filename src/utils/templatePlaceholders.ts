@@ -0,0 +1,219 @@
+/**
+ * templatePlaceholders.ts
+ *
+ * Finds the `{placeholder}` names in the appraisal templates so they can be
+ * checked against what buildAppraisalTemplateData supplies. A placeholder the
+ * builder does not know prints as a blank (PDF) or stays empty (DOCX), which
+ * is easy to miss on a long form, so the check runs when the server starts
+ * and whenever an admin uploads a template.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import PizZip from 'pizzip';
+import { PDFDocument, PDFRawStream, PDFName } from 'pdf-lib';
+import { type ReportTemplateFormat } from '../models/reportTemplate';
+import {
+  APPRAISAL_DOCX_TEMPLATE_PATH,
+  APPRAISAL_PDF_TEMPLATE_PATH,
+  findUnsuppliedPlaceholders,
+} from './appraisalTemplateData';
+
+/** `{name}` as it appears once the surrounding markup is stripped. */
+const PLACEHOLDER_PATTERN = /^\{([a-zA-Z_][a-zA-Z0-9_]*)\}$/;
+
+// ── PDF (test2.pdf) ──────────────────────────────────────────────────────────
+
+/** One `[…] TJ` operator: its byte range in the stream and its visible text. */
+export interface TjEntry {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** A placeholder and the consecutive TJ operators its text is spread over. */
+export interface PdfPlaceholderRun {
+  key: string;
+  entries: TjEntry[];
+}
+
+/**
+ * Join every `(fragment)` in a PDF TJ array to reconstruct the visible text.
+ *
+ * TJ arrays look like: `({f)3(a)7(cul)4(t)3(y_nam)4(e})`
+ * Numbers between the parenthesised pieces are glyph-advance adjustments
+ * (kerning); we ignore them — only the text portions matter.
+ */
+function extractTjText(arrayContent: string): string {
+  const parts: string[] = [];
+  // Matches `(...)` allowing escaped parens inside
+  const re = /\(([^)\\]*(?:\\.[^)\\]*)*)\)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(arrayContent)) !== null) {
+    parts.push(m[1]);
+  }
+  return parts.join('');
+}
+
+/**
+ * Locate the variable placeholders in a decompressed PDF content stream.
+ *
+ * Variables may span *multiple* consecutive TJ arrays (even across BT/ET
+ * block boundaries) because Word's PDF export can word-wrap a long placeholder
+ * so that the opening `{…body` lands in one positioned text block and the
+ * closing `}` lands in the next.  The strategy:
+ *
+ *  1. Collect every `[…] TJ` occurrence in the stream with its byte-range
+ *     and its joined `(fragment)` text.
+ *  2. Slide a window forward; starting only at TJs whose text begins with `{`.
+ *  3. Accumulate TJ text until the window matches `{varName}` exactly, or
+ *     until it can no longer be a valid placeholder (too long / bad chars).
+ *
+ * Runs are returned in stream order and never share a TJ.
+ */
+export function findPdfPlaceholderRuns(streamText: string): PdfPlaceholderRun[] {
+  // ── Collect all TJ arrays with their positions ───────────────────────────
+  const tjs: TjEntry[] = [];
+  const tjRe = /\[([^\]]*)\]\s*TJ/g;
+  let scan: RegExpExecArray | null;
+  while ((scan = tjRe.exec(streamText)) !== null) {
+    tjs.push({
+      start: scan.index,
+      end:   scan.index + scan[0].length,
+      text:  extractTjText(scan[1]),
+    });
+  }
+
+  // ── Find multi-TJ windows that form a complete {varName} ─────────────────
+  // varName chars: letters, digits, underscore — max 80 chars
+  const MAX_VAR_LEN = 82; // 80 name chars + 2 braces
+
+  const runs: PdfPlaceholderRun[] = [];
+  for (let i = 0; i < tjs.length; i++) {
+    // Window must start with a TJ that begins with '{'
+    if (!tjs[i].text.trimStart().startsWith('{')) continue;
+
+    let combined = '';
+    for (let j = i; j < tjs.length && j < i + 20; j++) {
+      combined += tjs[j].text;
+      if (combined.length > MAX_VAR_LEN) break; // too long to be a var
+
+      const trimmed = combined.trim();
+      // Must still start with '{' after trimming
+      if (!trimmed.startsWith('{')) break;
+
+      const varMatch = PLACEHOLDER_PATTERN.exec(trimmed);
+      if (varMatch) {
+        runs.push({ key: varMatch[1], entries: tjs.slice(i, j + 1) });
+        i = j; // the window's TJs belong to this placeholder
+        break;
+      }
+    }
+  }
+  return runs;
+}
+
+/** Placeholder names used anywhere in a PDF's FlateDecode content streams. */
+export async function listPdfPlaceholders(pdfBytes: Buffer): Promise<string[]> {
+  const pdfDoc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+  const names = new Set<string>();
+
+  for (const [, obj] of pdfDoc.context.enumerateIndirectObjects()) {
+    if (!(obj instanceof PDFRawStream)) continue;
+    const filter = obj.dict.get(PDFName.of('Filter'));
+    if (!(filter?.toString?.() ?? '').includes('FlateDecode')) continue;
+
+    let inflated: Buffer;
+    try {
+      inflated = zlib.inflateSync(Buffer.from(obj.contents));
+    } catch {
+      continue;
+    }
+    for (const run of findPdfPlaceholderRuns(inflated.toString('latin1'))) {
+      names.add(run.key);
+    }
+  }
+  return [...names];
+}
+
+// ── DOCX (template.docx) ─────────────────────────────────────────────────────
+
+/** Parts of a .docx that can carry placeholders. */
+const DOCX_TEXT_PARTS = /^word\/(document|header\d*|footer\d*|footnotes|endnotes)\.xml$/;
+
+/**
+ * Placeholder names used in a .docx. Word splits text into runs wherever the
+ * formatting or spell-check state changes, so tags are read from each
+ * paragraph's text with the XML stripped — the same text docxtemplater sees.
+ */
+export function listDocxPlaceholders(docxBytes: Buffer): string[] {
+  const zip = new PizZip(docxBytes);
+  if (!zip.file('word/document.xml')) throw new Error('Not a Word document (no word/document.xml)');
+  const names = new Set<string>();
+
+  for (const file of zip.file(DOCX_TEXT_PARTS)) {
+    for (const paragraph of file.asText().split('</w:p>')) {
+      const text = paragraph.replace(/<[^>]+>/g, '');
+      for (const tag of text.match(/\{[^{}]*\}/g) ?? []) {
+        const match = PLACEHOLDER_PATTERN.exec(tag.replace(/\s+/g, ''));
+        if (match) names.add(match[1]);
+      }
+    }
+  }
+  return [...names];
+}
+
+/** Placeholder names used in a template of either format. */
+export async function listTemplatePlaceholders(format: ReportTemplateFormat, bytes: Buffer): Promise<string[]> {
+  return format === 'pdf' ? listPdfPlaceholders(bytes) : listDocxPlaceholders(bytes);
+}
+
+// ── Startup check ────────────────────────────────────────────────────────────
+
+export interface TemplatePlaceholderReport {
+  template: string;
+  /** False when the template file is not on the server. */
+  found: boolean;
+  /** Placeholders the template uses that the builder does not supply. */
+  unsupplied: string[];
+}
+
+/**
+ * Compare both bundled templates with the placeholder builder. Missing
+ * templates are reported rather than treated as errors: generate-doc and the
+ * PDF download already answer 500 when their template is absent.
+ */
+export async function checkTemplatePlaceholders(): Promise<TemplatePlaceholderReport[]> {
+  const templates: Array<[ReportTemplateFormat, string]> = [
+    ['pdf', APPRAISAL_PDF_TEMPLATE_PATH],
+    ['docx', APPRAISAL_DOCX_TEMPLATE_PATH],
+  ];
+
+  const reports: TemplatePlaceholderReport[] = [];
+  for (const [format, templatePath] of templates) {
+    const template = path.basename(templatePath);
+    if (!fs.existsSync(templatePath)) {
+      reports.push({ template, found: false, unsupplied: [] });
+      continue;
+    }
+    const placeholders = await listTemplatePlaceholders(format, fs.readFileSync(templatePath));
+    reports.push({ template, found: true, unsupplied: findUnsuppliedPlaceholders(placeholders) });
+  }
+  return reports;
+}
+
+/** Log the result of checkTemplatePlaceholders; never throws. */
+export async function reportTemplatePlaceholders(): Promise<void> {
+  try {
+    for (const { template, found, unsupplied } of await checkTemplatePlaceholders()) {
+      if (!found) {
+        console.warn(`⚠️ Template ${template} not found in pdf_template/`);
+      } else if (unsupplied.length > 0) {
+        console.warn(`⚠️ Template ${template} uses placeholders with no data: ${unsupplied.join(', ')}`);
+      }
+    }
+  } catch (error) {
+    console.error('⚠️ Template placeholder check failed:', error);
+  }
+}
@@ -0,0 +1,111 @@
+import { crc32 } from 'zlib';
+import { type Writable } from 'stream';
+
+/**
+ * Writes a ZIP archive to a stream one file at a time, so a large export never
+ * has to be held in memory and the client starts receiving bytes at once.
+ * Files are stored uncompressed: the archives hold PDFs, which already are.
+ */
+export interface ZipWriter {
+  /** Append a file; resolves once it has been handed to the stream. */
+  addFile(name: string, data: Buffer, modifiedAt?: Date): Promise<void>;
+  /** Write the central directory. No files may be added afterwards. */
+  finish(): Promise<void>;
+}
+
+interface CentralEntry {
+  name: Buffer;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+/** MS-DOS time and date fields, in local time as the format expects. */
+const dosDateTime = (at: Date): { time: number; date: number } => ({
+  time: (at.getHours() << 11) | (at.getMinutes() << 5) | Math.floor(at.getSeconds() / 2),
+  date: ((Math.max(at.getFullYear(), 1980) - 1980) << 9) | ((at.getMonth() + 1) << 5) | at.getDate(),
+});
+
+/** Bit 11: names are UTF-8. */
+const UTF8_FLAG = 0x0800;
+/** Limits of the classic (non-ZIP64) format. */
+const MAX_ENTRIES = 0xffff;
+const MAX_OFFSET = 0xffffffff;
+
+export const createZipWriter = (out: Writable): ZipWriter => {
+  const entries: CentralEntry[] = [];
+  let offset = 0;
+  let finished = false;
+
+  const write = (chunk: Buffer): Promise<void> => {
+    offset += chunk.length;
+    return new Promise((resolve, reject) => {
+      out.write(chunk, (error) => (error ? reject(error) : resolve()));
+    });
+  };
+
+  return {
+    async addFile(name, data, modifiedAt = new Date()) {
+      if (finished) throw new Error('ZIP archive already finished');
+      if (entries.length >= MAX_ENTRIES || offset + data.length > MAX_OFFSET) {
+        throw new Error('ZIP archive too large');
+      }
+
+      const fileName = Buffer.from(name, 'utf8');
+      const { time, date } = dosDateTime(modifiedAt);
+      const entry: CentralEntry = { name: fileName, crc: crc32(data) >>> 0, size: data.length, offset, time, date };
+
+      const header = Buffer.alloc(30);
+      header.writeUInt32LE(0x04034b50, 0); // local file header signature
+      header.writeUInt16LE(20, 4); // version needed (2.0)
+      header.writeUInt16LE(UTF8_FLAG, 6);
+      header.writeUInt16LE(0, 8); // method: stored
+      header.writeUInt16LE(time, 10);
+      header.writeUInt16LE(date, 12);
+      header.writeUInt32LE(entry.crc, 14);
+      header.writeUInt32LE(entry.size, 18); // compressed size
+      header.writeUInt32LE(entry.size, 22); // uncompressed size
+      header.writeUInt16LE(fileName.length, 26);
+      header.writeUInt16LE(0, 28); // extra field length
+
+      entries.push(entry);
+      await write(Buffer.concat([header, fileName]));
+      await write(data);
+    },
+
+    async finish() {
+      if (finished) return;
+      finished = true;
+
+      const directoryOffset = offset;
+      for (const entry of entries) {
+        const record = Buffer.alloc(46);
+        record.writeUInt32LE(0x02014b50, 0); // central directory signature
+        record.writeUInt16LE(20, 4); // version made by
+        record.writeUInt16LE(20, 6); // version needed
+        record.writeUInt16LE(UTF8_FLAG, 8);
+        record.writeUInt16LE(0, 10); // method: stored
+        record.writeUInt16LE(entry.time, 12);
+        record.writeUInt16LE(entry.date, 14);
+        record.writeUInt32LE(entry.crc, 16);
+        record.writeUInt32LE(entry.size, 20);
+        record.writeUInt32LE(entry.size, 24);
+        record.writeUInt16LE(entry.name.length, 28);
+        // extra, comment, disk number, internal and external attributes stay 0
+        record.writeUInt32LE(entry.offset, 42);
+        await write(Buffer.concat([record, entry.name]));
+      }
+      const directorySize = offset - directoryOffset;
+
+      const end = Buffer.alloc(22);
+      end.writeUInt32LE(0x06054b50, 0); // end of central directory signature
+      end.writeUInt16LE(entries.length, 8); // entries on this disk
+      end.writeUInt16LE(entries.length, 10); // entries in total
+      end.writeUInt32LE(directorySize, 12);
+      end.writeUInt32LE(directoryOffset, 16);
+      await write(end);
+    },
+  };
+};